@@ -0,0 +1,4 @@
+// Os serviços criam o cliente do Supabase e leem o segredo dos links ao serem importados
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || 'test-service-role-key';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret';
@@ -0,0 +1,32 @@
+import { signLinkToken, verifyLinkToken } from '../linkSigning';
+
+describe('link tokens', () => {
+  const payload = { restaurant_id: 'restaurant-1', area_id: 'area-1', key: 'key-1' };
+
+  it('returns the payload of a token signed for the scope', () => {
+    expect(verifyLinkToken('calendar', signLinkToken('calendar', payload))).toEqual(payload);
+  });
+
+  it('rejects a token signed for another scope', () => {
+    expect(verifyLinkToken('guest', signLinkToken('calendar', payload))).toBeNull();
+  });
+
+  it('rejects a token whose payload was changed', () => {
+    const [, sig] = signLinkToken('calendar', payload).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...payload, area_id: 'area-2' })).toString('base64url');
+    expect(verifyLinkToken('calendar', `${forged}.${sig}`)).toBeNull();
+  });
+
+  it('rejects a token whose signature was changed', () => {
+    const token = signLinkToken('calendar', payload);
+    const last = token.slice(-1) === '0' ? '1' : '0';
+    expect(verifyLinkToken('calendar', `${token.slice(0, -1)}${last}`)).toBeNull();
+    expect(verifyLinkToken('calendar', `${token}00`)).toBeNull();
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(verifyLinkToken('calendar', '')).toBeNull();
+    expect(verifyLinkToken('calendar', 'no-signature')).toBeNull();
+    expect(verifyLinkToken('calendar', '.abc')).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const LINK_SIGNING_SECRET = process.env.JWT_SECRET || '';
+
+// Links públicos assinados com um segredo conhecido poderiam ser forjados
+if (!LINK_SIGNING_SECRET) {
+  throw new Error('JWT_SECRET is required to sign public links');
+}
+
+function sign(scope: string, b64: string): string {
+  return crypto.createHmac('sha256', LINK_SIGNING_SECRET).update(`${scope}.${b64}`).digest('hex');
+}
+
+/**
+ * HMAC-signed token for links that work without logging in. The scope keeps a
+ * token issued for one kind of link from being accepted by another.
+ */
+export function signLinkToken(scope: string, payload: object): string {
+  const b64 = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${b64}.${sign(scope, b64)}`;
+}
+
+/**
+ * Payload of a token signed for the scope, or null when it was tampered with
+ */
+export function verifyLinkToken<T>(scope: string, token: string): T | null {
+  const [b64, sig] = token.split('.') as [string, string];
+  if (!b64 || !sig) return null;
+  const expected = sign(scope, b64);
+  if (expected.length !== sig.length || !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(sig))) return null;
+  try {
+    return JSON.parse(Buffer.from(b64, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
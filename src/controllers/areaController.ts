@@ -1,5 +1,9 @@
 import { Request, Response } from 'express';
 import { AreaService } from '../services/areaService';
+import areaTimelineService from '../services/areaTimelineService';
+import restaurantTimeService from '../services/restaurantTimeService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
 
 export class AreaController {
   /**
@@ -425,4 +429,151 @@ export class AreaController {
       });
     }
   }
+
+  /**
+   * @swagger
+   * /api/areas/{id}/timeline:
+   *   get:
+   *     summary: Get the table timeline of an area for a day
+   *     description: |
+   *       Every active table of the area with its reservations, walk-ins seated from the waiting
+   *       list, blocked dates and the free gaps left inside the service hours. Gaps already
+   *       discount the area's turnover buffer after each booking. Walk-ins end at the time
+   *       given by the duration rules (estimated_end).
+   *     tags: [Areas]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: Area ID
+   *       - in: query
+   *         name: date
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: Day of the timeline (YYYY-MM-DD), defaults to today at the restaurant
+   *     responses:
+   *       200:
+   *         description: Area timeline
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   $ref: '#/components/schemas/AreaTimeline'
+   *       404:
+   *         description: Area not found
+   */
+  static async getTimeline(req: AuthenticatedRequest, res: Response) {
+    try {
+      const restaurantId = req.user?.restaurant_id as string;
+      const date = (req.query.date as string) || await restaurantTimeService.today(restaurantId);
+
+      const result = await areaTimelineService.getAreaTimeline(restaurantId, req.params.id, date);
+
+      return res.json(result);
+    } catch (error) {
+      return res.status((error as AppError).statusCode || 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/areas/{id}/timeline/moves:
+   *   post:
+   *     summary: Move a reservation on the area timeline
+   *     description: |
+   *       Drag-and-drop of a reservation to a table of the area, optionally at a new start time.
+   *       The move is checked against reservations, seated walk-ins, turnover buffers, blocked
+   *       dates, opening hours and the table capacity. With dry_run it is only checked; otherwise
+   *       it is saved when there are no conflicts, and a 409 lists them when there are.
+   *     tags: [Areas]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: Area ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - reservation_id
+   *               - table_id
+   *             properties:
+   *               reservation_id:
+   *                 type: string
+   *                 format: uuid
+   *               table_id:
+   *                 type: string
+   *                 format: uuid
+   *               start_time:
+   *                 type: string
+   *                 example: "20:30"
+   *                 description: New start time; defaults to the current one
+   *               end_time:
+   *                 type: string
+   *                 example: "22:30"
+   *                 description: New end time; by default the reservation keeps its length
+   *               dry_run:
+   *                 type: boolean
+   *                 default: false
+   *     responses:
+   *       200:
+   *         description: Move checked, or saved when dry_run is false
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   $ref: '#/components/schemas/TimelineMoveCheck'
+   *       404:
+   *         description: Area, table or reservation not found
+   *       409:
+   *         description: The move conflicts with the timeline
+   */
+  static async moveOnTimeline(req: AuthenticatedRequest, res: Response) {
+    try {
+      const result = await areaTimelineService.moveReservation(
+        req.user?.restaurant_id as string,
+        req.params.id,
+        req.body,
+        req.user?.id
+      );
+
+      if (!req.body.dry_run && !result.data!.valid) {
+        return res.status(409).json({
+          success: false,
+          error: 'The move conflicts with the timeline',
+          data: result.data
+        });
+      }
+
+      return res.json(result);
+    } catch (error) {
+      return res.status((error as AppError).statusCode || 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
 } 
\ No newline at end of file
@@ -3,6 +3,12 @@ import { CustomerService } from '../services/customerService';
 import { AuthenticatedRequest } from '../middleware/auth';
 import { CustomerFilters } from '../types';
 import { supabase } from '../config/database';
+import restaurantTimeService, { localDate, startOfLocalDay } from '../services/restaurantTimeService';
+
+// Datas sem horário valem a partir da meia-noite no fuso do restaurante
+function toDayStart(value: string, timezone: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? startOfLocalDay(value, timezone) : value;
+}
 
 export class CustomerController {
   /**
@@ -606,7 +612,8 @@ export class CustomerController {
     try {
       const restaurantId = req.user?.restaurant_id;
       const { date } = req.query;
-      const from = typeof date === 'string' ? date : new Date().toISOString().split('T')[0];
+      const timezone = await restaurantTimeService.getTimezone(restaurantId!);
+      const from = toDayStart(typeof date === 'string' ? date : localDate(timezone), timezone);
 
       const { data, error } = await supabase
         .from('chat_contacts')
@@ -668,13 +675,14 @@ export class CustomerController {
     try {
       const restaurantId = req.user?.restaurant_id;
       const { from, to } = req.query;
+      const timezone = await restaurantTimeService.getTimezone(restaurantId!);
 
       const { data, error } = await supabase
         .from('chat_contacts')
         .select('id')
         .eq('restaurant_id', restaurantId)
-        .gte('created_at', String(from))
-        .lt('created_at', String(to));
+        .gte('created_at', toDayStart(String(from), timezone))
+        .lt('created_at', toDayStart(String(to), timezone));
 
       if (error) return res.status(400).json({ success: false, error: error.message });
       return res.json({ success: true, data: data || [] });
@@ -0,0 +1,492 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import floorPlanService from '../services/floorPlanService';
+import restaurantTimeService from '../services/restaurantTimeService';
+
+export class FloorPlanController {
+  /**
+   * @swagger
+   * /api/areas/{id}/floor-plans:
+   *   get:
+   *     summary: List the floor plan versions of an area
+   *     tags: [Floor Plans]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Area ID
+   *     responses:
+   *       200:
+   *         description: Floor plan versions, without their tables
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/FloorPlan'
+   *       404:
+   *         description: Area not found
+   */
+  static async getFloorPlans(req: AuthenticatedRequest, res: Response) {
+    try {
+      const plans = await floorPlanService.getFloorPlans(req.user?.restaurant_id as string, req.params.id);
+
+      return res.json({
+        success: true,
+        data: plans
+      });
+    } catch (error) {
+      return res.status((error as AppError).statusCode || 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/areas/{id}/floor-plans/layout:
+   *   get:
+   *     summary: Get the area's tables as laid out on a date
+   *     description: |
+   *       Geometry and active flag of every table of the area on the date: those of the floor plan
+   *       version scheduled for it, or the tables' own when none is. Availability and the area
+   *       timeline use the same layout.
+   *     tags: [Floor Plans]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Area ID
+   *       - in: query
+   *         name: date
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: Day to show (YYYY-MM-DD), defaults to today at the restaurant
+   *     responses:
+   *       200:
+   *         description: Layout in effect
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   $ref: '#/components/schemas/FloorPlanLayout'
+   *       404:
+   *         description: Area not found
+   */
+  static async getLayout(req: AuthenticatedRequest, res: Response) {
+    try {
+      const restaurantId = req.user?.restaurant_id as string;
+      const date = (req.query.date as string) || await restaurantTimeService.today(restaurantId);
+
+      const layout = await floorPlanService.getLayout(restaurantId, req.params.id, date);
+
+      return res.json({
+        success: true,
+        data: layout
+      });
+    } catch (error) {
+      return res.status((error as AppError).statusCode || 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/areas/{id}/floor-plans/{planId}:
+   *   get:
+   *     summary: Get a floor plan version with its tables
+   *     tags: [Floor Plans]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Area ID
+   *       - in: path
+   *         name: planId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Floor plan ID
+   *     responses:
+   *       200:
+   *         description: Floor plan version
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   $ref: '#/components/schemas/FloorPlan'
+   *       404:
+   *         description: Area or floor plan not found
+   */
+  static async getFloorPlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      const plan = await floorPlanService.getFloorPlan(req.user?.restaurant_id as string, req.params.id, req.params.planId);
+
+      return res.json({
+        success: true,
+        data: plan
+      });
+    } catch (error) {
+      return res.status((error as AppError).statusCode || 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/areas/{id}/floor-plans:
+   *   post:
+   *     summary: Save a floor plan version
+   *     description: |
+   *       Without tables the version captures the area's current layout. A date range and/or
+   *       weekdays schedule it right away (see the activate endpoint).
+   *     tags: [Floor Plans]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Area ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/FloorPlanInput'
+   *     responses:
+   *       201:
+   *         description: Floor plan version saved
+   *       400:
+   *         description: Invalid data or tables from another area
+   *       404:
+   *         description: Area not found
+   *       409:
+   *         description: |
+   *           The area already has a version with this name, or the schedule deactivates tables
+   *           that have reservations (FLOOR_PLAN_DISPLACES_RESERVATIONS)
+   */
+  static async createFloorPlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      const plan = await floorPlanService.createFloorPlan(req.user?.restaurant_id as string, req.params.id, req.body);
+
+      return res.status(201).json({
+        success: true,
+        data: plan
+      });
+    } catch (error) {
+      return res.status((error as AppError).statusCode || 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/areas/{id}/floor-plans/{planId}:
+   *   put:
+   *     summary: Update a floor plan version
+   *     description: Tables, when sent, replace the version's whole layout.
+   *     tags: [Floor Plans]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Area ID
+   *       - in: path
+   *         name: planId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Floor plan ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/FloorPlanInput'
+   *     responses:
+   *       200:
+   *         description: Floor plan version updated
+   *       400:
+   *         description: Invalid data or tables from another area
+   *       404:
+   *         description: Area or floor plan not found
+   *       409:
+   *         description: |
+   *           The area already has a version with this name, or the scheduled layout deactivates
+   *           tables that have reservations (FLOOR_PLAN_DISPLACES_RESERVATIONS)
+   */
+  static async updateFloorPlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      const plan = await floorPlanService.updateFloorPlan(
+        req.user?.restaurant_id as string,
+        req.params.id,
+        req.params.planId,
+        req.body
+      );
+
+      return res.json({
+        success: true,
+        data: plan
+      });
+    } catch (error) {
+      return res.status((error as AppError).statusCode || 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/areas/{id}/floor-plans/{planId}/clone:
+   *   post:
+   *     summary: Clone a floor plan version
+   *     description: Copies the tables and description under a new name, without the schedule.
+   *     tags: [Floor Plans]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Area ID
+   *       - in: path
+   *         name: planId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Floor plan ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 example: Terraço inverno
+   *     responses:
+   *       201:
+   *         description: Copy created
+   *       404:
+   *         description: Area or floor plan not found
+   *       409:
+   *         description: The area already has a version with this name
+   */
+  static async cloneFloorPlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      const plan = await floorPlanService.cloneFloorPlan(
+        req.user?.restaurant_id as string,
+        req.params.id,
+        req.params.planId,
+        req.body.name
+      );
+
+      return res.status(201).json({
+        success: true,
+        data: plan
+      });
+    } catch (error) {
+      return res.status((error as AppError).statusCode || 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/areas/{id}/floor-plans/{planId}/activate:
+   *   post:
+   *     summary: Activate a floor plan version now or on a schedule
+   *     description: |
+   *       Without a body the version's geometry and active flags are copied onto the tables and it
+   *       becomes the layout in use. With starts_on/ends_on and/or weekdays it is scheduled instead:
+   *       on the dates it covers it replaces the tables' own layout for availability and the
+   *       timeline. When several schedules cover a date, the one starting last wins. Either way it
+   *       is refused while tables it deactivates have reservations on the dates it applies to.
+   *     tags: [Floor Plans]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Area ID
+   *       - in: path
+   *         name: planId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Floor plan ID
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/FloorPlanSchedule'
+   *     responses:
+   *       200:
+   *         description: Floor plan version activated or scheduled
+   *       400:
+   *         description: Invalid schedule
+   *       404:
+   *         description: Area or floor plan not found
+   *       409:
+   *         description: Tables it deactivates have reservations (FLOOR_PLAN_DISPLACES_RESERVATIONS)
+   */
+  static async activateFloorPlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      const plan = await floorPlanService.activateFloorPlan(
+        req.user?.restaurant_id as string,
+        req.params.id,
+        req.params.planId,
+        req.body || {}
+      );
+
+      return res.json({
+        success: true,
+        data: plan
+      });
+    } catch (error) {
+      return res.status((error as AppError).statusCode || 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/areas/{id}/floor-plans/{planId}/deactivate:
+   *   post:
+   *     summary: Remove the schedule of a floor plan version
+   *     tags: [Floor Plans]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Area ID
+   *       - in: path
+   *         name: planId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Floor plan ID
+   *     responses:
+   *       200:
+   *         description: Schedule removed
+   *       404:
+   *         description: Area or floor plan not found
+   */
+  static async deactivateFloorPlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      const plan = await floorPlanService.deactivateFloorPlan(req.user?.restaurant_id as string, req.params.id, req.params.planId);
+
+      return res.json({
+        success: true,
+        data: plan
+      });
+    } catch (error) {
+      return res.status((error as AppError).statusCode || 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/areas/{id}/floor-plans/{planId}:
+   *   delete:
+   *     summary: Delete a floor plan version
+   *     description: The tables keep their current layout.
+   *     tags: [Floor Plans]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Area ID
+   *       - in: path
+   *         name: planId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Floor plan ID
+   *     responses:
+   *       200:
+   *         description: Floor plan version deleted
+   *       404:
+   *         description: Area or floor plan not found
+   */
+  static async deleteFloorPlan(req: AuthenticatedRequest, res: Response) {
+    try {
+      await floorPlanService.deleteFloorPlan(req.user?.restaurant_id as string, req.params.id, req.params.planId);
+
+      return res.json({
+        success: true,
+        message: 'Floor plan deleted successfully'
+      });
+    } catch (error) {
+      return res.status((error as AppError).statusCode || 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+}
@@ -1,7 +1,35 @@
 import { Request, Response, NextFunction } from 'express';
+import { ReservationSearchQuery, ReservationStatus } from '../types';
 import { AuthenticatedRequest } from '../middleware/auth';
 import reservationService from '../services/reservationService';
+import depositService from '../services/depositService';
+import reservationTransferService from '../services/reservationTransferService';
+import reservationGuestService from '../services/reservationGuestService';
+import celebrationCategoryService from '../services/celebrationCategoryService';
+import reservationSearchService from '../services/reservationSearchService';
+import reservationRunSheetService, { renderRunSheetPdf } from '../services/reservationRunSheetService';
+import restaurantTimeService from '../services/restaurantTimeService';
 import { createError } from '../middleware/errorHandler';
+import { AuthService } from '../services/authService';
+import moment from 'moment';
+
+// Perfis que podem ultrapassar os limites de pacing
+const PACING_OVERRIDE_ROLES = ['owner', 'admin', 'manager'];
+
+async function assertCanOverridePacing(userId: string): Promise<void> {
+  const profile = await AuthService.getUserProfile(userId);
+  if (!PACING_OVERRIDE_ROLES.includes(profile?.user?.role)) {
+    throw createError('Only managers can override pacing limits', 403);
+  }
+}
+
+function calendarFeedLink(req: Request, token: string) {
+  const baseUrl = process.env.API_BASE_URL || `${req.protocol}://${req.get('host')}`;
+  return {
+    token,
+    url: `${baseUrl}/api/public/reservations/calendar.ics?token=${encodeURIComponent(token)}`
+  };
+}
 
 export class ReservationController {
   async getReservations(req: AuthenticatedRequest, res: Response, next: NextFunction) {
@@ -31,6 +59,46 @@ return res.json(result)
     }
   }
 
+  async searchReservations(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const { status, ...query } = req.query as Record<string, any>;
+      const search: ReservationSearchQuery = {
+        ...query,
+        status: typeof status === 'string' ? status.split(',') as ReservationStatus[] : status
+      };
+
+      const result = await reservationSearchService.searchReservations(req.user.restaurant_id, search);
+      return res.json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getRunSheet(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const date = (req.query.date as string) || await restaurantTimeService.today(req.user.restaurant_id);
+      const result = await reservationRunSheetService.getRunSheet(req.user.restaurant_id, date);
+
+      if (req.query.format === 'pdf') {
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `inline; filename="folha-de-servico-${date}.pdf"`);
+        return res.send(renderRunSheetPdf(result.data!));
+      }
+
+      return res.json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
   async getTodayReservations(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       if (!req.user?.restaurant_id) {
@@ -58,6 +126,59 @@ return res.json(result)
     }
   }
 
+  async getAvailability(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const query = {
+        date: req.query.date as string,
+        start_time: req.query.start_time as string | undefined,
+        end_time: req.query.end_time as string | undefined,
+        number_of_people: Number(req.query.number_of_people),
+        area_id: req.query.area_id as string | undefined,
+        interval: req.query.interval ? Number(req.query.interval) : undefined
+      };
+
+      const result = await reservationService.getAvailability(req.user.restaurant_id, query);
+      return res.json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getOverbookingReport(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const date = (req.query.date as string) || await restaurantTimeService.today(req.user.restaurant_id);
+      const result = await reservationService.getOverbookingReport(req.user.restaurant_id, date);
+      return res.json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getCelebrationCategories(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const result = await celebrationCategoryService.getApplicableCategories(
+        req.user.restaurant_id,
+        req.query.date as string,
+        Number(req.query.number_of_people)
+      );
+      return res.json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
   async getReservationById(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
@@ -77,31 +198,35 @@ return res.json(result)
       // Validação adicional de data e horário
       const { reservation_date, start_time } = req.body;
       if (reservation_date) {
-        // Usar data local para evitar problemas de timezone
-        const now = new Date();
-        const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        const [year, month, day] = reservation_date.split('-').map(Number);
-        const reservationDate = new Date(year, month - 1, day);
-        if (reservationDate < today) {
+        // Data e hora atuais no fuso do restaurante
+        const now = await restaurantTimeService.now(req.user.restaurant_id);
+        const reservationDate = moment(reservation_date, 'YYYY-MM-DD');
+        if (reservationDate.isBefore(now, 'day')) {
           throw createError('Não é possível fazer reservas para datas passadas', 400);
         }
-        const isToday = reservationDate.getTime() === today.getTime();
-        if (isToday && start_time) {
-          const [hour, minute] = start_time.split(':').map(Number);
-          const currentHour = now.getHours();
-          const currentMinute = now.getMinutes();
-          if (hour < currentHour || (hour === currentHour && minute <= currentMinute)) {
+        if (reservationDate.isSame(now, 'day') && start_time) {
+          const startsAt = moment(`${reservationDate.format('YYYY-MM-DD')} ${start_time}`, 'YYYY-MM-DD HH:mm');
+          if (!startsAt.isAfter(now)) {
             throw createError('Não é possível fazer reservas para horários passados', 400);
           }
         }
       }
 
+      const { auto_assign, override_pacing, ...body } = req.body;
       const reservationData = {
-        ...req.body,
+        ...body,
         restaurant_id: req.user.restaurant_id
       };
 
-      const result = await reservationService.createReservation(reservationData);
+      if (override_pacing) {
+        await assertCanOverridePacing(req.user.id);
+      }
+
+      const result = await reservationService.createReservation(reservationData, {
+        autoAssign: auto_assign !== false,
+        overridePacing: override_pacing === true,
+        changedBy: req.user.id
+      });
 return res.status(201).json(result)
     } catch (error) {
       return next(error);
@@ -111,7 +236,164 @@ return res.status(201).json(result)
   async updateReservation(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const result = await reservationService.updateReservation(id, req.body);
+      const { auto_assign, override_pacing, ...body } = req.body;
+
+      if (override_pacing) {
+        await assertCanOverridePacing(req.user?.id as string);
+      }
+
+      const result = await reservationService.updateReservation(id, body, req.user?.id, {
+        autoAssign: auto_assign !== false,
+        overridePacing: override_pacing === true
+      });
+return res.json(result)
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getDeposit(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const { id } = req.params;
+      const result = await depositService.getDeposit(id, req.user.restaurant_id);
+return res.json(result)
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async payDeposit(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const { id } = req.params;
+      const result = await depositService.payDeposit(id, req.user.restaurant_id, req.body.payment_token, req.user.id);
+return res.json(result)
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getGuestLink(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const baseUrl = process.env.API_BASE_URL || `${req.protocol}://${req.get('host')}`;
+      const result = await reservationGuestService.createGuestLink(id, req.user.restaurant_id, baseUrl);
+return res.json(result)
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async importReservations(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const csv = req.file ? req.file.buffer.toString('utf8') : req.body.csv;
+      if (!csv) {
+        throw createError('Send the CSV as a "file" upload or in the "csv" field', 400);
+      }
+
+      let mapping = req.body.mapping;
+      if (typeof mapping === 'string') {
+        try {
+          mapping = JSON.parse(mapping);
+        } catch {
+          throw createError('mapping must be a JSON object', 400);
+        }
+      }
+
+      const result = await reservationTransferService.importReservations(req.user.restaurant_id, csv, {
+        mapping,
+        dryRun: req.body.dry_run === true || req.body.dry_run === 'true',
+        autoAssign: req.body.auto_assign === true || req.body.auto_assign === 'true',
+        changedBy: req.user.id
+      });
+return res.json(result)
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async exportReservations(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const { format = 'csv', from, to, status, area_id } = req.query as Record<string, string>;
+
+      if (format === 'ics') {
+        const token = await reservationTransferService.getCalendarFeedToken(req.user.restaurant_id, area_id);
+        const calendar = await reservationTransferService.getCalendarFeed(token);
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', 'attachment; filename="reservas.ics"');
+        return res.send(calendar);
+      }
+
+      const csv = await reservationTransferService.exportReservationsCsv(req.user.restaurant_id, { from, to, status, area_id });
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="reservas-${from || 'inicio'}-${to || 'fim'}.csv"`);
+      // BOM para o Excel reconhecer UTF-8
+      return res.send(`\uFEFF${csv}`);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getCalendarFeedUrl(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const token = await reservationTransferService.getCalendarFeedToken(req.user.restaurant_id, req.query.area_id as string);
+return res.json({
+        success: true,
+        data: calendarFeedLink(req, token)
+      })
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async rotateCalendarFeedUrl(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const token = await reservationTransferService.rotateCalendarFeedToken(req.user.restaurant_id, req.body.area_id);
+      return res.json({
+        success: true,
+        data: calendarFeedLink(req, token)
+      });
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getReservationHistory(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const { id } = req.params;
+      const result = await reservationService.getReservationHistory(id, req.user.restaurant_id);
 return res.json(result)
     } catch (error) {
       return next(error);
@@ -131,13 +413,16 @@ return res.json(result)
   async updateReservationStatus(req: AuthenticatedRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const { status } = req.body;
+      const { status, notes } = req.body;
 
       if (!status) {
         throw createError('Status is required', 400);
       }
 
-      const result = await reservationService.updateReservationStatus(id, status);
+      const result = await reservationService.updateReservationStatus(id, status, {
+        changedBy: req.user?.id,
+        notes
+      });
 return res.json(result)
     } catch (error) {
       return next(error);
@@ -0,0 +1,82 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import reservationSeriesService from '../services/reservationSeriesService';
+import { createError } from '../middleware/errorHandler';
+
+export class ReservationSeriesController {
+  async createSeries(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const result = await reservationSeriesService.createSeries({
+        ...req.body,
+        restaurant_id: req.user.restaurant_id,
+        created_by: req.user.id
+      });
+      return res.status(201).json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getSeriesById(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const result = await reservationSeriesService.getSeriesById(req.params.id, req.user.restaurant_id);
+      return res.json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async updateOccurrence(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const { id, reservationId } = req.params;
+      const { scope, ...changes } = req.body;
+
+      const result = await reservationSeriesService.updateOccurrence(
+        id,
+        reservationId,
+        req.user.restaurant_id,
+        scope,
+        changes,
+        req.user.id
+      );
+      return res.json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async cancelOccurrence(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const { id, reservationId } = req.params;
+
+      const result = await reservationSeriesService.cancelOccurrence(
+        id,
+        reservationId,
+        req.user.restaurant_id,
+        req.body.scope,
+        req.user.id
+      );
+      return res.json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+}
+
+export default new ReservationSeriesController();
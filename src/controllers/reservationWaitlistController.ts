@@ -0,0 +1,94 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import reservationWaitlistService from '../services/reservationWaitlistService';
+import { createError } from '../middleware/errorHandler';
+import { ReservationWaitlistStatus } from '../types';
+
+export class ReservationWaitlistController {
+  async getEntries(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const result = await reservationWaitlistService.getEntries(req.user.restaurant_id, {
+        date: req.query.date as string,
+        status: req.query.status as ReservationWaitlistStatus
+      });
+      return res.json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getEntryById(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const result = await reservationWaitlistService.getEntryById(req.params.id, req.user.restaurant_id);
+      return res.json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async addEntry(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const result = await reservationWaitlistService.addEntry({
+        ...req.body,
+        restaurant_id: req.user.restaurant_id,
+        created_by: req.user.id
+      });
+      return res.status(201).json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async acceptOffer(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const result = await reservationWaitlistService.acceptOffer(req.params.id, req.user.restaurant_id, req.user.id);
+      return res.json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async declineOffer(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const result = await reservationWaitlistService.declineOffer(req.params.id, req.user.restaurant_id, req.user.id);
+      return res.json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async cancelEntry(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+    try {
+      if (!req.user?.restaurant_id) {
+        throw createError('Restaurant access required', 403);
+      }
+
+      const result = await reservationWaitlistService.cancelEntry(req.params.id, req.user.restaurant_id, req.user.id);
+      return res.json(result);
+    } catch (error) {
+      return next(error);
+    }
+  }
+}
+
+export default new ReservationWaitlistController();
@@ -0,0 +1,305 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { TableCombinationService } from '../services/tableCombinationService';
+
+export class TableCombinationController {
+  /**
+   * @swagger
+   * /api/table-combinations:
+   *   get:
+   *     summary: Get table combinations for the current restaurant
+   *     tags: [Table Combinations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: areaId
+   *         schema:
+   *           type: string
+   *         description: Filter by area ID
+   *     responses:
+   *       200:
+   *         description: List of table combinations
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/TableCombination'
+   */
+  static async getCombinations(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { areaId } = req.query;
+      const combinations = await TableCombinationService.getCombinations(
+        req.user?.restaurant_id as string,
+        typeof areaId === 'string' ? areaId : undefined
+      );
+
+      return res.json({
+        success: true,
+        data: combinations
+      });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/table-combinations/{id}:
+   *   get:
+   *     summary: Get a single table combination
+   *     tags: [Table Combinations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: Table combination ID
+   *     responses:
+   *       200:
+   *         description: Table combination details
+   *       404:
+   *         description: Table combination not found
+   */
+  static async getCombinationById(req: AuthenticatedRequest, res: Response) {
+    try {
+      const combination = await TableCombinationService.getCombinationById(req.params.id, req.user?.restaurant_id as string);
+
+      if (!combination) {
+        return res.status(404).json({ success: false, error: 'Table combination not found' });
+      }
+
+      return res.json({
+        success: true,
+        data: combination
+      });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/table-combinations:
+   *   post:
+   *     summary: Create a table combination
+   *     description: Groups two or more tables of the same area that can be joined for a large party.
+   *     tags: [Table Combinations]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - area_id
+   *               - name
+   *               - table_ids
+   *             properties:
+   *               area_id:
+   *                 type: string
+   *               name:
+   *                 type: string
+   *               table_ids:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *               capacity:
+   *                 type: number
+   *                 description: Seats when joined. Defaults to the sum of the member tables
+   *               is_active:
+   *                 type: boolean
+   *     responses:
+   *       201:
+   *         description: Table combination created successfully
+   *       400:
+   *         description: Invalid member tables
+   */
+  static async createCombination(req: AuthenticatedRequest, res: Response) {
+    try {
+      const combination = await TableCombinationService.createCombination({
+        ...req.body,
+        restaurant_id: req.user?.restaurant_id as string
+      });
+
+      return res.status(201).json({
+        success: true,
+        data: combination
+      });
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/table-combinations/{id}:
+   *   put:
+   *     summary: Update a table combination
+   *     tags: [Table Combinations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: Table combination ID
+   *     responses:
+   *       200:
+   *         description: Table combination updated successfully
+   */
+  static async updateCombination(req: AuthenticatedRequest, res: Response) {
+    try {
+      const combination = await TableCombinationService.updateCombination(
+        req.params.id,
+        req.user?.restaurant_id as string,
+        req.body
+      );
+
+      return res.json({
+        success: true,
+        data: combination
+      });
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/table-combinations/{id}:
+   *   delete:
+   *     summary: Delete a table combination
+   *     tags: [Table Combinations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: Table combination ID
+   *     responses:
+   *       204:
+   *         description: Table combination deleted successfully
+   *       400:
+   *         description: Cannot delete table combination with active reservations
+   *       404:
+   *         description: Table combination not found
+   */
+  static async deleteCombination(req: AuthenticatedRequest, res: Response) {
+    try {
+      await TableCombinationService.deleteCombination(req.params.id, req.user?.restaurant_id as string);
+      return res.status(204).send();
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Table combination not found') {
+        return res.status(404).json({ success: false, error: error.message });
+      }
+      if (error instanceof Error && error.message.includes('Cannot delete')) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/table-combinations/{id}/status:
+   *   patch:
+   *     summary: Change the status of every table in a combination
+   *     tags: [Table Combinations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         schema:
+   *           type: string
+   *         required: true
+   *         description: Table combination ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - status
+   *             properties:
+   *               status:
+   *                 type: string
+   *                 enum: [available, occupied, reserved, blocked]
+   *               notes:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Member tables updated
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/TableWithArea'
+   *       404:
+   *         description: Table combination not found
+   */
+  static async changeCombinationStatus(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { status, notes } = req.body;
+      const tables = await TableCombinationService.changeCombinationStatus(
+        req.params.id,
+        req.user?.restaurant_id as string,
+        status,
+        notes,
+        req.user?.id
+      );
+
+      return res.json({
+        success: true,
+        data: tables
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Table combination not found') {
+        return res.status(404).json({ success: false, error: error.message });
+      }
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
+}
@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import { TableService } from '../services/tableService';
+import { AppError } from '../middleware/errorHandler';
+import { AuthenticatedRequest } from '../middleware/auth';
 
 export class TableController {
   /**
@@ -492,7 +494,13 @@ return res.status(500).json({ error: error instanceof Error ? error.message : 'I
    * @swagger
    * /api/tables/weekly-occupancy:
    *   get:
-   *     summary: Get weekly occupancy data for a restaurant
+   *     summary: Get occupancy analytics for a restaurant
+   *     description: |
+   *       Seat-hours used against seat-hours available during the service hours, per day, service
+   *       period and area. Available seats come from the capacity of the active tables; usage comes
+   *       from reservations (party size over their duration) and from occupied intervals in the
+   *       table status history without a reservation (walk-ins, counted as the whole table).
+   *       Defaults to the last 7 days up to today at the restaurant.
    *     tags: [Tables]
    *     security:
    *       - bearerAuth: []
@@ -503,13 +511,42 @@ return res.status(500).json({ error: error instanceof Error ? error.message : 'I
    *           type: string
    *         required: true
    *         description: Restaurant ID
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: First day (YYYY-MM-DD), defaults to 6 days before "to"
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: Last day (YYYY-MM-DD), defaults to today; ranges are limited to 366 days
+   *       - in: query
+   *         name: area_id
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Only the tables of this area
    *     responses:
    *       200:
-   *         description: Weekly occupancy data
+   *         description: Occupancy report
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   $ref: '#/components/schemas/OccupancyReport'
+   *       400:
+   *         description: Invalid date range
    */
   static async getWeeklyOccupancy(req: Request, res: Response) {
     try {
-      const { restaurantId } = req.query;
+      const { restaurantId, from, to, area_id } = req.query;
       
       if (!restaurantId || typeof restaurantId !== 'string') {
         return res.status(400).json({ 
@@ -518,16 +555,93 @@ return res.status(500).json({ error: error instanceof Error ? error.message : 'I
         });
       }
 
-      const occupancy = await TableService.getWeeklyOccupancy(restaurantId);
+      const occupancy = await TableService.getWeeklyOccupancy(restaurantId, {
+        from: from as string | undefined,
+        to: to as string | undefined,
+        areaId: area_id as string | undefined
+      });
       return res.json({
         success: true,
         data: occupancy
       });
     } catch (error) {
-      return res.status(500).json({ 
+      return res.status((error as AppError).statusCode || 500).json({ 
         success: false, 
         error: error instanceof Error ? error.message : 'Internal server error' 
       });
     }
   }
+
+  /**
+   * @swagger
+   * /api/tables/turn-analytics:
+   *   get:
+   *     summary: Get table turn-time analytics for the current restaurant
+   *     description: |
+   *       Derived from the table status history. A turn runs from the table becoming occupied to
+   *       its next status change. Dwell is the length of a turn; idle time is the free time between
+   *       two turns of the same table in the same service. turns_per_service is the average number
+   *       of turns a table makes in one service. Party sizes come from the reservation or waiting
+   *       list entry seated at that table when the turn started. Turns still open, cut by the date
+   *       range or longer than 8 hours are left out and counted in discarded_turns.
+   *       Defaults to the last 4 weeks up to today at the restaurant.
+   *     tags: [Tables]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: First day (YYYY-MM-DD), defaults to 27 days before "to"
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date
+   *         description: Last day (YYYY-MM-DD), defaults to today; ranges are limited to 366 days
+   *       - in: query
+   *         name: area_id
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *         description: Only the tables of this area
+   *     responses:
+   *       200:
+   *         description: Turn analytics
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   $ref: '#/components/schemas/TurnAnalytics'
+   *       400:
+   *         description: Invalid date range
+   *       403:
+   *         description: Restaurant access required
+   */
+  static async getTurnAnalytics(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { from, to, area_id } = req.query;
+
+      const analytics = await TableService.getTurnAnalytics(req.user?.restaurant_id as string, {
+        from: from as string | undefined,
+        to: to as string | undefined,
+        areaId: area_id as string | undefined
+      });
+      return res.json({
+        success: true,
+        data: analytics
+      });
+    } catch (error) {
+      return res.status((error as AppError).statusCode || 500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      });
+    }
+  }
 } 
\ No newline at end of file
@@ -13,9 +13,11 @@ import restaurantRoutes from './routes/restaurantRoutes';
 import reservationRoutes from './routes/reservationRoutes';
 import areaRoutes from './routes/areaRoutes';
 import tableRoutes from './routes/tableRoutes';
+import tableCombinationRoutes from './routes/tableCombinationRoutes';
 import menuRoutes from './routes/menuRoutes';
 import authRoutes from './routes/authRoutes';
 import waitingListRoutes from './routes/waitingListRoutes';
+import reservationWaitlistRoutes from './routes/reservationWaitlistRoutes';
 import experienceRoutes from './routes/experienceRoutes';
 import customerRoutes from './routes/customerRoutes';
 import dashboardRoutes from './routes/dashboardRoutes';
@@ -29,11 +31,16 @@ import userRoutes from './routes/userRoutes';
 import notificationRoutes from './routes/notificationRoutes';
 import publicMenuRoutes from './routes/publicMenuRoutes';
 import publicRoutes from './routes/publicRoutes';
+import realtimeRoutes from './routes/realtimeRoutes';
 
 
 // Import middleware
 import { errorHandler, notFound } from './middleware/errorHandler';
 
+// Import background jobs
+import noShowService from './services/noShowService';
+import reservationWaitlistService from './services/reservationWaitlistService';
+
 // Carregar variáveis de ambiente
 dotenv.config();
 
@@ -111,7 +118,7 @@ const swaggerOptions = {
             start_time: { type: 'string' },
             table_id: { type: 'string', format: 'uuid' },
             area_id: { type: 'string', format: 'uuid' },
-            status: { type: 'string', enum: ['pending', 'confirmed', 'canceled', 'completed', 'seated'] },
+            status: { type: 'string', enum: ['pending', 'confirmed', 'seated', 'completed', 'canceled', 'no_show'] },
             notes: { type: 'string' },
             created_at: { type: 'string', format: 'date-time' },
             updated_at: { type: 'string', format: 'date-time' }
@@ -514,6 +521,7 @@ app.use('/api/auth', authRoutes);
 app.use('/api/restaurants', restaurantRoutes);
 app.use('/api/areas', areaRoutes);
 app.use('/api/tables', tableRoutes);
+app.use('/api/table-combinations', tableCombinationRoutes);
 app.use('/api/reservations', reservationRoutes);
 app.use('/api/menu', menuRoutes);
 app.use('/api/customers', customerRoutes);
@@ -522,8 +530,10 @@ app.use('/api/crm', crmRoutes);
 app.use('/api/chat', chatRoutes);
 app.use('/api/whatsapp', whatsappRoutes);
 app.use('/api/waiting-lists', waitingListRoutes);
+app.use('/api/reservation-waitlist', reservationWaitlistRoutes);
 app.use('/api/upload', uploadRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/realtime', realtimeRoutes);
 app.use('/api/ai', aiRoutes);
 app.use('/api/experience', experienceRoutes);
 app.use('/api/users', userRoutes);
@@ -542,6 +552,16 @@ app.use(errorHandler);
 // Start server
 app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
+
+  // Marca como no-show reservas confirmadas cujo cliente não chegou após a tolerância
+  if (process.env.NO_SHOW_JOB_ENABLED !== 'false') {
+    noShowService.start();
+  }
+
+  // Expira ofertas da lista de espera de reservas não respondidas a tempo
+  if (process.env.WAITLIST_HOLD_JOB_ENABLED !== 'false') {
+    reservationWaitlistService.start();
+  }
 });
 
 export default app; 
\ No newline at end of file
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 
 export interface AppError extends Error {
   statusCode?: number;
+  code?: string;
   isOperational?: boolean;
 }
 
@@ -20,6 +21,7 @@ export const errorHandler = (
   res.status(statusCode).json({
     success: false,
     error: message,
+    ...(err.code && { code: err.code }),
     ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
   });
 };
@@ -30,9 +32,10 @@ export const notFound = (req: Request, res: Response, next: NextFunction) => {
   next(error);
 };
 
-export const createError = (message: string, statusCode: number = 500): AppError => {
+export const createError = (message: string, statusCode: number = 500, code?: string): AppError => {
   const error = new Error(message) as AppError;
   error.statusCode = statusCode;
+  error.code = code;
   error.isOperational = true;
   return error;
 }; 
\ No newline at end of file
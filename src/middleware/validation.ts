@@ -16,7 +16,57 @@ export const validate = (schema: Joi.ObjectSchema) => {
   };
 };
 
+export const validateQuery = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { error, value } = schema.validate(req.query);
+    if (error) {
+      res.status(400).json({
+        success: false,
+        message: 'Dados inválidos',
+        errors: error.details.map(detail => detail.message)
+      });
+      return;
+    }
+    req.query = value;
+    next();
+  };
+};
+
 // Validation schemas
+const openingShiftSchema = Joi.object({
+  open: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).required(),
+  close: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).required()
+});
+
+export const openingHoursSchema = Joi.object().pattern(
+  Joi.string(),
+  Joi.object({
+    open: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
+    close: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
+    shifts: Joi.array().items(openingShiftSchema),
+    closed: Joi.boolean()
+  }).and('open', 'close').unknown(true)
+);
+
+export const openingHoursOverridesSchema = Joi.array().items(
+  Joi.object({
+    date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+    closed: Joi.boolean().optional(),
+    shifts: Joi.array().items(openingShiftSchema).optional(),
+    reason: Joi.string().optional().allow('').max(200)
+  }).or('closed', 'shifts')
+);
+
+// Fuso horário IANA do restaurante, ex.: America/Sao_Paulo
+export const timezoneSchema = Joi.string().max(64).custom((value, helpers) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return value;
+  } catch {
+    return helpers.error('any.invalid');
+  }
+}, 'IANA timezone');
+
 export const restaurantSchema = Joi.object({
   name: Joi.string().required().min(2).max(100),
   description: Joi.string().optional().max(500),
@@ -27,7 +77,9 @@ export const restaurantSchema = Joi.object({
   phone: Joi.string().optional().max(20),
   email: Joi.string().email().optional(),
   website: Joi.string().uri().optional(),
-  opening_hours: Joi.object().optional(),
+  opening_hours: openingHoursSchema.optional(),
+  opening_hours_overrides: openingHoursOverridesSchema.optional(),
+  timezone: timezoneSchema.optional(),
   max_capacity: Joi.number().integer().min(1).optional()
 });
 
@@ -50,6 +102,70 @@ export const areaUpdateSchema = Joi.object({
   order: Joi.number().integer().min(0).optional()
 });
 
+export const areaTimelineQuerySchema = Joi.object({
+  date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional()
+});
+
+export const timelineMoveSchema = Joi.object({
+  reservation_id: Joi.string().uuid().required(),
+  table_id: Joi.string().uuid().required(),
+  start_time: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).optional(),
+  end_time: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).optional(),
+  dry_run: Joi.boolean().default(false)
+});
+
+const floorPlanTableSchema = Joi.object({
+  table_id: Joi.string().uuid().required(),
+  position_x: Joi.number().required(),
+  position_y: Joi.number().required(),
+  width: Joi.number().positive().required(),
+  height: Joi.number().positive().required(),
+  is_active: Joi.boolean().required()
+});
+
+const floorPlanScheduleFields = {
+  starts_on: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).allow(null).optional(),
+  ends_on: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).allow(null).optional(),
+  weekdays: Joi.array().items(Joi.number().integer().min(0).max(6)).unique().allow(null).optional()
+};
+
+export const floorPlanSchema = Joi.object({
+  name: Joi.string().required().min(1).max(100),
+  description: Joi.string().optional().allow('', null).max(500),
+  ...floorPlanScheduleFields,
+  tables: Joi.array().items(floorPlanTableSchema).unique('table_id').optional()
+});
+
+export const floorPlanUpdateSchema = Joi.object({
+  name: Joi.string().min(1).max(100).optional(),
+  description: Joi.string().optional().allow('', null).max(500),
+  ...floorPlanScheduleFields,
+  tables: Joi.array().items(floorPlanTableSchema).unique('table_id').optional()
+}).min(1);
+
+export const floorPlanCloneSchema = Joi.object({
+  name: Joi.string().required().min(1).max(100)
+});
+
+export const floorPlanActivateSchema = Joi.object(floorPlanScheduleFields);
+
+export const floorPlanLayoutQuerySchema = Joi.object({
+  date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional()
+});
+
+export const occupancyQuerySchema = Joi.object({
+  restaurantId: Joi.string().required(),
+  from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  area_id: Joi.string().uuid().optional()
+});
+
+export const turnAnalyticsQuerySchema = Joi.object({
+  from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  area_id: Joi.string().uuid().optional()
+});
+
 export const tableSchema = Joi.object({
   restaurant_id: Joi.string().uuid().required(),
   area_id: Joi.string().uuid().required(),
@@ -88,22 +204,188 @@ export const tablePositionSchema = Joi.object({
   positionY: Joi.number().required()
 });
 
+export const tableCombinationSchema = Joi.object({
+  area_id: Joi.string().uuid().required(),
+  name: Joi.string().required().min(1).max(100),
+  table_ids: Joi.array().items(Joi.string().uuid()).min(2).unique().required(),
+  capacity: Joi.number().integer().min(1).optional(),
+  is_active: Joi.boolean().default(true)
+});
+
+export const tableCombinationUpdateSchema = Joi.object({
+  name: Joi.string().min(1).max(100).optional(),
+  table_ids: Joi.array().items(Joi.string().uuid()).min(2).unique().optional(),
+  capacity: Joi.number().integer().min(1).optional(),
+  is_active: Joi.boolean().optional()
+});
+
 export const reservationSchema = Joi.object({
   customer_name: Joi.string().required().min(2).max(100),
   phone: Joi.string().optional().max(20),
   number_of_people: Joi.number().integer().min(1).required(),
   reservation_date: Joi.string().required(),
   start_time: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).required(),
+  end_time: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).optional(),
   table_id: Joi.string().uuid().optional(),
+  table_combination_id: Joi.string().uuid().optional(),
   area_id: Joi.string().uuid().optional(),
-  status: Joi.string().valid('pending', 'confirmed', 'canceled', 'completed', 'seated').default('pending'),
+  status: Joi.string().valid('pending', 'confirmed', 'seated', 'completed', 'canceled', 'no_show').default('pending'),
   notes: Joi.string().optional().allow('').max(500),
+  auto_assign: Joi.boolean().optional(),
+  override_pacing: Joi.boolean().optional(),
+  categoria_comemoracao_id: Joi.string().uuid().optional().allow(null),
   // Campos opcionais que podem vir do frontend
-  reservation_experience_id: Joi.string().optional(),
-  reservation_experience_data: Joi.object().optional(),
+  reservation_experience_id: Joi.string().uuid().optional(),
+  // Vínculos de experiência; null remove as experiências da reserva
+  reservation_experience_data: Joi.object({
+    bonification_id: Joi.string().uuid().optional().allow(null),
+    event_id: Joi.string().uuid().optional().allow(null),
+    event_exclusive_id: Joi.string().uuid().optional().allow(null)
+  }).unknown(true).optional().allow(null),
   restaurant_id: Joi.string().uuid().optional()
 }).unknown(true); // Permite campos adicionais
 
+export const reservationStatusSchema = Joi.object({
+  status: Joi.string().valid('pending', 'confirmed', 'seated', 'completed', 'canceled', 'no_show').required(),
+  notes: Joi.string().optional().allow('').max(500)
+});
+
+export const reservationDepositPaymentSchema = Joi.object({
+  payment_token: Joi.string().required().max(255)
+});
+
+export const reservationWaitlistSchema = Joi.object({
+  customer_name: Joi.string().required().min(2).max(100),
+  phone: Joi.string().optional().max(20),
+  number_of_people: Joi.number().integer().min(1).required(),
+  reservation_date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+  start_time: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).required(),
+  flexibility_minutes: Joi.number().integer().min(0).max(240).default(30),
+  area_id: Joi.string().uuid().optional(),
+  notes: Joi.string().optional().allow('').max(500)
+});
+
+export const reservationWaitlistQuerySchema = Joi.object({
+  date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  status: Joi.string().valid('waiting', 'offered', 'accepted', 'declined', 'expired', 'canceled').optional()
+});
+
+const RESERVATION_STATUSES = ['pending', 'confirmed', 'seated', 'completed', 'canceled', 'no_show'];
+
+export const reservationSearchQuerySchema = Joi.object({
+  from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  // status=pending,confirmed ou status=pending&status=confirmed
+  status: Joi.alternatives().try(
+    Joi.array().items(Joi.string().valid(...RESERVATION_STATUSES)),
+    Joi.string().pattern(new RegExp(`^(${RESERVATION_STATUSES.join('|')})(,(${RESERVATION_STATUSES.join('|')}))*$`))
+  ).optional(),
+  area_id: Joi.string().uuid().optional(),
+  table_id: Joi.string().uuid().optional(),
+  min_people: Joi.number().integer().min(1).optional(),
+  max_people: Joi.number().integer().min(Joi.ref('min_people')).optional(),
+  phone: Joi.string().max(20).optional(),
+  name: Joi.string().max(100).optional(),
+  categoria_comemoracao_id: Joi.string().uuid().optional(),
+  experience_id: Joi.string().uuid().optional(),
+  sort: Joi.string().valid('date', 'created_at', 'customer_name', 'number_of_people').default('date'),
+  order: Joi.string().valid('asc', 'desc').default('asc'),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  cursor: Joi.string().max(1000).optional()
+});
+
+export const overbookingReportQuerySchema = Joi.object({
+  date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional()
+});
+
+export const runSheetQuerySchema = Joi.object({
+  date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  format: Joi.string().valid('json', 'pdf').default('json')
+});
+
+export const celebrationCategoryQuerySchema = Joi.object({
+  date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+  number_of_people: Joi.number().integer().min(1).default(1)
+});
+
+export const guestRescheduleSchema = Joi.object({
+  reservation_date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+  start_time: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).required(),
+  number_of_people: Joi.number().integer().min(1).max(50).optional()
+});
+
+export const guestCancelSchema = Joi.object({
+  reason: Joi.string().optional().allow('').max(500)
+});
+
+export const reservationImportSchema = Joi.object({
+  csv: Joi.string().optional(),
+  // Em multipart os campos chegam como texto; mapping pode ser um JSON
+  mapping: Joi.alternatives().try(Joi.object().pattern(Joi.string(), Joi.string()), Joi.string()).optional(),
+  dry_run: Joi.boolean().optional(),
+  auto_assign: Joi.boolean().optional()
+});
+
+export const reservationExportQuerySchema = Joi.object({
+  format: Joi.string().valid('csv', 'ics').default('csv'),
+  from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  status: Joi.string().valid('pending', 'confirmed', 'seated', 'completed', 'canceled', 'no_show').optional(),
+  area_id: Joi.string().uuid().optional()
+}).when(Joi.object({ format: Joi.valid('ics') }).unknown(), {
+  then: Joi.object({ area_id: Joi.required() })
+});
+
+export const calendarFeedQuerySchema = Joi.object({
+  area_id: Joi.string().uuid().required()
+});
+
+export const reservationSeriesSchema = Joi.object({
+  customer_name: Joi.string().required().min(2).max(100),
+  phone: Joi.string().optional().max(20),
+  number_of_people: Joi.number().integer().min(1).required(),
+  start_time: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).required(),
+  end_time: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).optional(),
+  table_id: Joi.string().uuid().optional(),
+  table_combination_id: Joi.string().uuid().optional(),
+  area_id: Joi.string().uuid().optional(),
+  notes: Joi.string().optional().allow('').max(500),
+  reservation_status: Joi.string().valid('pending', 'confirmed').default('confirmed'),
+  tipo_recorrencia: Joi.string().valid('semanal', 'quinzenal', 'mensal').required(),
+  dias_semana: Joi.array().items(Joi.number().integer().min(0).max(6)).unique().optional(),
+  data_inicio: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+  data_fim: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  qtd_ocorrencias: Joi.number().integer().min(1).max(104).optional()
+}).or('data_fim', 'qtd_ocorrencias');
+
+export const reservationSeriesOccurrenceUpdateSchema = Joi.object({
+  scope: Joi.string().valid('this', 'following').required(),
+  customer_name: Joi.string().optional().min(2).max(100),
+  phone: Joi.string().optional().max(20),
+  number_of_people: Joi.number().integer().min(1).optional(),
+  reservation_date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional()
+    .when('scope', { is: 'following', then: Joi.forbidden() }),
+  start_time: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).optional(),
+  end_time: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).optional(),
+  table_id: Joi.string().uuid().optional(),
+  table_combination_id: Joi.string().uuid().optional(),
+  area_id: Joi.string().uuid().optional(),
+  notes: Joi.string().optional().allow('').max(500)
+});
+
+export const reservationSeriesCancelSchema = Joi.object({
+  scope: Joi.string().valid('this', 'following').required()
+});
+
+export const availabilityQuerySchema = Joi.object({
+  date: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).required(),
+  start_time: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).optional(),
+  end_time: Joi.string().pattern(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).optional(),
+  number_of_people: Joi.number().integer().min(1).required(),
+  area_id: Joi.string().uuid().optional(),
+  interval: Joi.number().integer().min(5).max(240).optional()
+});
+
 export const waitingListSchema = Joi.object({
   customer_name: Joi.string().required().min(2).max(100),
   phone_number: Joi.string().required().max(20),
@@ -175,7 +457,9 @@ export const restaurantSchemas = {
     phone: Joi.string().optional().max(20).allow(''),
     email: Joi.string().email().required(),
     website: Joi.string().uri().optional().allow(''),
-    opening_hours: Joi.object().optional().unknown(true),
+    opening_hours: openingHoursSchema.optional().allow(null),
+    opening_hours_overrides: openingHoursOverridesSchema.optional(),
+    timezone: timezoneSchema.optional(),
     max_capacity: Joi.number().integer().min(0).optional()
   }),
 
@@ -190,13 +474,79 @@ export const restaurantSchemas = {
     phone: Joi.string().optional().max(20).allow(''),
     email: Joi.string().email().optional().allow(''),
     website: Joi.string().uri().optional().allow(''),
-    opening_hours: Joi.object().optional().unknown(true),
+    opening_hours: openingHoursSchema.optional().allow(null),
+    opening_hours_overrides: openingHoursOverridesSchema.optional(),
+    timezone: timezoneSchema.optional(),
     max_capacity: Joi.number().integer().min(0).optional(),
     onboarding_step: Joi.number().integer().min(0).max(10).optional(),
     onboarding_completed: Joi.boolean().optional()
   })
 };
 
+export const reservationDurationRuleSchema = Joi.object({
+  name: Joi.string().optional().max(100),
+  duration_minutes: Joi.number().integer().min(15).max(720).required(),
+  min_party_size: Joi.number().integer().min(1).optional(),
+  max_party_size: Joi.number().integer().min(1).optional()
+    .when('min_party_size', { is: Joi.exist(), then: Joi.number().min(Joi.ref('min_party_size')) }),
+  weekdays: Joi.array().items(Joi.number().integer().min(0).max(6)).unique().optional(),
+  area_id: Joi.string().uuid().optional(),
+  start_time: Joi.string().pattern(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/).optional(),
+  end_time: Joi.string().pattern(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/).optional()
+}).and('start_time', 'end_time');
+
+export const reservationPacingRuleSchema = Joi.object({
+  name: Joi.string().optional().max(100),
+  area_id: Joi.string().uuid().optional(),
+  interval_minutes: Joi.number().integer().min(5).max(240).required(),
+  max_reservations: Joi.number().integer().min(1).optional(),
+  max_covers: Joi.number().integer().min(1).optional()
+}).or('max_reservations', 'max_covers');
+
+export const reservationTurnoverBufferSchema = Joi.object({
+  area_id: Joi.string().uuid().optional(),
+  minutes: Joi.number().integer().min(0).max(240).required()
+});
+
+export const reservationOverbookingRuleSchema = Joi.object({
+  name: Joi.string().optional().max(100),
+  weekdays: Joi.array().items(Joi.number().integer().min(0).max(6)).unique().min(1).required(),
+  percentage: Joi.number().min(0).max(100).required()
+});
+
+export const reservationDepositPolicySchema = Joi.object({
+  name: Joi.string().optional().max(100),
+  min_party_size: Joi.number().integer().min(1).optional(),
+  date_from: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  date_to: Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  event_id: Joi.string().uuid().optional(),
+  amount_per_person: Joi.number().min(0).precision(2).optional(),
+  fixed_amount: Joi.number().min(0).precision(2).optional(),
+  refund_window_hours: Joi.number().integer().min(0).max(720).required(),
+  cancellation_fee_percentage: Joi.number().min(0).max(100).optional()
+}).or('amount_per_person', 'fixed_amount');
+
+export const restaurantSettingsSchema = Joi.object({
+  restaurant: Joi.object({
+    opening_hours: openingHoursSchema.optional().allow(null),
+    opening_hours_overrides: openingHoursOverridesSchema.optional(),
+    timezone: timezoneSchema.optional()
+  }).unknown(true).optional(),
+  reservation_settings: Joi.object({
+    settings: Joi.object({
+      default_duration_minutes: Joi.number().integer().min(15).max(720).optional(),
+      duration_rules: Joi.array().items(reservationDurationRuleSchema).optional(),
+      pacing_rules: Joi.array().items(reservationPacingRuleSchema).optional(),
+      turnover_buffers: Joi.array().items(reservationTurnoverBufferSchema).unique('area_id', { ignoreUndefined: false }).optional(),
+      overbooking_rules: Joi.array().items(reservationOverbookingRuleSchema).optional(),
+      deposit_policies: Joi.array().items(reservationDepositPolicySchema).optional(),
+      deposit_currency: Joi.string().length(3).uppercase().optional(),
+      no_show_grace_minutes: Joi.number().integer().min(0).max(240).optional(),
+      waitlist_hold_minutes: Joi.number().integer().min(1).max(1440).optional()
+    }).unknown(true).required()
+  }).unknown(true).optional()
+}).unknown(true);
+
 // Schemas de validação para reservas
 export const reservationSchemas = {
   create: Joi.object({
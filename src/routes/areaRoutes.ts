@@ -1,9 +1,20 @@
 import { Router } from 'express';
 import { AreaController } from '../controllers/areaController';
+import { FloorPlanController } from '../controllers/floorPlanController';
 import { AreaService } from '../services/areaService';
 import { authenticate, requireRestaurant } from '../middleware/auth';
-import { validate } from '../middleware/validation';
-import { areaSchema, areaUpdateSchema } from '../middleware/validation';
+import { validate, validateQuery } from '../middleware/validation';
+import {
+  areaSchema,
+  areaUpdateSchema,
+  areaTimelineQuerySchema,
+  timelineMoveSchema,
+  floorPlanSchema,
+  floorPlanUpdateSchema,
+  floorPlanCloneSchema,
+  floorPlanActivateSchema,
+  floorPlanLayoutQuerySchema
+} from '../middleware/validation';
 
 const router = Router();
 
@@ -45,6 +56,302 @@ const router = Router();
  *         updated_at:
  *           type: string
  *           format: date-time
+ *     TimelineEntry:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [reservation, walk_in]
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         customer_name:
+ *           type: string
+ *         number_of_people:
+ *           type: integer
+ *         start_time:
+ *           type: string
+ *           example: "20:00"
+ *         end_time:
+ *           type: string
+ *           example: "22:00"
+ *         status:
+ *           type: string
+ *         table_combination:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             id:
+ *               type: string
+ *             name:
+ *               type: string
+ *         is_overbooked:
+ *           type: boolean
+ *         estimated_end:
+ *           type: boolean
+ *           description: Walk-ins only; the end comes from the duration rules
+ *     AreaTimeline:
+ *       type: object
+ *       properties:
+ *         date:
+ *           type: string
+ *           format: date
+ *         area:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             name:
+ *               type: string
+ *         service_windows:
+ *           type: array
+ *           nullable: true
+ *           description: Service hours of the day, null when the restaurant has none configured
+ *           items:
+ *             type: object
+ *             properties:
+ *               start_time:
+ *                 type: string
+ *               end_time:
+ *                 type: string
+ *         turnover_buffer_minutes:
+ *           type: integer
+ *         tables:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               table:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                   number:
+ *                     type: integer
+ *                   name:
+ *                     type: string
+ *                   capacity:
+ *                     type: integer
+ *                   status:
+ *                     type: string
+ *               entries:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/TimelineEntry'
+ *               blocked:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     reason:
+ *                       type: string
+ *                     is_full_day:
+ *                       type: boolean
+ *                     start_time:
+ *                       type: string
+ *                       nullable: true
+ *                     end_time:
+ *                       type: string
+ *                       nullable: true
+ *               free_gaps:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     start_time:
+ *                       type: string
+ *                     end_time:
+ *                       type: string
+ *                     minutes:
+ *                       type: integer
+ *         unassigned:
+ *           type: array
+ *           description: Reservations of the area without a table (overbooking), ready to be dropped on one
+ *           items:
+ *             $ref: '#/components/schemas/TimelineEntry'
+ *     TimelineMoveCheck:
+ *       type: object
+ *       properties:
+ *         valid:
+ *           type: boolean
+ *         reservation_id:
+ *           type: string
+ *         table_id:
+ *           type: string
+ *         start_time:
+ *           type: string
+ *         end_time:
+ *           type: string
+ *         conflicts:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [reservation, walk_in, blocked, capacity, closed]
+ *               id:
+ *                 type: string
+ *               message:
+ *                 type: string
+ *               start_time:
+ *                 type: string
+ *                 nullable: true
+ *               end_time:
+ *                 type: string
+ *                 nullable: true
+ *         reservation:
+ *           $ref: '#/components/schemas/Reservation'
+ *     FloorPlanTable:
+ *       type: object
+ *       required:
+ *         - table_id
+ *         - position_x
+ *         - position_y
+ *         - width
+ *         - height
+ *         - is_active
+ *       properties:
+ *         table_id:
+ *           type: string
+ *           format: uuid
+ *         position_x:
+ *           type: number
+ *         position_y:
+ *           type: number
+ *         width:
+ *           type: number
+ *         height:
+ *           type: number
+ *         is_active:
+ *           type: boolean
+ *           description: Whether the table is bookable while this version is in effect
+ *     FloorPlanSchedule:
+ *       type: object
+ *       description: Dates on which the version takes over; a date range, weekdays, or both
+ *       properties:
+ *         starts_on:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *         ends_on:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *         weekdays:
+ *           type: array
+ *           nullable: true
+ *           items:
+ *             type: integer
+ *             minimum: 0
+ *             maximum: 6
+ *           description: 0 = Sunday
+ *     FloorPlanInput:
+ *       allOf:
+ *         - $ref: '#/components/schemas/FloorPlanSchedule'
+ *         - type: object
+ *           properties:
+ *             name:
+ *               type: string
+ *               example: Terraço verão
+ *             description:
+ *               type: string
+ *               nullable: true
+ *             tables:
+ *               type: array
+ *               description: Layout of the area's tables; tables left out keep their own
+ *               items:
+ *                 $ref: '#/components/schemas/FloorPlanTable'
+ *     FloorPlan:
+ *       allOf:
+ *         - $ref: '#/components/schemas/FloorPlanSchedule'
+ *         - type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             restaurant_id:
+ *               type: string
+ *               format: uuid
+ *             area_id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *             description:
+ *               type: string
+ *               nullable: true
+ *             applied_at:
+ *               type: string
+ *               format: date-time
+ *               nullable: true
+ *               description: Last time the version was copied onto the tables
+ *             tables:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/FloorPlanTable'
+ *             created_at:
+ *               type: string
+ *               format: date-time
+ *             updated_at:
+ *               type: string
+ *               format: date-time
+ *     FloorPlanLayout:
+ *       type: object
+ *       properties:
+ *         date:
+ *           type: string
+ *           format: date
+ *         area_id:
+ *           type: string
+ *           format: uuid
+ *         floor_plan:
+ *           type: object
+ *           nullable: true
+ *           description: Scheduled version in effect, null when the tables' own layout applies
+ *           properties:
+ *             id:
+ *               type: string
+ *             name:
+ *               type: string
+ *             starts_on:
+ *               type: string
+ *               nullable: true
+ *             ends_on:
+ *               type: string
+ *               nullable: true
+ *             weekdays:
+ *               type: array
+ *               nullable: true
+ *               items:
+ *                 type: integer
+ *         tables:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               number:
+ *                 type: integer
+ *               name:
+ *                 type: string
+ *               capacity:
+ *                 type: integer
+ *               shape:
+ *                 type: string
+ *               position_x:
+ *                 type: number
+ *               position_y:
+ *                 type: number
+ *               width:
+ *                 type: number
+ *               height:
+ *                 type: number
+ *               is_active:
+ *                 type: boolean
  */
 
 // Apply authentication middleware to all routes
@@ -93,6 +400,23 @@ router.get('/stats', AreaController.getAreaStats);
 // Get a single area by ID
 router.get('/:id', AreaController.getAreaById);
 
+// Get the table timeline of an area for a day
+router.get('/:id/timeline', requireRestaurant, validateQuery(areaTimelineQuerySchema), AreaController.getTimeline);
+
+// Check or save a drag-and-drop move on the area timeline
+router.post('/:id/timeline/moves', requireRestaurant, validate(timelineMoveSchema), AreaController.moveOnTimeline);
+
+// Floor plan versions of an area
+router.get('/:id/floor-plans', requireRestaurant, FloorPlanController.getFloorPlans);
+router.get('/:id/floor-plans/layout', requireRestaurant, validateQuery(floorPlanLayoutQuerySchema), FloorPlanController.getLayout);
+router.get('/:id/floor-plans/:planId', requireRestaurant, FloorPlanController.getFloorPlan);
+router.post('/:id/floor-plans', requireRestaurant, validate(floorPlanSchema), FloorPlanController.createFloorPlan);
+router.put('/:id/floor-plans/:planId', requireRestaurant, validate(floorPlanUpdateSchema), FloorPlanController.updateFloorPlan);
+router.post('/:id/floor-plans/:planId/clone', requireRestaurant, validate(floorPlanCloneSchema), FloorPlanController.cloneFloorPlan);
+router.post('/:id/floor-plans/:planId/activate', requireRestaurant, validate(floorPlanActivateSchema), FloorPlanController.activateFloorPlan);
+router.post('/:id/floor-plans/:planId/deactivate', requireRestaurant, FloorPlanController.deactivateFloorPlan);
+router.delete('/:id/floor-plans/:planId', requireRestaurant, FloorPlanController.deleteFloorPlan);
+
 // Create a new area
 router.post('/', validate(areaSchema), AreaController.createArea);
 
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { authenticate, requireRestaurant, AuthenticatedRequest } from '../middleware/auth';
 import { supabase } from '../config/database';
+import restaurantTimeService, { localDate, startOfLocalDay } from '../services/restaurantTimeService';
 
 const router = Router();
 
@@ -44,6 +45,12 @@ const router = Router();
  *           type: string
  *         ai_enable:
  *           type: boolean
+ *         no_show_count:
+ *           type: number
+ *           description: Reservations automatically marked as no-show for this contact
+ *         last_no_show_at:
+ *           type: string
+ *           format: date-time
  *         created_at:
  *           type: string
  *           format: date-time
@@ -715,20 +722,22 @@ router.patch('/messages/:id/read', authenticate, requireRestaurant, async (req:
 router.get('/analytics', authenticate, requireRestaurant, async (req: AuthenticatedRequest, res) => {
   try {
     const restaurantId = req.user?.restaurant_id;
-    const date = req.query.date as string || new Date().toISOString().split('T')[0];
+    const timezone = await restaurantTimeService.getTimezone(restaurantId!);
+    const date = req.query.date as string || localDate(timezone);
+    const since = startOfLocalDay(date, timezone);
 
     // Get analytics data
     const { data: contacts, error: contactsError } = await supabase
       .from('chat_contacts')
       .select('*')
       .eq('restaurant_id', restaurantId)
-      .gte('created_at', date);
+      .gte('created_at', since);
 
     const { data: messages, error: messagesError } = await supabase
       .from('chat_messages')
       .select('*')
       .eq('restaurant_id', restaurantId)
-      .gte('created_at', date);
+      .gte('created_at', since);
 
     if (contactsError || messagesError) {
       return res.status(500).json({
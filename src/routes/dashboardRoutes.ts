@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { authenticate, requireRestaurant, AuthenticatedRequest } from '../middleware/auth';
 import { supabase } from '../config/database';
+import restaurantTimeService, { localDate, startOfLocalDay, toLocalDate } from '../services/restaurantTimeService';
+import occupancyService from '../services/occupancyService';
 
 const router = Router();
 
@@ -68,8 +70,11 @@ const router = Router();
 router.get('/stats', authenticate, requireRestaurant, async (req: AuthenticatedRequest, res) => {
   try {
     const restaurantId = req.user?.restaurant_id;
-    const today = new Date().toISOString().split('T')[0];
-    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    // Hoje e ontem no fuso do restaurante
+    const timezone = await restaurantTimeService.getTimezone(restaurantId!);
+    const today = localDate(timezone);
+    const todayStart = startOfLocalDay(today, timezone);
+    const yesterdayStart = startOfLocalDay(localDate(timezone, -1), timezone);
 
     const [
       todayReservations,
@@ -95,7 +100,7 @@ router.get('/stats', authenticate, requireRestaurant, async (req: AuthenticatedR
         .select('id', { count: 'exact' })
         .eq('restaurant_id', restaurantId)
         .gte('reservation_date', today)
-        .lte('reservation_date', new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]),
+        .lte('reservation_date', localDate(timezone, 7)),
 
       // Total de reservas
       supabase
@@ -115,15 +120,15 @@ router.get('/stats', authenticate, requireRestaurant, async (req: AuthenticatedR
         .from('chat_contacts')
         .select('id', { count: 'exact' })
         .eq('restaurant_id', restaurantId)
-        .gte('created_at', today),
+        .gte('created_at', todayStart),
 
       // Clientes de ontem
       supabase
         .from('chat_contacts')
         .select('id', { count: 'exact' })
         .eq('restaurant_id', restaurantId)
-        .gte('created_at', yesterday)
-        .lt('created_at', today),
+        .gte('created_at', yesterdayStart)
+        .lt('created_at', todayStart),
 
       // Total de clientes
       supabase
@@ -305,31 +310,38 @@ return res.status(500).json({
  *         description: Time period for chart data
  *     responses:
  *       200:
- *         description: Chart data
+ *         description: |
+ *           Chart data. Reservations and customers are counts per day; occupancy is the daily
+ *           seat-hour occupancy (see /api/tables/weekly-occupancy) with its percentage.
  */
 router.get('/charts', authenticate, requireRestaurant, async (req: AuthenticatedRequest, res) => {
   try {
     const restaurantId = req.user?.restaurant_id;
     const period = req.query.period as string || 'week';
 
+    const timezone = await restaurantTimeService.getTimezone(restaurantId!);
     let startDate: string;
-    const endDate = new Date().toISOString().split('T')[0];
+    const endDate = localDate(timezone);
 
     switch (period) {
       case 'week':
-        startDate = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+        startDate = localDate(timezone, -7);
         break;
       case 'month':
-        startDate = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+        startDate = localDate(timezone, -30);
         break;
       case 'year':
-        startDate = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+        startDate = localDate(timezone, -365);
         break;
       default:
-        startDate = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+        startDate = localDate(timezone, -7);
     }
 
-    const [reservationsByDate, customersByDate, tableOccupancy] = await Promise.all([
+    // Colunas de data e hora são filtradas pelos limites do dia local
+    const rangeStart = startOfLocalDay(startDate, timezone);
+    const rangeEnd = startOfLocalDay(localDate(timezone, 1), timezone);
+
+    const [reservationsByDate, customersByDate, occupancy] = await Promise.all([
       // Reservas por data
       supabase
         .from('reservations')
@@ -343,22 +355,17 @@ router.get('/charts', authenticate, requireRestaurant, async (req: Authenticated
         .from('chat_contacts')
         .select('created_at')
         .eq('restaurant_id', restaurantId)
-        .gte('created_at', startDate)
-        .lte('created_at', endDate),
+        .gte('created_at', rangeStart)
+        .lt('created_at', rangeEnd),
 
-      // Ocupação das mesas por data
-      supabase
-        .from('table_status_history')
-        .select('changed_at, new_status')
-        .eq('restaurant_id', restaurantId)
-        .gte('changed_at', startDate)
-        .lte('changed_at', endDate)
+      // Ocupação por dia: assentos-hora usados sobre os disponíveis
+      occupancyService.getOccupancy(restaurantId!, startDate, endDate)
     ]);
 
     // Processar dados para gráficos
     const processDataByDate = (data: any[], dateField: string) => {
       const grouped = data.reduce((acc, item) => {
-        const date = item[dateField].split('T')[0];
+        const date = dateField === 'reservation_date' ? item[dateField] : toLocalDate(item[dateField], timezone);
         acc[date] = (acc[date] || 0) + 1;
         return acc;
       }, {} as Record<string, number>);
@@ -372,7 +379,12 @@ router.get('/charts', authenticate, requireRestaurant, async (req: Authenticated
     const charts = {
       reservations: processDataByDate(reservationsByDate.data || [], 'reservation_date'),
       customers: processDataByDate(customersByDate.data || [], 'created_at'),
-      occupancy: processDataByDate(tableOccupancy.data || [], 'changed_at')
+      occupancy: occupancy.days.map(day => ({
+        date: day.date,
+        percentage: day.percentage,
+        seat_hours_used: day.seat_hours_used,
+        seat_hours_available: day.seat_hours_available
+      }))
     };
 
 return res.json({
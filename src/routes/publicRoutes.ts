@@ -1,9 +1,25 @@
 import { Router } from 'express';
 import restaurantService from '../services/restaurantService';
+import reservationTransferService from '../services/reservationTransferService';
+import reservationGuestService from '../services/reservationGuestService';
+import { AppError } from '../middleware/errorHandler';
+import { validate, guestRescheduleSchema, guestCancelSchema } from '../middleware/validation';
 import { Request, Response } from 'express';
 
 const router = Router();
 
+// Erros das páginas públicas mantêm o status e o código do serviço
+function sendPublicError(res: Response, error: unknown) {
+  return res.status((error as AppError).statusCode || 500).json({
+    error: error instanceof Error ? error.message : 'Internal server error',
+    code: (error as AppError).code
+  });
+}
+
+function getBaseUrl(req: Request): string {
+  return process.env.API_BASE_URL || `${req.protocol}://${req.get('host')}`;
+}
+
 /**
  * @swagger
  * /api/public/restaurant/{id}:
@@ -73,4 +89,262 @@ router.get('/restaurant/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/public/reservations/calendar.ics:
+ *   get:
+ *     summary: Calendar feed of an area's upcoming reservations
+ *     description: Subscription URL returned by /api/reservations/export/calendar-feed
+ *     tags: [Public]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Signed feed token
+ *     responses:
+ *       200:
+ *         description: iCalendar document
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Invalid or rotated feed token
+ *       404:
+ *         description: Area not found
+ */
+router.get('/reservations/calendar.ics', async (req: Request, res: Response) => {
+  try {
+    const token = req.query.token;
+
+    if (typeof token !== 'string' || !token) {
+      return res.status(400).json({ error: 'Feed token is required' });
+    }
+
+    const calendar = await reservationTransferService.getCalendarFeed(token);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    return res.send(calendar);
+  } catch (error) {
+    return sendPublicError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     GuestReservation:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         customer_name:
+ *           type: string
+ *         number_of_people:
+ *           type: integer
+ *         reservation_date:
+ *           type: string
+ *           format: date
+ *         start_time:
+ *           type: string
+ *         end_time:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [pending, confirmed, seated, completed, canceled, no_show]
+ *         area_name:
+ *           type: string
+ *         deposit_status:
+ *           type: string
+ *           enum: [required, processing, paid, refunded, forfeited, refund_failed, waived]
+ *         deposit_amount:
+ *           type: number
+ *         restaurant:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             name:
+ *               type: string
+ *             address:
+ *               type: string
+ *             phone:
+ *               type: string
+ *             logo_url:
+ *               type: string
+ *         allowed_actions:
+ *           type: array
+ *           description: Actions still available to the guest; empty once the reservation has started
+ *           items:
+ *             type: string
+ *             enum: [confirm, reschedule, cancel]
+ */
+
+/**
+ * @swagger
+ * /api/public/reservations/manage/{token}:
+ *   get:
+ *     summary: View a reservation through its guest link
+ *     tags: [Public]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Signed guest token from /api/reservations/{id}/guest-link
+ *     responses:
+ *       200:
+ *         description: Reservation details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/GuestReservation'
+ *       401:
+ *         description: Invalid, expired or outdated link (GUEST_LINK_INVALID, GUEST_LINK_EXPIRED, GUEST_LINK_STALE)
+ *       404:
+ *         description: Reservation not found
+ */
+router.get('/reservations/manage/:token', async (req: Request, res: Response) => {
+  try {
+    const result = await reservationGuestService.getReservation(req.params.token);
+    return res.json(result);
+  } catch (error) {
+    return sendPublicError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/public/reservations/manage/{token}/confirm:
+ *   post:
+ *     summary: Confirm a pending reservation through its guest link
+ *     tags: [Public]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         schema:
+ *           type: string
+ *         required: true
+ *     responses:
+ *       200:
+ *         description: Reservation confirmed
+ *       401:
+ *         description: Invalid, expired or outdated link
+ *       409:
+ *         description: The reservation can no longer be confirmed (GUEST_ACTION_NOT_ALLOWED)
+ */
+router.post('/reservations/manage/:token/confirm', async (req: Request, res: Response) => {
+  try {
+    const result = await reservationGuestService.confirmReservation(req.params.token);
+    return res.json(result);
+  } catch (error) {
+    return sendPublicError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/public/reservations/manage/{token}/reschedule:
+ *   post:
+ *     summary: Move a reservation to another date or time through its guest link
+ *     description: |
+ *       Availability is checked again like a staff booking: opening hours, table conflicts
+ *       and pacing. The current table is kept when it is still free; otherwise another table
+ *       in the same area is picked. The response carries a new guest link, since the old one
+ *       expires at the previous time.
+ *     tags: [Public]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         schema:
+ *           type: string
+ *         required: true
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reservation_date, start_time]
+ *             properties:
+ *               reservation_date:
+ *                 type: string
+ *                 format: date
+ *               start_time:
+ *                 type: string
+ *                 example: "20:00"
+ *               number_of_people:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Reservation rescheduled
+ *       400:
+ *         description: Validation error, time in the past or outside opening hours
+ *       401:
+ *         description: Invalid, expired or outdated link
+ *       409:
+ *         description: No table available, pacing limit reached or rescheduling not allowed
+ */
+router.post('/reservations/manage/:token/reschedule', validate(guestRescheduleSchema), async (req: Request, res: Response) => {
+  try {
+    const { reservation_date, start_time, number_of_people } = req.body;
+    const result = await reservationGuestService.rescheduleReservation(
+      req.params.token,
+      { reservation_date, start_time, number_of_people },
+      getBaseUrl(req)
+    );
+    return res.json(result);
+  } catch (error) {
+    return sendPublicError(res, error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/public/reservations/manage/{token}/cancel:
+ *   post:
+ *     summary: Cancel a reservation through its guest link
+ *     description: A paid deposit is refunded or kept under the reservation's cancellation terms.
+ *     tags: [Public]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         schema:
+ *           type: string
+ *         required: true
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Reservation canceled
+ *       401:
+ *         description: Invalid, expired or outdated link
+ *       409:
+ *         description: The reservation can no longer be canceled (GUEST_ACTION_NOT_ALLOWED)
+ */
+router.post('/reservations/manage/:token/cancel', validate(guestCancelSchema), async (req: Request, res: Response) => {
+  try {
+    const result = await reservationGuestService.cancelReservation(req.params.token, req.body.reason);
+    return res.json(result);
+  } catch (error) {
+    return sendPublicError(res, error);
+  }
+});
+
 export default router; 
\ No newline at end of file
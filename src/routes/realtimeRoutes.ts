@@ -0,0 +1,126 @@
+import { Router, Response, NextFunction } from 'express';
+import { authenticate, requireRestaurant, AuthenticatedRequest } from '../middleware/auth';
+import realtimeService from '../services/realtimeService';
+
+const router = Router();
+
+// Maior atraso aceito pelo setTimeout (~24 dias)
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * The browser EventSource cannot send headers, so the same JWT may come as
+ * ?access_token=. The Authorization header wins when both are present.
+ */
+function acceptQueryToken(req: AuthenticatedRequest, _res: Response, next: NextFunction): void {
+  const token = req.query.access_token;
+  if (!req.headers.authorization && typeof token === 'string' && token) {
+    req.headers.authorization = `Bearer ${token}`;
+  }
+  next();
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RealtimeEvent:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           description: Event id, also sent as the SSE id for Last-Event-ID
+ *           example: lx3k9a-42
+ *         type:
+ *           type: string
+ *           enum:
+ *             - table.created
+ *             - table.updated
+ *             - table.deleted
+ *             - table.status_changed
+ *             - table.moved
+ *             - reservation.created
+ *             - reservation.updated
+ *             - reservation.status_changed
+ *             - reservation.deleted
+ *             - waiting_list.created
+ *             - waiting_list.updated
+ *             - waiting_list.deleted
+ *         restaurant_id:
+ *           type: string
+ *           format: uuid
+ *         data:
+ *           type: object
+ *           description: |
+ *             The table, reservation or waiting list entry after the change. Status changes
+ *             also carry previous_status; deletions carry only the id.
+ *         occurred_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/realtime/events:
+ *   get:
+ *     summary: Real-time floor events (Server-Sent Events)
+ *     description: |
+ *       Opens a text/event-stream with the restaurant's table, reservation and waiting list
+ *       events. Each SSE frame is named after the event type and carries a RealtimeEvent.
+ *
+ *       Authenticate with the usual Bearer token, or pass it as access_token when using the
+ *       browser EventSource. The stream closes when the token expires; reconnect with a fresh one.
+ *
+ *       On reconnection send the last received id as the Last-Event-ID header (EventSource
+ *       does this automatically) or as last_event_id: missed events are replayed before new
+ *       ones. When they are no longer available a "resync" event is sent and the client
+ *       should reload tables, reservations and the waiting list. A "connected" event marks
+ *       the start of live events, and comment lines are sent every 25 seconds as keep-alive.
+ *     tags: [Realtime]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: access_token
+ *         schema:
+ *           type: string
+ *         description: JWT, for clients that cannot send the Authorization header
+ *       - in: header
+ *         name: Last-Event-ID
+ *         schema:
+ *           type: string
+ *         description: Id of the last event received before the connection dropped
+ *       - in: query
+ *         name: last_event_id
+ *         schema:
+ *           type: string
+ *         description: Same as the Last-Event-ID header
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               $ref: '#/components/schemas/RealtimeEvent'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Restaurant access required
+ */
+router.get('/events', acceptQueryToken, authenticate, requireRestaurant, (req: AuthenticatedRequest, res: Response) => {
+  const restaurantId = req.user!.restaurant_id!;
+  const lastEventId = req.header('Last-Event-ID') ||
+    (typeof req.query.last_event_id === 'string' ? req.query.last_event_id : undefined);
+
+  const unsubscribe = realtimeService.subscribe(restaurantId, res, lastEventId);
+
+  // O stream termina junto com o token; o cliente reconecta com um token novo
+  const expiresInMs = req.user?.exp ? req.user.exp * 1000 - Date.now() : 0;
+  const expiry = expiresInMs > 0 ? setTimeout(() => res.end(), Math.min(expiresInMs, MAX_TIMER_MS)) : null;
+
+  res.on('close', () => {
+    if (expiry) clearTimeout(expiry);
+    unsubscribe();
+  });
+});
+
+export default router;
@@ -1,10 +1,37 @@
 import { Router } from 'express';
 import reservationController from '../controllers/reservationController';
+import reservationSeriesController from '../controllers/reservationSeriesController';
 import { authenticate, requireRestaurant } from '../middleware/auth';
-import { validate, reservationSchema } from '../middleware/validation';
+import multer from 'multer';
+import {
+  validate,
+  validateQuery,
+  reservationSchema,
+  reservationStatusSchema,
+  reservationDepositPaymentSchema,
+  reservationImportSchema,
+  reservationExportQuerySchema,
+  calendarFeedQuerySchema,
+  reservationSeriesSchema,
+  reservationSeriesOccurrenceUpdateSchema,
+  reservationSeriesCancelSchema,
+  availabilityQuerySchema,
+  celebrationCategoryQuerySchema,
+  reservationSearchQuerySchema,
+  runSheetQuerySchema,
+  overbookingReportQuerySchema
+} from '../middleware/validation';
 
 const router = Router();
 
+// Planilhas de importação ficam em memória; o limite cobre MAX_IMPORT_ROWS linhas
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024 // 5MB
+  }
+});
+
 /**
  * @swagger
  * components:
@@ -43,19 +70,52 @@ const router = Router();
  *         table_id:
  *           type: string
  *           format: uuid
- *           description: Assigned table ID
+ *           description: Assigned table ID (first member table for combinations)
+ *         table_combination_id:
+ *           type: string
+ *           format: uuid
+ *           description: Table combination occupied by the reservation, for large parties
+ *         series_id:
+ *           type: string
+ *           format: uuid
+ *           description: Recurring series this reservation belongs to
  *         area_id:
  *           type: string
  *           format: uuid
  *           description: Assigned area ID
  *         status:
  *           type: string
- *           enum: [pending, confirmed, canceled, completed, seated]
+ *           enum: [pending, confirmed, seated, completed, canceled, no_show]
  *           default: pending
  *           description: Reservation status
  *         notes:
  *           type: string
  *           description: Additional notes
+ *         categoria_comemoracao_id:
+ *           type: string
+ *           format: uuid
+ *           description: Celebration category; must be active, offered on the date and reached by the party size
+ *         assignment_reason:
+ *           type: string
+ *           description: Why the table was chosen when it was assigned automatically
+ *         deposit_status:
+ *           type: string
+ *           enum: [required, processing, paid, refunded, forfeited, refund_failed, waived]
+ *           nullable: true
+ *           description: Deposit state, null when no deposit policy applies
+ *         deposit_amount:
+ *           type: number
+ *           nullable: true
+ *         deposit_terms:
+ *           $ref: '#/components/schemas/ReservationDepositTerms'
+ *         deposit_error:
+ *           type: string
+ *           description: Only on the response of a cancellation or no-show whose deposit refund failed
+ *         experiences:
+ *           type: array
+ *           description: Bonifications, events and exclusive events attached to the reservation
+ *           items:
+ *             $ref: '#/components/schemas/ReservationExperience'
  *         restaurant_id:
  *           type: string
  *           format: uuid
@@ -115,7 +175,7 @@ const router = Router();
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, confirmed, canceled, completed, seated]
+ *           enum: [pending, confirmed, seated, completed, canceled, no_show]
  *         description: Filter by status
  *       - in: query
  *         name: area_id
@@ -228,23 +288,33 @@ router.get('/upcoming', authenticate, requireRestaurant, reservationController.g
 
 /**
  * @swagger
- * /api/reservations/{id}:
+ * /api/reservations/run-sheet:
  *   get:
- *     summary: Get reservation by ID
+ *     summary: Service run sheet of a day
+ *     description: |
+ *       Reservations of the day (except canceled ones) grouped by service period, taken from
+ *       the opening hours, and by area. Each reservation lists its tables, party size,
+ *       celebration, experiences, notes and the guest's history (visits, no-shows, VIP).
+ *       With format=pdf the sheet is returned as a printable A4 PDF.
  *     tags: [Reservations]
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: path
- *         name: id
- *         required: true
+ *       - in: query
+ *         name: date
  *         schema:
  *           type: string
- *           format: uuid
- *         description: Reservation ID
+ *           format: date
+ *         description: Defaults to today
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, pdf]
+ *           default: json
  *     responses:
  *       200:
- *         description: Reservation details
+ *         description: Run sheet
  *         content:
  *           application/json:
  *             schema:
@@ -253,64 +323,110 @@ router.get('/upcoming', authenticate, requireRestaurant, reservationController.g
  *                 success:
  *                   type: boolean
  *                 data:
- *                   $ref: '#/components/schemas/Reservation'
- *       404:
- *         description: Reservation not found
+ *                   $ref: '#/components/schemas/RunSheet'
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
  */
-router.get('/:id', authenticate, reservationController.getReservationById);
+router.get('/run-sheet', authenticate, requireRestaurant, validateQuery(runSheetQuerySchema), reservationController.getRunSheet);
 
 /**
  * @swagger
- * /api/reservations:
- *   post:
- *     summary: Create a new reservation
+ * /api/reservations/search:
+ *   get:
+ *     summary: Search reservations with filters, sorting and cursor pagination
+ *     description: |
+ *       Returns one page of `limit` reservations. When `pagination.has_more` is true, send
+ *       `pagination.next_cursor` back as `cursor` (with the same sort and order) to get the
+ *       next page. Name and phone match substrings, case-insensitively.
  *     tags: [Reservations]
  *     security:
  *       - bearerAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - customer_name
- *               - number_of_people
- *               - reservation_date
- *               - start_time
- *             properties:
- *               customer_name:
- *                 type: string
- *                 minLength: 2
- *                 maxLength: 100
- *               phone:
- *                 type: string
- *                 maxLength: 20
- *               number_of_people:
- *                 type: integer
- *                 minimum: 1
- *               reservation_date:
- *                 type: string
- *                 format: date
- *               start_time:
- *                 type: string
- *                 pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
- *               table_id:
- *                 type: string
- *                 format: uuid
- *               area_id:
- *                 type: string
- *                 format: uuid
- *               status:
- *                 type: string
- *                 enum: [pending, confirmed, canceled, completed, seated]
- *                 default: pending
- *               notes:
- *                 type: string
- *                 maxLength: 500
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: status
+ *         description: One or more statuses, comma-separated or repeated
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [pending, confirmed, seated, completed, canceled, no_show]
+ *         style: form
+ *         explode: false
+ *       - in: query
+ *         name: area_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: table_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: min_people
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: max_people
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: phone
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: categoria_comemoracao_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: experience_id
+ *         description: Bonification, event or exclusive event attached to the reservation
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [date, created_at, customer_name, number_of_people]
+ *           default: date
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
  *     responses:
- *       201:
- *         description: Reservation created successfully
+ *       200:
+ *         description: One page of reservations
  *         content:
  *           application/json:
  *             schema:
@@ -319,74 +435,79 @@ router.get('/:id', authenticate, reservationController.getReservationById);
  *                 success:
  *                   type: boolean
  *                 data:
- *                   $ref: '#/components/schemas/Reservation'
- *                 message:
- *                   type: string
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Reservation'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     limit:
+ *                       type: integer
+ *                     next_cursor:
+ *                       type: string
+ *                       nullable: true
+ *                     has_more:
+ *                       type: boolean
  *       400:
- *         description: Validation error
- *       401:
- *         description: Unauthorized
- *       403:
- *         description: Restaurant access required
- *       409:
- *         description: Table conflict
+ *         description: Invalid filters, or a cursor from another sort order (code INVALID_CURSOR)
  */
-router.post('/', authenticate, requireRestaurant, validate(reservationSchema), reservationController.createReservation);
+router.get('/search', authenticate, requireRestaurant, validateQuery(reservationSearchQuerySchema), reservationController.searchReservations);
 
 /**
  * @swagger
- * /api/reservations/{id}:
- *   put:
- *     summary: Update reservation
+ * /api/reservations/availability:
+ *   get:
+ *     summary: Search available slots and tables
+ *     description: |
+ *       Returns every bookable start time within the requested window and the active
+ *       tables that can seat the party for the whole reservation. Takes table capacity,
+ *       pending/confirmed reservations, the turnover buffer kept after each of them,
+ *       blocked dates and the restaurant opening hours into account.
  *     tags: [Reservations]
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: path
- *         name: id
+ *       - in: query
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Reservation date (YYYY-MM-DD)
+ *       - in: query
+ *         name: number_of_people
  *         required: true
  *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Party size
+ *       - in: query
+ *         name: start_time
+ *         schema:
+ *           type: string
+ *           pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *         description: "Earliest start time (HH:MM). Defaults to opening time"
+ *       - in: query
+ *         name: end_time
+ *         schema:
+ *           type: string
+ *           pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *         description: "Latest start time (HH:MM). Defaults to start_time when given, otherwise closing time"
+ *       - in: query
+ *         name: area_id
+ *         schema:
  *           type: string
  *           format: uuid
- *         description: Reservation ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               customer_name:
- *                 type: string
- *                 minLength: 2
- *                 maxLength: 100
- *               phone:
- *                 type: string
- *                 maxLength: 20
- *               number_of_people:
- *                 type: integer
- *                 minimum: 1
- *               reservation_date:
- *                 type: string
- *                 format: date
- *               start_time:
- *                 type: string
- *                 pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
- *               table_id:
- *                 type: string
- *                 format: uuid
- *               area_id:
- *                 type: string
- *                 format: uuid
- *               status:
- *                 type: string
- *                 enum: [pending, confirmed, canceled, completed, seated]
- *               notes:
- *                 type: string
- *                 maxLength: 500
+ *         description: Restrict the search to one area
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *         description: Minutes between candidate start times
  *     responses:
  *       200:
- *         description: Reservation updated successfully
+ *         description: Available slots
  *         content:
  *           application/json:
  *             schema:
@@ -395,48 +516,96 @@ router.post('/', authenticate, requireRestaurant, validate(reservationSchema), r
  *                 success:
  *                   type: boolean
  *                 data:
- *                   $ref: '#/components/schemas/Reservation'
- *                 message:
- *                   type: string
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       start_time:
+ *                         type: string
+ *                       end_time:
+ *                         type: string
+ *                         description: End of the reservation under the duration rules (the longest one when areas differ)
+ *                       tables:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             id:
+ *                               type: string
+ *                               format: uuid
+ *                             number:
+ *                               type: integer
+ *                             name:
+ *                               type: string
+ *                             capacity:
+ *                               type: integer
+ *                             area_id:
+ *                               type: string
+ *                               format: uuid
+ *                       combinations:
+ *                         type: array
+ *                         description: Free table combinations, listed only when no single table fits
+ *                         items:
+ *                           $ref: '#/components/schemas/TableCombination'
+ *                       pacing:
+ *                         type: array
+ *                         description: |
+ *                           Usage of each pacing rule in the slot interval, present when pacing
+ *                           rules are configured. Tables in areas already at their limit are left out.
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             area_id:
+ *                               type: string
+ *                               format: uuid
+ *                             interval_minutes:
+ *                               type: integer
+ *                             slot_start:
+ *                               type: string
+ *                             reservations:
+ *                               type: integer
+ *                             covers:
+ *                               type: integer
+ *                             max_reservations:
+ *                               type: integer
+ *                             max_covers:
+ *                               type: integer
+ *                       overbooking:
+ *                         description: |
+ *                           Present on slots without a free table that the weekday's overbooking
+ *                           allowance still accepts; the reservation is booked without a table.
+ *                         $ref: '#/components/schemas/ReservationOverbookingUsage'
  *       400:
  *         description: Validation error
- *       404:
- *         description: Reservation not found
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Restaurant access required
  */
-router.put('/:id', authenticate, validate(reservationSchema), reservationController.updateReservation);
+router.get('/availability', authenticate, requireRestaurant, validateQuery(availabilityQuerySchema), reservationController.getAvailability);
 
 /**
  * @swagger
- * /api/reservations/{id}/status:
- *   patch:
- *     summary: Update reservation status
+ * /api/reservations/overbooking:
+ *   get:
+ *     summary: Overbooking report of a day
+ *     description: |
+ *       Allowance of the weekday's overbooking rule (a percentage of the seats of every
+ *       active table) and the reservations accepted beyond the seating capacity, which
+ *       are saved without a table until one is assigned.
  *     tags: [Reservations]
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: path
- *         name: id
- *         required: true
+ *       - in: query
+ *         name: date
  *         schema:
  *           type: string
- *           format: uuid
- *         description: Reservation ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - status
- *             properties:
- *               status:
- *                 type: string
- *                 enum: [pending, confirmed, canceled, completed, seated]
- *                 description: New reservation status
+ *           format: date
+ *         description: Defaults to today
  *     responses:
  *       200:
- *         description: Reservation status updated successfully
+ *         description: Overbooking report
  *         content:
  *           application/json:
  *             schema:
@@ -445,15 +614,1335 @@ router.put('/:id', authenticate, validate(reservationSchema), reservationControl
  *                 success:
  *                   type: boolean
  *                 data:
- *                   $ref: '#/components/schemas/Reservation'
- *                 message:
- *                   type: string
- *       400:
- *         description: Status is required
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/ReservationOverbookingUsage'
+ *                     - type: object
+ *                       properties:
+ *                         date:
+ *                           type: string
+ *                           format: date
+ *                         overbooked_covers:
+ *                           type: integer
+ *                           description: Covers of every overbooked reservation of the day
+ *                         peak_overbooked_covers:
+ *                           type: integer
+ *                           description: Most overbooked covers in the restaurant at the same time
+ *                         reservations:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               customer_name:
+ *                                 type: string
+ *                               number_of_people:
+ *                                 type: integer
+ *                               start_time:
+ *                                 type: string
+ *                               end_time:
+ *                                 type: string
+ *                               status:
+ *                                 type: string
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Restaurant access required
+ */
+router.get('/overbooking', authenticate, requireRestaurant, validateQuery(overbookingReportQuerySchema), reservationController.getOverbookingReport);
+
+/**
+ * @swagger
+ * /api/reservations/celebration-categories:
+ *   get:
+ *     summary: List the celebration categories a reservation can use
+ *     description: |
+ *       Active categories offered on the date (single day, period or weekdays within the
+ *       period, per tipo_recorrencia) whose qtd_min the party size reaches.
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: number_of_people
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *     responses:
+ *       200:
+ *         description: Applicable celebration categories
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CategoriaComemoracao'
+ */
+router.get('/celebration-categories', authenticate, requireRestaurant, validateQuery(celebrationCategoryQuerySchema), reservationController.getCelebrationCategories);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReservationSeries:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         customer_name:
+ *           type: string
+ *         phone:
+ *           type: string
+ *         number_of_people:
+ *           type: integer
+ *         start_time:
+ *           type: string
+ *         end_time:
+ *           type: string
+ *         table_id:
+ *           type: string
+ *           format: uuid
+ *         table_combination_id:
+ *           type: string
+ *           format: uuid
+ *         area_id:
+ *           type: string
+ *           format: uuid
+ *         notes:
+ *           type: string
+ *         reservation_status:
+ *           type: string
+ *           enum: [pending, confirmed]
+ *           description: Status given to each materialized reservation
+ *         tipo_recorrencia:
+ *           type: string
+ *           enum: [semanal, quinzenal, mensal]
+ *           description: Weekly, every other week, or monthly on the same weekday ordinal as data_inicio (e.g. 2nd Thursday)
+ *         dias_semana:
+ *           type: array
+ *           description: Weekdays (0 = Sunday). Defaults to the weekday of data_inicio
+ *           items:
+ *             type: integer
+ *         data_inicio:
+ *           type: string
+ *           format: date
+ *         data_fim:
+ *           type: string
+ *           format: date
+ *         qtd_ocorrencias:
+ *           type: integer
+ *           maximum: 104
+ *         status:
+ *           type: string
+ *           enum: [active, canceled]
+ *     ReservationSeriesFailure:
+ *       type: object
+ *       properties:
+ *         date:
+ *           type: string
+ *           format: date
+ *         error:
+ *           type: string
+ *         code:
+ *           type: string
+ *     ReservationDepositTerms:
+ *       type: object
+ *       nullable: true
+ *       description: Cancellation terms of the deposit policy at booking time
+ *       properties:
+ *         policy_name:
+ *           type: string
+ *         currency:
+ *           type: string
+ *           example: BRL
+ *         refund_window_hours:
+ *           type: integer
+ *           description: Cancelling at least this many hours before the reservation refunds the whole deposit
+ *         cancellation_fee_percentage:
+ *           type: number
+ *           description: Share of the deposit kept on late cancellations and no-shows
+ *     ReservationPayment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         reservation_id:
+ *           type: string
+ *           format: uuid
+ *         provider:
+ *           type: string
+ *         provider_charge_id:
+ *           type: string
+ *         kind:
+ *           type: string
+ *           enum: [charge, refund]
+ *         amount:
+ *           type: number
+ *         currency:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [paid, failed, refunded]
+ *         failure_reason:
+ *           type: string
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *     ReservationChangeLog:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         reservation_id:
+ *           type: string
+ *           format: uuid
+ *         action:
+ *           type: string
+ *           enum: [created, updated, status_changed]
+ *         changes:
+ *           type: object
+ *           description: Changed fields, each with its before and after value
+ *           additionalProperties:
+ *             type: object
+ *             properties:
+ *               before: {}
+ *               after: {}
+ *         changed_by:
+ *           type: string
+ *           format: uuid
+ *         changed_at:
+ *           type: string
+ *           format: date-time
+ *     ReservationExperienceLink:
+ *       type: object
+ *       properties:
+ *         bonification_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         event_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: The event must be active on the reservation date and time (recurrence, init_time/end_time)
+ *         event_exclusive_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *     ReservationExperience:
+ *       allOf:
+ *         - $ref: '#/components/schemas/ReservationExperienceLink'
+ *         - type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             bonification:
+ *               type: object
+ *               nullable: true
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                 name:
+ *                   type: string
+ *             event:
+ *               type: object
+ *               nullable: true
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                 name:
+ *                   type: string
+ *                 init_time:
+ *                   type: string
+ *                 end_time:
+ *                   type: string
+ *             event_exclusive:
+ *               type: object
+ *               nullable: true
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                 name:
+ *                   type: string
+ *     ReservationOverbookingUsage:
+ *       type: object
+ *       properties:
+ *         percentage:
+ *           type: number
+ *           description: Overbooking percentage of the weekday
+ *         seating_capacity:
+ *           type: integer
+ *           description: Seats of every active table
+ *         allowed_covers:
+ *           type: integer
+ *           description: Covers that may be booked beyond the seating capacity at the same time
+ *         overbooked_covers:
+ *           type: integer
+ *           description: Overbooked covers already booked during the slot
+ *     RunSheetEntry:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         start_time:
+ *           type: string
+ *         end_time:
+ *           type: string
+ *         customer_name:
+ *           type: string
+ *         phone:
+ *           type: string
+ *         number_of_people:
+ *           type: integer
+ *         status:
+ *           type: string
+ *         tables:
+ *           type: array
+ *           description: Table names, every member table for a combination
+ *           items:
+ *             type: string
+ *         celebration:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             id:
+ *               type: string
+ *             nome:
+ *               type: string
+ *             cor:
+ *               type: string
+ *         experiences:
+ *           type: array
+ *           items:
+ *             type: string
+ *         notes:
+ *           type: string
+ *         deposit_status:
+ *           type: string
+ *           nullable: true
+ *         guest:
+ *           type: object
+ *           description: History matched by phone number over earlier reservations
+ *           properties:
+ *             visits:
+ *               type: integer
+ *             no_shows:
+ *               type: integer
+ *             last_visit:
+ *               type: string
+ *               format: date
+ *               nullable: true
+ *             customer_type:
+ *               type: string
+ *               enum: [new, returning, vip]
+ *               nullable: true
+ *             is_vip:
+ *               type: boolean
+ *     RunSheet:
+ *       type: object
+ *       properties:
+ *         date:
+ *           type: string
+ *           format: date
+ *         restaurant:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             name:
+ *               type: string
+ *         generated_at:
+ *           type: string
+ *           format: date-time
+ *         reservations_count:
+ *           type: integer
+ *         covers:
+ *           type: integer
+ *         periods:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Jantar
+ *               start_time:
+ *                 type: string
+ *                 nullable: true
+ *               end_time:
+ *                 type: string
+ *                 nullable: true
+ *               reservations_count:
+ *                 type: integer
+ *               covers:
+ *                 type: integer
+ *               areas:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     area_id:
+ *                       type: string
+ *                       nullable: true
+ *                     area_name:
+ *                       type: string
+ *                     reservations_count:
+ *                       type: integer
+ *                     covers:
+ *                       type: integer
+ *                     reservations:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/RunSheetEntry'
+ *     CategoriaComemoracao:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         nome:
+ *           type: string
+ *         tipo_recorrencia:
+ *           type: string
+ *           enum: [unica, dias_semana, periodo]
+ *         dias_semana:
+ *           type: array
+ *           items:
+ *             type: integer
+ *             minimum: 0
+ *             maximum: 6
+ *         data_inicio:
+ *           type: string
+ *           format: date
+ *         data_fim:
+ *           type: string
+ *           format: date
+ *         descricao:
+ *           type: string
+ *         qtd_min:
+ *           type: integer
+ *         cor:
+ *           type: string
+ *         status:
+ *           type: boolean
+ *     GuestReservationLink:
+ *       type: object
+ *       properties:
+ *         token:
+ *           type: string
+ *         url:
+ *           type: string
+ *         expires_at:
+ *           type: string
+ *           format: date-time
+ *     ReservationImportReport:
+ *       type: object
+ *       properties:
+ *         dry_run:
+ *           type: boolean
+ *         total:
+ *           type: integer
+ *         succeeded:
+ *           type: integer
+ *           description: Rows that were created, or would be with dry_run
+ *         failed:
+ *           type: integer
+ *         rows:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               row:
+ *                 type: integer
+ *                 description: Line number in the file, counting the header as line 1
+ *               status:
+ *                 type: string
+ *                 enum: [valid, created, invalid]
+ *               reservation_id:
+ *                 type: string
+ *                 format: uuid
+ *               errors:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               code:
+ *                 type: string
+ */
+
+/**
+ * @swagger
+ * /api/reservations/series:
+ *   post:
+ *     summary: Create a recurring reservation series
+ *     description: |
+ *       Books one reservation per occurrence, each going through the same opening-hours
+ *       and table conflict checks as a single reservation. Dates that could not be booked
+ *       are returned in `failed`; the rest of the series is kept.
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ReservationSeries'
+ *     responses:
+ *       201:
+ *         description: Series created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     series:
+ *                       $ref: '#/components/schemas/ReservationSeries'
+ *                     reservations:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Reservation'
+ *                     failed:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ReservationSeriesFailure'
+ *                 message:
+ *                   type: string
+ *       400:
+ *         description: Validation error
+ */
+router.post('/series', authenticate, requireRestaurant, validate(reservationSeriesSchema), reservationSeriesController.createSeries);
+
+/**
+ * @swagger
+ * /api/reservations/series/{id}:
+ *   get:
+ *     summary: Get a reservation series with its occurrences
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Series details
+ *       404:
+ *         description: Reservation series not found
+ */
+router.get('/series/:id', authenticate, requireRestaurant, reservationSeriesController.getSeriesById);
+
+/**
+ * @swagger
+ * /api/reservations/series/{id}/occurrences/{reservationId}:
+ *   put:
+ *     summary: Edit one occurrence or this and the following ones
+ *     description: |
+ *       With scope `following` the change is applied to this and every later pending or
+ *       confirmed occurrence, and saved on the series. Changing the date is only allowed
+ *       with scope `this`.
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: reservationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - scope
+ *             properties:
+ *               scope:
+ *                 type: string
+ *                 enum: [this, following]
+ *               reservation_date:
+ *                 type: string
+ *                 format: date
+ *               start_time:
+ *                 type: string
+ *               end_time:
+ *                 type: string
+ *               number_of_people:
+ *                 type: integer
+ *               table_id:
+ *                 type: string
+ *                 format: uuid
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Occurrences updated, with per-date failures
+ *       404:
+ *         description: Series or occurrence not found
+ */
+router.put('/series/:id/occurrences/:reservationId', authenticate, requireRestaurant, validate(reservationSeriesOccurrenceUpdateSchema), reservationSeriesController.updateOccurrence);
+
+/**
+ * @swagger
+ * /api/reservations/series/{id}/occurrences/{reservationId}/cancel:
+ *   post:
+ *     summary: Cancel one occurrence or this and the following ones
+ *     description: Cancelling `following` ends the series the day before this occurrence (or cancels it entirely from the first one).
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: reservationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - scope
+ *             properties:
+ *               scope:
+ *                 type: string
+ *                 enum: [this, following]
+ *     responses:
+ *       200:
+ *         description: Occurrences canceled, with per-date failures
+ *       404:
+ *         description: Series or occurrence not found
+ */
+router.post('/series/:id/occurrences/:reservationId/cancel', authenticate, requireRestaurant, validate(reservationSeriesCancelSchema), reservationSeriesController.cancelOccurrence);
+
+/**
+ * @swagger
+ * /api/reservations/import:
+ *   post:
+ *     summary: Import reservations from a CSV file
+ *     description: |
+ *       Each row is validated like a manual booking and checked for table conflicts, including
+ *       conflicts with earlier rows of the same file. Columns are matched by field name unless
+ *       a mapping is given. Areas and tables can be referenced by id (area_id, table_id) or by
+ *       name (area_name, table_name). Dates accept YYYY-MM-DD or DD/MM/YYYY. With dry_run
+ *       nothing is saved, but rows still go through every check of a real import (status,
+ *       opening hours, seating and pacing).
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               mapping:
+ *                 type: string
+ *                 description: JSON object mapping reservation fields to CSV column names
+ *                 example: '{"customer_name":"Nome","reservation_date":"Data","start_time":"Hora","number_of_people":"Pessoas"}'
+ *               dry_run:
+ *                 type: boolean
+ *               auto_assign:
+ *                 type: boolean
+ *                 description: Pick a table for rows without table_id
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [csv]
+ *             properties:
+ *               csv:
+ *                 type: string
+ *               mapping:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *               dry_run:
+ *                 type: boolean
+ *               auto_assign:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Per-row import report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReservationImportReport'
+ *                 message:
+ *                   type: string
+ *       400:
+ *         description: Empty, oversized or malformed file, or invalid mapping
+ */
+router.post('/import', authenticate, requireRestaurant, importUpload.single('file'), validate(reservationImportSchema), reservationController.importReservations);
+
+/**
+ * @swagger
+ * /api/reservations/export:
+ *   get:
+ *     summary: Export reservations as CSV or iCalendar
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, ics]
+ *           default: csv
+ *         description: The ics export holds the upcoming reservations of one area and requires area_id
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, confirmed, seated, completed, canceled, no_show]
+ *       - in: query
+ *         name: area_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Exported file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Area not found
+ */
+router.get('/export', authenticate, requireRestaurant, validateQuery(reservationExportQuerySchema), reservationController.exportReservations);
+
+/**
+ * @swagger
+ * /api/reservations/export/calendar-feed:
+ *   get:
+ *     summary: Get the subscription URL of an area's calendar feed
+ *     description: |
+ *       The URL carries a signed token so calendar apps can subscribe without logging in.
+ *       It keeps working until the area's feed URL is rotated.
+ *       The feed lists the area's active reservations for the next 60 days.
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: area_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Feed URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                     url:
+ *                       type: string
+ *       404:
+ *         description: Area not found
+ */
+router.get('/export/calendar-feed', authenticate, requireRestaurant, validateQuery(calendarFeedQuerySchema), reservationController.getCalendarFeedUrl);
+
+/**
+ * @swagger
+ * /api/reservations/export/calendar-feed/rotate:
+ *   post:
+ *     summary: Rotate the calendar feed URL of an area
+ *     description: |
+ *       Issues a new feed URL for the area. URLs handed out before stop working, so calendars
+ *       subscribed to them must subscribe again.
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - area_id
+ *             properties:
+ *               area_id:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: New feed URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                     url:
+ *                       type: string
+ *       404:
+ *         description: Area not found
+ */
+router.post('/export/calendar-feed/rotate', authenticate, requireRestaurant, validate(calendarFeedQuerySchema), reservationController.rotateCalendarFeedUrl);
+
+/**
+ * @swagger
+ * /api/reservations/{id}:
+ *   get:
+ *     summary: Get reservation by ID
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Reservation ID
+ *     responses:
+ *       200:
+ *         description: Reservation details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Reservation'
+ *       404:
+ *         description: Reservation not found
+ */
+router.get('/:id', authenticate, reservationController.getReservationById);
+
+/**
+ * @swagger
+ * /api/reservations/{id}/history:
+ *   get:
+ *     summary: Get the change history of a reservation
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Reservation ID
+ *     responses:
+ *       200:
+ *         description: Changes in chronological order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ReservationChangeLog'
+ *       404:
+ *         description: Reservation not found
+ */
+router.get('/:id/history', authenticate, requireRestaurant, reservationController.getReservationHistory);
+
+/**
+ * @swagger
+ * /api/reservations/{id}/guest-link:
+ *   get:
+ *     summary: Get the link the guest uses to manage the reservation
+ *     description: |
+ *       The link carries a signed token that lets the guest view, confirm, reschedule or
+ *       cancel this reservation without logging in. It expires when the reservation starts.
+ *       When GUEST_PORTAL_URL is set the link points to the guest page of the frontend.
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Guest link
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/GuestReservationLink'
+ *       404:
+ *         description: Reservation not found
+ */
+router.get('/:id/guest-link', authenticate, requireRestaurant, reservationController.getGuestLink);
+
+/**
+ * @swagger
+ * /api/reservations/{id}/deposit:
+ *   get:
+ *     summary: Get the deposit of a reservation and its payments
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Reservation ID
+ *     responses:
+ *       200:
+ *         description: Deposit status, terms and payment attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deposit_status:
+ *                       type: string
+ *                       enum: [required, paid, refunded, forfeited, refund_failed]
+ *                       nullable: true
+ *                     deposit_amount:
+ *                       type: number
+ *                       nullable: true
+ *                     deposit_terms:
+ *                       $ref: '#/components/schemas/ReservationDepositTerms'
+ *                     payments:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ReservationPayment'
+ *       404:
+ *         description: Reservation not found
+ */
+router.get('/:id/deposit', authenticate, requireRestaurant, reservationController.getDeposit);
+
+/**
+ * @swagger
+ * /api/reservations/{id}/deposit/pay:
+ *   post:
+ *     summary: Pay the required deposit of a reservation
+ *     description: |
+ *       Charges the deposit through the configured payment provider. When the reservation is
+ *       later canceled, the deposit is refunded or kept according to its cancellation terms;
+ *       no-shows keep the cancellation fee.
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Reservation ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - payment_token
+ *             properties:
+ *               payment_token:
+ *                 type: string
+ *                 description: Tokenized payment method from the provider (the fake provider declines tok_declined)
+ *     responses:
+ *       200:
+ *         description: Deposit paid
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReservationPayment'
+ *                 message:
+ *                   type: string
+ *       402:
+ *         description: Payment declined (code PAYMENT_FAILED)
+ *       404:
+ *         description: Reservation not found
+ *       409:
+ *         description: No deposit due, a payment already in progress, or the reservation is no longer pending or confirmed (code DEPOSIT_NOT_DUE)
+ */
+router.post('/:id/deposit/pay', authenticate, requireRestaurant, validate(reservationDepositPaymentSchema), reservationController.payDeposit);
+
+/**
+ * @swagger
+ * /api/reservations:
+ *   post:
+ *     summary: Create a new reservation
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - customer_name
+ *               - number_of_people
+ *               - reservation_date
+ *               - start_time
+ *             properties:
+ *               customer_name:
+ *                 type: string
+ *                 minLength: 2
+ *                 maxLength: 100
+ *               phone:
+ *                 type: string
+ *                 maxLength: 20
+ *               number_of_people:
+ *                 type: integer
+ *                 minimum: 1
+ *               reservation_date:
+ *                 type: string
+ *                 format: date
+ *               start_time:
+ *                 type: string
+ *                 pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *               end_time:
+ *                 type: string
+ *                 pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *                 description: Defaults to the start time plus the duration from the restaurant's duration rules
+ *               table_id:
+ *                 type: string
+ *                 format: uuid
+ *               table_combination_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Book a table combination instead of a single table
+ *               area_id:
+ *                 type: string
+ *                 format: uuid
+ *               status:
+ *                 type: string
+ *                 enum: [pending, confirmed, seated, completed, canceled, no_show]
+ *                 default: pending
+ *               notes:
+ *                 type: string
+ *                 maxLength: 500
+ *               auto_assign:
+ *                 type: boolean
+ *                 default: true
+ *                 description: |
+ *                   When no table_id is given, pick the smallest free table that seats the party,
+ *                   preferring area_id. The choice is stored in assignment_reason.
+ *               override_pacing:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Book even when the slot interval is at its pacing limit (managers only)
+ *               reservation_experience_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Id of a bonification, event or exclusive event to attach
+ *               reservation_experience_data:
+ *                 $ref: '#/components/schemas/ReservationExperienceLink'
+ *     responses:
+ *       201:
+ *         description: Reservation created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Reservation'
+ *                 message:
+ *                   type: string
+ *       400:
+ *         description: |
+ *           Validation error. Reservations outside service hours return code
+ *           RESTAURANT_CLOSED (closed day or holiday) or OUTSIDE_OPENING_HOURS. A celebration
+ *           category that does not apply returns CELEBRATION_INACTIVE, CELEBRATION_NOT_ON_DATE
+ *           or CELEBRATION_MIN_PARTY_SIZE; an experience that does not apply returns
+ *           EXPERIENCE_INACTIVE, EXPERIENCE_NOT_ON_DATE or EXPERIENCE_OUTSIDE_HOURS.
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Restaurant access required, or override_pacing sent by a user who is not a manager
+ *       409:
+ *         description: |
+ *           Table conflict or no table available for auto-assignment. A full slot
+ *           interval returns code PACING_LIMIT_EXCEEDED.
+ */
+router.post('/', authenticate, requireRestaurant, validate(reservationSchema), reservationController.createReservation);
+
+/**
+ * @swagger
+ * /api/reservations/{id}:
+ *   put:
+ *     summary: Update reservation
+ *     description: |
+ *       Changes to date, time, table, combination, area or party size go through the
+ *       same checks as creating a reservation. Every change is recorded in the
+ *       reservation history.
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Reservation ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               customer_name:
+ *                 type: string
+ *                 minLength: 2
+ *                 maxLength: 100
+ *               phone:
+ *                 type: string
+ *                 maxLength: 20
+ *               number_of_people:
+ *                 type: integer
+ *                 minimum: 1
+ *               reservation_date:
+ *                 type: string
+ *                 format: date
+ *               start_time:
+ *                 type: string
+ *                 pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *               end_time:
+ *                 type: string
+ *                 pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *                 description: Recalculated from the duration rules when the schedule or seating changes and no new end time is given
+ *               table_id:
+ *                 type: string
+ *                 format: uuid
+ *               table_combination_id:
+ *                 type: string
+ *                 format: uuid
+ *               area_id:
+ *                 type: string
+ *                 format: uuid
+ *               status:
+ *                 type: string
+ *                 enum: [pending, confirmed, seated, completed, canceled, no_show]
+ *               notes:
+ *                 type: string
+ *                 maxLength: 500
+ *               auto_assign:
+ *                 type: boolean
+ *                 default: true
+ *                 description: Pick a new table when the move leaves the reservation without one
+ *               override_pacing:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Move even when the slot interval is at its pacing limit (managers only)
+ *               reservation_experience_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Id of a bonification, event or exclusive event to attach
+ *               reservation_experience_data:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/ReservationExperienceLink'
+ *                 nullable: true
+ *                 description: Replaces the attached experiences; null removes them
+ *     responses:
+ *       200:
+ *         description: Reservation updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Reservation'
+ *                 message:
+ *                   type: string
+ *       400:
+ *         description: |
+ *           Validation error. Moving a reservation outside service hours returns code
+ *           RESTAURANT_CLOSED or OUTSIDE_OPENING_HOURS. The celebration category is checked
+ *           again when it, the date or the party size changes, and attached experiences when
+ *           they, the date or the start time change.
+ *       403:
+ *         description: override_pacing sent by a user who is not a manager
+ *       404:
+ *         description: Reservation not found
+ *       409:
+ *         description: |
+ *           Table conflict, no table available, pacing limit reached (code PACING_LIMIT_EXCEEDED)
+ *           or invalid status transition
+ */
+router.put('/:id', authenticate, validate(reservationSchema), reservationController.updateReservation);
+
+/**
+ * @swagger
+ * /api/reservations/{id}/status:
+ *   patch:
+ *     summary: Update reservation status
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Reservation ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [pending, confirmed, seated, completed, canceled, no_show]
+ *                 description: |
+ *                   New reservation status. Allowed transitions: pending → confirmed | canceled | no_show,
+ *                   confirmed → seated | canceled | no_show, seated → completed. The linked table becomes
+ *                   occupied when seated, reserved when confirmed for today and available again when the
+ *                   reservation ends. Every transition is stored in reservation_status_history.
+ *               notes:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Reservation status updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Reservation'
+ *                 message:
+ *                   type: string
+ *       400:
+ *         description: Invalid status
  *       404:
  *         description: Reservation not found
+ *       409:
+ *         description: Illegal status transition (code INVALID_STATUS_TRANSITION)
  */
-router.patch('/:id/status', authenticate, reservationController.updateReservationStatus);
+router.patch('/:id/status', authenticate, validate(reservationStatusSchema), reservationController.updateReservationStatus);
 
 /**
  * @swagger
@@ -0,0 +1,285 @@
+import { Router } from 'express';
+import reservationWaitlistController from '../controllers/reservationWaitlistController';
+import { authenticate, requireRestaurant } from '../middleware/auth';
+import {
+  validate,
+  validateQuery,
+  reservationWaitlistSchema,
+  reservationWaitlistQuerySchema
+} from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReservationWaitlistEntry:
+ *       type: object
+ *       description: |
+ *         Guest waiting for a fully booked reservation slot. Not to be confused with the
+ *         walk-in waiting list (/api/waiting-lists).
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         restaurant_id:
+ *           type: string
+ *           format: uuid
+ *         customer_name:
+ *           type: string
+ *         phone:
+ *           type: string
+ *         number_of_people:
+ *           type: integer
+ *         reservation_date:
+ *           type: string
+ *           format: date
+ *         start_time:
+ *           type: string
+ *           description: Preferred start time (HH:MM)
+ *         flexibility_minutes:
+ *           type: integer
+ *           description: How far from start_time an offered slot may start
+ *         area_id:
+ *           type: string
+ *           format: uuid
+ *         notes:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [waiting, offered, accepted, declined, expired, canceled]
+ *         reservation_id:
+ *           type: string
+ *           format: uuid
+ *           description: Pending reservation holding the offered table
+ *         offered_at:
+ *           type: string
+ *           format: date-time
+ *         hold_expires_at:
+ *           type: string
+ *           format: date-time
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/reservation-waitlist:
+ *   get:
+ *     summary: List reservation waitlist entries
+ *     tags: [Reservation Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [waiting, offered, accepted, declined, expired, canceled]
+ *     responses:
+ *       200:
+ *         description: Entries ordered by date and arrival in the list
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ReservationWaitlistEntry'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Restaurant access required
+ */
+router.get('/', authenticate, requireRestaurant, validateQuery(reservationWaitlistQuerySchema), reservationWaitlistController.getEntries);
+
+/**
+ * @swagger
+ * /api/reservation-waitlist/{id}:
+ *   get:
+ *     summary: Get a reservation waitlist entry
+ *     tags: [Reservation Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Waitlist entry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReservationWaitlistEntry'
+ *       404:
+ *         description: Waitlist entry not found
+ */
+router.get('/:id', authenticate, requireRestaurant, reservationWaitlistController.getEntryById);
+
+/**
+ * @swagger
+ * /api/reservation-waitlist:
+ *   post:
+ *     summary: Add a guest to the reservation waitlist
+ *     description: |
+ *       When a reservation on the same date is canceled, the freed table is offered to the first
+ *       waiting guest whose party fits and whose preferred time is within flexibility_minutes of
+ *       the freed slot. The offer holds the table as a pending reservation for the restaurant's
+ *       waitlist_hold_minutes (15 by default); unanswered offers pass to the next guest.
+ *     tags: [Reservation Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - customer_name
+ *               - number_of_people
+ *               - reservation_date
+ *               - start_time
+ *             properties:
+ *               customer_name:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *               number_of_people:
+ *                 type: integer
+ *                 minimum: 1
+ *               reservation_date:
+ *                 type: string
+ *                 format: date
+ *               start_time:
+ *                 type: string
+ *                 pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *               flexibility_minutes:
+ *                 type: integer
+ *                 default: 30
+ *               area_id:
+ *                 type: string
+ *                 format: uuid
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Guest added to the waitlist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReservationWaitlistEntry'
+ *                 message:
+ *                   type: string
+ *       400:
+ *         description: Validation error
+ */
+router.post('/', authenticate, requireRestaurant, validate(reservationWaitlistSchema), reservationWaitlistController.addEntry);
+
+/**
+ * @swagger
+ * /api/reservation-waitlist/{id}/accept:
+ *   post:
+ *     summary: Accept the offered slot
+ *     description: Confirms the pending reservation holding the table.
+ *     tags: [Reservation Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Offer accepted
+ *       404:
+ *         description: Waitlist entry not found
+ *       409:
+ *         description: No open offer (code WAITLIST_OFFER_UNAVAILABLE) or the hold expired (code WAITLIST_OFFER_EXPIRED)
+ */
+router.post('/:id/accept', authenticate, requireRestaurant, reservationWaitlistController.acceptOffer);
+
+/**
+ * @swagger
+ * /api/reservation-waitlist/{id}/decline:
+ *   post:
+ *     summary: Decline the offered slot
+ *     description: Cancels the held reservation; the slot is offered to the next eligible guest.
+ *     tags: [Reservation Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Offer declined
+ *       404:
+ *         description: Waitlist entry not found
+ *       409:
+ *         description: No open offer (code WAITLIST_OFFER_UNAVAILABLE)
+ */
+router.post('/:id/decline', authenticate, requireRestaurant, reservationWaitlistController.declineOffer);
+
+/**
+ * @swagger
+ * /api/reservation-waitlist/{id}/cancel:
+ *   post:
+ *     summary: Remove a guest from the reservation waitlist
+ *     description: Also releases the held table when the entry had an open offer.
+ *     tags: [Reservation Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Entry canceled
+ *       404:
+ *         description: Waitlist entry not found
+ *       409:
+ *         description: The entry is no longer waiting or offered
+ */
+router.post('/:id/cancel', authenticate, requireRestaurant, reservationWaitlistController.cancelEntry);
+
+export default router;
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import restaurantController from '../controllers/restaurantController';
 import { authenticate, requireRestaurant } from '../middleware/auth';
-import { validate, restaurantSchema, restaurantSchemas } from '../middleware/validation';
+import { validate, restaurantSchema, restaurantSchemas, restaurantSettingsSchema } from '../middleware/validation';
 import multer from 'multer';
 
 const router = Router();
@@ -69,7 +69,48 @@ const upload = multer({
  *           description: Restaurant website URL
  *         opening_hours:
  *           type: object
- *           description: Restaurant opening hours
+ *           description: |
+ *             Opening hours keyed by weekday (monday..sunday). Each day has either
+ *             open/close, a list of shifts, or closed: true. A close at or before the
+ *             open time runs past midnight.
+ *           additionalProperties:
+ *             type: object
+ *             properties:
+ *               open:
+ *                 type: string
+ *                 example: '12:00'
+ *               close:
+ *                 type: string
+ *                 example: '15:00'
+ *               closed:
+ *                 type: boolean
+ *               shifts:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/OpeningShift'
+ *         opening_hours_overrides:
+ *           type: array
+ *           description: Holiday or special-date hours replacing the weekday entry
+ *           items:
+ *             type: object
+ *             required:
+ *               - date
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               closed:
+ *                 type: boolean
+ *               shifts:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/OpeningShift'
+ *               reason:
+ *                 type: string
+ *         timezone:
+ *           type: string
+ *           example: America/Sao_Paulo
+ *           description: IANA timezone in which "today", "now" and reservation times are read
  *         max_capacity:
  *           type: integer
  *           description: Maximum restaurant capacity
@@ -91,6 +132,186 @@ const upload = multer({
  *           format: date-time
  */
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     OpeningShift:
+ *       type: object
+ *       required:
+ *         - open
+ *         - close
+ *       properties:
+ *         open:
+ *           type: string
+ *           example: '19:00'
+ *         close:
+ *           type: string
+ *           example: '01:00'
+ *     ReservationDurationRule:
+ *       type: object
+ *       required:
+ *         - duration_minutes
+ *       description: How long a table is held. The most specific matching rule wins; ties go to the first one listed.
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: Jantar 6+
+ *         duration_minutes:
+ *           type: integer
+ *           example: 150
+ *         min_party_size:
+ *           type: integer
+ *         max_party_size:
+ *           type: integer
+ *         weekdays:
+ *           type: array
+ *           description: Days of week the rule applies to (0 = Sunday)
+ *           items:
+ *             type: integer
+ *         area_id:
+ *           type: string
+ *           format: uuid
+ *         start_time:
+ *           type: string
+ *           description: Start of the time-of-day window (HH:MM) the reservation must start in
+ *         end_time:
+ *           type: string
+ *           description: End of the time-of-day window (HH:MM)
+ *     ReservationPacingRule:
+ *       type: object
+ *       required:
+ *         - interval_minutes
+ *       description: |
+ *         Limits how many reservations and covers may start within each slot interval.
+ *         Without area_id the rule applies to the whole restaurant.
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: Cozinha
+ *         area_id:
+ *           type: string
+ *           format: uuid
+ *         interval_minutes:
+ *           type: integer
+ *           example: 15
+ *         max_reservations:
+ *           type: integer
+ *         max_covers:
+ *           type: integer
+ *           example: 40
+ *     ReservationTurnoverBuffer:
+ *       type: object
+ *       required:
+ *         - minutes
+ *       description: |
+ *         Minutes a table stays blocked after a reservation ends, for cleaning and reset.
+ *         The entry of the table's area wins over the one without area_id.
+ *       properties:
+ *         area_id:
+ *           type: string
+ *           format: uuid
+ *         minutes:
+ *           type: integer
+ *           example: 15
+ *     ReservationOverbookingRule:
+ *       type: object
+ *       required:
+ *         - weekdays
+ *         - percentage
+ *       description: |
+ *         Extra covers accepted beyond the seats of every active table on the listed
+ *         weekdays (0 = Sunday). When no table is free, reservations within the allowance
+ *         are booked without a table. The first matching rule wins.
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: Sextas e sábados
+ *         weekdays:
+ *           type: array
+ *           items:
+ *             type: integer
+ *           example: [5, 6]
+ *         percentage:
+ *           type: number
+ *           example: 10
+ *     ReservationDepositPolicy:
+ *       type: object
+ *       required:
+ *         - refund_window_hours
+ *       description: |
+ *         Deposit required from reservations matching every condition set on the policy.
+ *         The most specific matching policy wins; ties go to the first one listed.
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: Grupos 8+
+ *         min_party_size:
+ *           type: integer
+ *         date_from:
+ *           type: string
+ *           format: date
+ *         date_to:
+ *           type: string
+ *           format: date
+ *         event_id:
+ *           type: string
+ *           format: uuid
+ *           description: Applies on the dates of this experience event
+ *         amount_per_person:
+ *           type: number
+ *         fixed_amount:
+ *           type: number
+ *         refund_window_hours:
+ *           type: integer
+ *           description: Cancelling at least this many hours before the reservation refunds the whole deposit
+ *         cancellation_fee_percentage:
+ *           type: number
+ *           default: 100
+ *           description: Share of the deposit kept on late cancellations and no-shows
+ *     ReservationSettings:
+ *       type: object
+ *       properties:
+ *         restaurant_id:
+ *           type: string
+ *           format: uuid
+ *         settings:
+ *           type: object
+ *           properties:
+ *             default_duration_minutes:
+ *               type: integer
+ *               description: Used when no rule matches (defaults to 120)
+ *             duration_rules:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ReservationDurationRule'
+ *             pacing_rules:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ReservationPacingRule'
+ *             turnover_buffers:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ReservationTurnoverBuffer'
+ *             overbooking_rules:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ReservationOverbookingRule'
+ *             deposit_policies:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ReservationDepositPolicy'
+ *             deposit_currency:
+ *               type: string
+ *               default: BRL
+ *             no_show_grace_minutes:
+ *               type: integer
+ *               description: Minutes after start_time before a confirmed reservation is marked as no-show (defaults to 15)
+ *             waitlist_hold_minutes:
+ *               type: integer
+ *               description: How long a freed slot is held for a reservation waitlist guest (defaults to 15)
+ */
+
 /**
  * @swagger
  * /api/restaurants:
@@ -274,6 +495,13 @@ router.get('/:id', restaurantController.getRestaurantById);
  *                 format: uri
  *               opening_hours:
  *                 type: object
+ *               opening_hours_overrides:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               timezone:
+ *                 type: string
+ *                 example: America/Sao_Paulo
  *               max_capacity:
  *                 type: integer
  *                 minimum: 1
@@ -351,6 +579,13 @@ router.post('/', authenticate, validate(restaurantSchema), restaurantController.
  *                 format: uri
  *               opening_hours:
  *                 type: object
+ *               opening_hours_overrides:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               timezone:
+ *                 type: string
+ *                 example: America/Sao_Paulo
  *               max_capacity:
  *                 type: integer
  *                 minimum: 1
@@ -518,6 +753,8 @@ router.get('/settings/test', authenticate, requireRestaurant, async (req: any, r
  *                       $ref: '#/components/schemas/AISettings'
  *                     notification_settings:
  *                       $ref: '#/components/schemas/NotificationSettings'
+ *                     reservation_settings:
+ *                       $ref: '#/components/schemas/ReservationSettings'
 
  *                     users:
  *                       type: array
@@ -561,16 +798,20 @@ router.get('/settings', authenticate, requireRestaurant, async (req: any, res, n
  *                 $ref: '#/components/schemas/AISettings'
  *               notification_settings:
  *                 $ref: '#/components/schemas/NotificationSettings'
+ *               reservation_settings:
+ *                 $ref: '#/components/schemas/ReservationSettings'
 
  *     responses:
  *       200:
  *         description: Configurações atualizadas com sucesso
+ *       400:
+ *         description: Dados inválidos
  *       401:
  *         description: Não autorizado
  *       500:
  *         description: Erro interno do servidor
  */
-router.put('/settings', authenticate, requireRestaurant, restaurantController.updateRestaurantSettings);
+router.put('/settings', authenticate, requireRestaurant, validate(restaurantSettingsSchema), restaurantController.updateRestaurantSettings);
 
 /**
  * @swagger
@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { TableCombinationController } from '../controllers/tableCombinationController';
+import { authenticate, requireRestaurant } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import {
+  tableCombinationSchema,
+  tableCombinationUpdateSchema,
+  tableStatusSchema
+} from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TableCombination:
+ *       type: object
+ *       required:
+ *         - id
+ *         - restaurant_id
+ *         - area_id
+ *         - name
+ *         - table_ids
+ *         - capacity
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         restaurant_id:
+ *           type: string
+ *           format: uuid
+ *         area_id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *         table_ids:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: uuid
+ *         capacity:
+ *           type: number
+ *           description: Seats available when the tables are joined
+ *         is_active:
+ *           type: boolean
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ */
+
+// Apply authentication middleware to all routes
+router.use(authenticate, requireRestaurant);
+
+// Get all combinations for the restaurant
+router.get('/', TableCombinationController.getCombinations);
+
+// Get a single combination by ID
+router.get('/:id', TableCombinationController.getCombinationById);
+
+// Create a new combination
+router.post('/', validate(tableCombinationSchema), TableCombinationController.createCombination);
+
+// Update a combination
+router.put('/:id', validate(tableCombinationUpdateSchema), TableCombinationController.updateCombination);
+
+// Delete a combination
+router.delete('/:id', TableCombinationController.deleteCombination);
+
+// Change status of every member table
+router.patch('/:id/status', validate(tableStatusSchema), TableCombinationController.changeCombinationStatus);
+
+export default router;
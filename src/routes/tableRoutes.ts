@@ -1,12 +1,14 @@
 import { Router } from 'express';
 import { TableController } from '../controllers/tableController';
-import { authenticate } from '../middleware/auth';
-import { validate } from '../middleware/validation';
+import { authenticate, requireRestaurant } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validation';
 import { 
   tableSchema, 
   tableUpdateSchema, 
   tableStatusSchema, 
-  tablePositionSchema 
+  tablePositionSchema,
+  occupancyQuerySchema,
+  turnAnalyticsQuerySchema
 } from '../middleware/validation';
 
 const router = Router();
@@ -96,6 +98,186 @@ const router = Router();
  *         changed_at:
  *           type: string
  *           format: date-time
+ *     OccupancyFigures:
+ *       type: object
+ *       properties:
+ *         seat_hours_available:
+ *           type: number
+ *         seat_hours_used:
+ *           type: number
+ *         percentage:
+ *           type: number
+ *           description: Seat-hours used over available, in percent; may exceed 100 with overbooking
+ *     OccupancyAreaFigures:
+ *       allOf:
+ *         - $ref: '#/components/schemas/OccupancyFigures'
+ *         - type: object
+ *           properties:
+ *             area_id:
+ *               type: string
+ *               nullable: true
+ *             area_name:
+ *               type: string
+ *     OccupancyReport:
+ *       allOf:
+ *         - $ref: '#/components/schemas/OccupancyFigures'
+ *         - type: object
+ *           properties:
+ *             from:
+ *               type: string
+ *               format: date
+ *             to:
+ *               type: string
+ *               format: date
+ *             area_id:
+ *               type: string
+ *               nullable: true
+ *             areas:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/OccupancyAreaFigures'
+ *             days:
+ *               type: array
+ *               items:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/OccupancyFigures'
+ *                   - type: object
+ *                     properties:
+ *                       date:
+ *                         type: string
+ *                         format: date
+ *                       areas:
+ *                         type: array
+ *                         items:
+ *                           $ref: '#/components/schemas/OccupancyAreaFigures'
+ *                       periods:
+ *                         type: array
+ *                         description: Service periods from the opening hours ("Dia inteiro" when none are configured)
+ *                         items:
+ *                           allOf:
+ *                             - $ref: '#/components/schemas/OccupancyFigures'
+ *                             - type: object
+ *                               properties:
+ *                                 name:
+ *                                   type: string
+ *                                   example: Jantar
+ *                                 start_time:
+ *                                   type: string
+ *                                 end_time:
+ *                                   type: string
+ *                                 areas:
+ *                                   type: array
+ *                                   items:
+ *                                     $ref: '#/components/schemas/OccupancyAreaFigures'
+ *     TurnStats:
+ *       type: object
+ *       properties:
+ *         turns:
+ *           type: integer
+ *         average_dwell_minutes:
+ *           type: number
+ *           nullable: true
+ *         median_dwell_minutes:
+ *           type: number
+ *           nullable: true
+ *     TurnAnalytics:
+ *       allOf:
+ *         - $ref: '#/components/schemas/TurnStats'
+ *         - type: object
+ *           properties:
+ *             from:
+ *               type: string
+ *               format: date
+ *             to:
+ *               type: string
+ *               format: date
+ *             area_id:
+ *               type: string
+ *               nullable: true
+ *             services:
+ *               type: integer
+ *               description: Service periods the restaurant was open in the range
+ *             average_idle_minutes:
+ *               type: number
+ *               nullable: true
+ *             discarded_turns:
+ *               type: integer
+ *             tables:
+ *               type: array
+ *               items:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/TurnStats'
+ *                   - type: object
+ *                     properties:
+ *                       table_id:
+ *                         type: string
+ *                       table_name:
+ *                         type: string
+ *                       area_id:
+ *                         type: string
+ *                         nullable: true
+ *                       capacity:
+ *                         type: integer
+ *                       turns_per_service:
+ *                         type: number
+ *                       average_idle_minutes:
+ *                         type: number
+ *                         nullable: true
+ *             areas:
+ *               type: array
+ *               items:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/TurnStats'
+ *                   - type: object
+ *                     properties:
+ *                       area_id:
+ *                         type: string
+ *                         nullable: true
+ *                       area_name:
+ *                         type: string
+ *                       turns_per_service:
+ *                         type: number
+ *                       average_idle_minutes:
+ *                         type: number
+ *                         nullable: true
+ *             party_sizes:
+ *               type: array
+ *               items:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/TurnStats'
+ *                   - type: object
+ *                     properties:
+ *                       party_size:
+ *                         type: integer
+ *                         nullable: true
+ *                         description: null when the turn matched no reservation or waiting list entry
+ *             weekdays:
+ *               type: array
+ *               items:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/TurnStats'
+ *                   - type: object
+ *                     properties:
+ *                       weekday:
+ *                         type: integer
+ *                         description: 0 = Sunday
+ *             service_periods:
+ *               type: array
+ *               items:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/TurnStats'
+ *                   - type: object
+ *                     properties:
+ *                       name:
+ *                         type: string
+ *                         example: Jantar
+ *                       services:
+ *                         type: integer
+ *                       turns_per_service:
+ *                         type: number
+ *                       average_idle_minutes:
+ *                         type: number
+ *                         nullable: true
  */
 
 // Apply authentication middleware to all routes
@@ -110,8 +292,11 @@ router.get('/stats', TableController.getTableStats);
 // Get occupied tables for a restaurant
 router.get('/occupied', TableController.getOccupiedTables);
 
-// Get weekly occupancy data for a restaurant
-router.get('/weekly-occupancy', TableController.getWeeklyOccupancy);
+// Get occupancy analytics for a restaurant (last 7 days by default)
+router.get('/weekly-occupancy', validateQuery(occupancyQuerySchema), TableController.getWeeklyOccupancy);
+
+// Get turn-time and idle-time analytics for the current restaurant
+router.get('/turn-analytics', requireRestaurant, validateQuery(turnAnalyticsQuerySchema), TableController.getTurnAnalytics);
 
 // Get a single table by ID
 router.get('/:id', TableController.getTableById);
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { authenticate, requireRestaurant, AuthenticatedRequest } from '../middleware/auth';
 import { supabase } from '../config/database';
+import realtimeService from '../services/realtimeService';
 
 const router = Router();
 
@@ -391,6 +392,8 @@ router.post('/', authenticate, requireRestaurant, async (req: AuthenticatedReque
       });
     }
 
+    realtimeService.publish(restaurantId, 'waiting_list.created', data);
+
     return res.status(201).json({
       success: true,
       data
@@ -488,6 +491,8 @@ router.put('/:id', authenticate, requireRestaurant, async (req: AuthenticatedReq
       });
     }
 
+    realtimeService.publish(restaurantId, 'waiting_list.updated', data);
+
     return res.json({
       success: true,
       data
@@ -588,6 +593,8 @@ router.patch('/:id/status', authenticate, requireRestaurant, async (req: Authent
       });
     }
 
+    realtimeService.publish(restaurantId, 'waiting_list.updated', data);
+
     return res.json({
       success: true,
       data
@@ -640,11 +647,12 @@ router.delete('/:id', authenticate, requireRestaurant, async (req: Authenticated
     const { id } = req.params;
     const restaurantId = req.user?.restaurant_id;
 
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('waiting_list')
       .delete()
       .eq('id', id)
-      .eq('restaurant_id', restaurantId);
+      .eq('restaurant_id', restaurantId)
+      .select('id');
 
     if (error) {
       return res.status(400).json({
@@ -653,6 +661,10 @@ router.delete('/:id', authenticate, requireRestaurant, async (req: Authenticated
       });
     }
 
+    if (data && data.length > 0) {
+      realtimeService.publish(restaurantId, 'waiting_list.deleted', { id });
+    }
+
     return res.json({
       success: true,
       message: 'Customer removed from waiting list successfully'
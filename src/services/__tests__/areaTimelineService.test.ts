@@ -0,0 +1,47 @@
+import { findFreeGaps } from '../areaTimelineService';
+
+describe('findFreeGaps', () => {
+  const lunch = { start: 720, end: 900 };
+  const dinner = { start: 1140, end: 1440 };
+
+  it('returns the whole windows when nothing is occupied', () => {
+    expect(findFreeGaps([lunch, dinner], [])).toEqual([lunch, dinner]);
+  });
+
+  it('returns the parts between and around the occupied ranges, whatever their order', () => {
+    expect(findFreeGaps([dinner], [{ start: 1320, end: 1380 }, { start: 1200, end: 1260 }])).toEqual([
+      { start: 1140, end: 1200 },
+      { start: 1260, end: 1320 },
+      { start: 1380, end: 1440 }
+    ]);
+  });
+
+  it('merges overlapping and nested ranges', () => {
+    expect(findFreeGaps([dinner], [{ start: 1170, end: 1260 }, { start: 1200, end: 1230 }, { start: 1250, end: 1300 }]))
+      .toEqual([{ start: 1140, end: 1170 }, { start: 1300, end: 1440 }]);
+  });
+
+  it('leaves no gap between ranges that touch', () => {
+    expect(findFreeGaps([lunch], [{ start: 720, end: 780 }, { start: 780, end: 900 }])).toEqual([]);
+  });
+
+  it('clips ranges that start before or end after the window', () => {
+    expect(findFreeGaps([lunch], [{ start: 600, end: 750 }, { start: 870, end: 960 }])).toEqual([{ start: 750, end: 870 }]);
+  });
+
+  it('ignores ranges outside the windows', () => {
+    expect(findFreeGaps([lunch, dinner], [{ start: 960, end: 1080 }])).toEqual([lunch, dinner]);
+  });
+
+  it('handles windows and ranges that cross midnight', () => {
+    const lateNight = { start: 1320, end: 1560 };
+    expect(findFreeGaps([lateNight], [{ start: 1380, end: 1500 }])).toEqual([
+      { start: 1320, end: 1380 },
+      { start: 1500, end: 1560 }
+    ]);
+  });
+
+  it('returns nothing for a window covered by a full-day block', () => {
+    expect(findFreeGaps([lunch, dinner], [{ start: 0, end: 2880 }])).toEqual([]);
+  });
+});
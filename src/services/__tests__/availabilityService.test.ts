@@ -0,0 +1,139 @@
+import { ReservationOverbookingUsage } from '../../types';
+import {
+  fitsOverbooking,
+  hasTimeOverlap,
+  rangesConflict,
+  resolveOverbookingPercentage,
+  resolveReservationDuration,
+  toTimeRange
+} from '../availabilityService';
+
+describe('toTimeRange', () => {
+  it('reads an end after the start as the same day', () => {
+    expect(toTimeRange('19:00', '21:30')).toEqual({ start: 1140, end: 1290 });
+  });
+
+  it('reads an end before the start as the next day', () => {
+    expect(toTimeRange('23:00', '01:00')).toEqual({ start: 1380, end: 1500 });
+  });
+
+  it('reads an end equal to the start as a full day', () => {
+    expect(toTimeRange('20:00', '20:00')).toEqual({ start: 1200, end: 2640 });
+  });
+
+  it('falls back to the duration without an end', () => {
+    expect(toTimeRange('23:30', null, 90)).toEqual({ start: 1410, end: 1500 });
+  });
+});
+
+describe('rangesConflict', () => {
+  it('does not conflict when one range ends as the other starts', () => {
+    expect(rangesConflict(toTimeRange('19:00', '21:00'), toTimeRange('21:00', '23:00'))).toBe(false);
+  });
+
+  it('conflicts once the turnover buffer reaches the next start', () => {
+    const first = toTimeRange('19:00', '21:00');
+    const second = toTimeRange('21:15', '23:00');
+    expect(rangesConflict(first, second, 15)).toBe(false);
+    expect(rangesConflict(first, second, 16)).toBe(true);
+  });
+
+  it('conflicts with a range crossing midnight', () => {
+    expect(rangesConflict(toTimeRange('23:00', '01:00'), toTimeRange('23:30', '23:45'))).toBe(true);
+  });
+});
+
+describe('hasTimeOverlap', () => {
+  it('overlaps two ranges crossing midnight', () => {
+    expect(hasTimeOverlap('22:30', '00:30', '23:45', '01:15')).toBe(true);
+  });
+
+  it('applies the buffer before a range crossing midnight', () => {
+    expect(hasTimeOverlap('22:00', '23:50', '23:55', '01:00', 5)).toBe(false);
+    expect(hasTimeOverlap('22:00', '23:50', '23:55', '01:00', 10)).toBe(true);
+  });
+});
+
+describe('resolveOverbookingPercentage', () => {
+  // 2026-10-23 é sexta-feira, 2026-10-25 é domingo
+  const settings = {
+    overbooking_rules: [
+      { weekdays: [5, 6], percentage: 10 },
+      { weekdays: [6, 0], percentage: 5 }
+    ]
+  };
+
+  it('uses the rule of the weekday', () => {
+    expect(resolveOverbookingPercentage(settings, '2026-10-23')).toBe(10);
+    expect(resolveOverbookingPercentage(settings, '2026-10-25')).toBe(5);
+  });
+
+  it('takes the first rule when several list the weekday', () => {
+    expect(resolveOverbookingPercentage(settings, '2026-10-24')).toBe(10);
+  });
+
+  it('allows no overbooking on weekdays without a rule or without rules', () => {
+    expect(resolveOverbookingPercentage(settings, '2026-10-21')).toBe(0);
+    expect(resolveOverbookingPercentage({}, '2026-10-23')).toBe(0);
+  });
+});
+
+describe('fitsOverbooking', () => {
+  const usage = (allowed: number, overbooked: number): ReservationOverbookingUsage => ({
+    percentage: 10,
+    seating_capacity: 100,
+    allowed_covers: allowed,
+    overbooked_covers: overbooked
+  });
+
+  it('fits a party that fills the allowance exactly', () => {
+    expect(fitsOverbooking(usage(10, 6), 4)).toBe(true);
+  });
+
+  it('refuses a party one cover over the allowance', () => {
+    expect(fitsOverbooking(usage(10, 7), 4)).toBe(false);
+  });
+
+  it('refuses everything without an allowance', () => {
+    expect(fitsOverbooking(usage(0, 0), 0)).toBe(false);
+    expect(fitsOverbooking(usage(0, 0), 1)).toBe(false);
+  });
+});
+
+describe('resolveReservationDuration', () => {
+  const dinner = { date: '2026-10-19', start_time: '20:00', number_of_people: 2, area_id: 'area-1' };
+  const settings = {
+    default_duration_minutes: 100,
+    duration_rules: [
+      { name: 'Almoço', duration_minutes: 75, start_time: '11:00', end_time: '15:00' },
+      { name: 'Jantar', duration_minutes: 120, start_time: '18:00', end_time: '02:00' },
+      { name: 'Jantar 6+', duration_minutes: 150, min_party_size: 6, start_time: '18:00', end_time: '02:00' },
+      { name: 'Terraço', duration_minutes: 90, area_id: 'area-2' }
+    ]
+  };
+
+  it('uses the rule of the time of day', () => {
+    expect(resolveReservationDuration(settings, { ...dinner, start_time: '12:30' })).toBe(75);
+    expect(resolveReservationDuration(settings, dinner)).toBe(120);
+  });
+
+  it('matches windows that cross midnight', () => {
+    expect(resolveReservationDuration(settings, { ...dinner, start_time: '00:30' })).toBe(120);
+  });
+
+  it('prefers the most specific matching rule', () => {
+    expect(resolveReservationDuration(settings, { ...dinner, number_of_people: 6 })).toBe(150);
+  });
+
+  it('gives ties to the rule listed first', () => {
+    expect(resolveReservationDuration(settings, { ...dinner, area_id: 'area-2', start_time: '16:00' })).toBe(90);
+    expect(resolveReservationDuration({
+      duration_rules: [{ duration_minutes: 60, weekdays: [1] }, { duration_minutes: 80, area_id: 'area-1' }]
+    }, dinner)).toBe(60);
+  });
+
+  it('falls back to the restaurant default, then to 2 hours', () => {
+    expect(resolveReservationDuration(settings, { ...dinner, start_time: '16:00' })).toBe(100);
+    expect(resolveReservationDuration({}, dinner)).toBe(120);
+  });
+});
@@ -0,0 +1,66 @@
+import { CategoriaComemoracao } from '../../types';
+import { categoryApplies, isCategoryValidOn } from '../celebrationCategoryService';
+
+const category = (overrides: Partial<CategoriaComemoracao> = {}): CategoriaComemoracao => ({
+  id: 'category-1',
+  restaurant_id: 'restaurant-1',
+  nome: 'Aniversário',
+  tipo_recorrencia: 'periodo',
+  data_inicio: '2026-10-01',
+  data_fim: '2026-10-31',
+  qtd_min: 4,
+  status: true,
+  created_at: '2026-09-01T12:00:00Z',
+  ...overrides
+});
+
+describe('isCategoryValidOn', () => {
+  it('accepts a single-day category only on data_inicio', () => {
+    const single = category({ tipo_recorrencia: 'unica', data_inicio: '2026-10-19', data_fim: '2026-10-31' });
+    expect(isCategoryValidOn(single, '2026-10-19')).toBe(true);
+    expect(isCategoryValidOn(single, '2026-10-20')).toBe(false);
+  });
+
+  it('accepts any day of a period, both ends included', () => {
+    expect(isCategoryValidOn(category(), '2026-10-01')).toBe(true);
+    expect(isCategoryValidOn(category(), '2026-10-31')).toBe(true);
+    expect(isCategoryValidOn(category(), '2026-11-01')).toBe(false);
+    expect(isCategoryValidOn(category(), '2026-09-30')).toBe(false);
+  });
+
+  it('accepts the listed weekdays within the range', () => {
+    const weekends = category({ tipo_recorrencia: 'dias_semana', dias_semana: [0, 6] });
+    expect(isCategoryValidOn(weekends, '2026-10-24')).toBe(true);
+    expect(isCategoryValidOn(weekends, '2026-10-19')).toBe(false);
+    expect(isCategoryValidOn(weekends, '2026-11-01')).toBe(false);
+  });
+
+  it('reads timestamps stored in the date columns', () => {
+    expect(isCategoryValidOn(category({ data_inicio: '2026-10-01T00:00:00+00:00', data_fim: '2026-10-31T00:00:00+00:00' }), '2026-10-31'))
+      .toBe(true);
+  });
+
+  it('treats a period without data_fim as a single day', () => {
+    const open = category({ data_fim: undefined as unknown as string });
+    expect(isCategoryValidOn(open, '2026-10-01')).toBe(true);
+    expect(isCategoryValidOn(open, '2026-10-02')).toBe(false);
+  });
+});
+
+describe('categoryApplies', () => {
+  it('applies to an active category on a valid date for a large enough party', () => {
+    expect(categoryApplies(category(), '2026-10-19', 4)).toBe(true);
+  });
+
+  it('does not apply below the minimum party size', () => {
+    expect(categoryApplies(category(), '2026-10-19', 3)).toBe(false);
+  });
+
+  it('does not apply when the category is inactive', () => {
+    expect(categoryApplies(category({ status: false }), '2026-10-19', 4)).toBe(false);
+  });
+
+  it('does not apply outside its dates', () => {
+    expect(categoryApplies(category(), '2026-11-19', 4)).toBe(false);
+  });
+});
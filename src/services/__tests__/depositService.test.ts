@@ -0,0 +1,173 @@
+import moment from 'moment';
+import { Reservation, ReservationDepositTerms } from '../../types';
+import depositService, { settleCancellation } from '../depositService';
+import { FakePaymentProvider, setPaymentProvider } from '../paymentProvider';
+
+// Reserva guardada pelo Supabase falso; updates só valem se os filtros casarem
+let stored: Record<string, unknown> = {};
+
+jest.mock('../../config/database', () => {
+  const from = (table: string) => {
+    const filters: [string, unknown[]][] = [];
+    let changes: Record<string, unknown> | null = null;
+    let inserted: Record<string, unknown> | null = null;
+    const matches = () => filters.every(([column, values]) => values.includes(stored[column]));
+
+    const query = {
+      select: () => query,
+      order: () => query,
+      limit: () => query,
+      eq: (column: string, value: unknown) => {
+        filters.push([column, [value]]);
+        return query;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push([column, values]);
+        return query;
+      },
+      update: (values: Record<string, unknown>) => {
+        changes = values;
+        return query;
+      },
+      insert: (row: Record<string, unknown>) => {
+        inserted = { id: 'payment-1', ...row };
+        return query;
+      },
+      single: async () => {
+        if (table !== 'reservations') return { data: inserted, error: null };
+        return matches() ? { data: { ...stored }, error: null } : { data: null, error: { message: 'Not found' } };
+      },
+      maybeSingle: async () => ({ data: null, error: null }),
+      then: (resolve: (result: unknown) => void) => {
+        const matched = matches();
+        if (changes && matched) Object.assign(stored, changes);
+        resolve({ data: matched ? [{ id: stored.id }] : [], error: null });
+      }
+    };
+    return query;
+  };
+  return { __esModule: true, supabase: { from }, default: { from } };
+});
+
+const terms = (overrides: Partial<ReservationDepositTerms> = {}): ReservationDepositTerms => ({
+  currency: 'BRL',
+  refund_window_hours: 24,
+  cancellation_fee_percentage: 100,
+  ...overrides
+});
+
+const startsAt = moment('2026-10-20T20:00:00Z');
+
+describe('settleCancellation', () => {
+  it('refunds everything when canceled exactly at the refund window', () => {
+    const now = startsAt.clone().subtract(24, 'hours');
+    expect(settleCancellation(terms(), 150, startsAt, 'canceled', now)).toEqual({ refund: 150, retained: 0 });
+  });
+
+  it('keeps the fee when canceled a minute inside the refund window', () => {
+    const now = startsAt.clone().subtract(24, 'hours').add(1, 'minute');
+    expect(settleCancellation(terms(), 150, startsAt, 'canceled', now)).toEqual({ refund: 0, retained: 150 });
+  });
+
+  it('keeps the fee percentage of the deposit', () => {
+    const now = startsAt.clone().subtract(2, 'hours');
+    expect(settleCancellation(terms({ cancellation_fee_percentage: 30 }), 200, startsAt, 'canceled', now))
+      .toEqual({ refund: 140, retained: 60 });
+  });
+
+  it('rounds the split to cents', () => {
+    const now = startsAt.clone().subtract(1, 'hour');
+    expect(settleCancellation(terms({ cancellation_fee_percentage: 50 }), 99.99, startsAt, 'canceled', now))
+      .toEqual({ refund: 49.99, retained: 50 });
+  });
+
+  it('keeps the fee of a no-show however early it is settled', () => {
+    const now = startsAt.clone().subtract(3, 'days');
+    expect(settleCancellation(terms({ cancellation_fee_percentage: 40 }), 100, startsAt, 'no_show', now))
+      .toEqual({ refund: 60, retained: 40 });
+  });
+
+  it('refunds late cancellations without a fee', () => {
+    const now = startsAt.clone().subtract(10, 'minutes');
+    expect(settleCancellation(terms({ cancellation_fee_percentage: 0 }), 80, startsAt, 'canceled', now))
+      .toEqual({ refund: 80, retained: 0 });
+  });
+
+  it('with no refund window refunds until the reservation starts', () => {
+    const policy = terms({ refund_window_hours: 0 });
+    expect(settleCancellation(policy, 50, startsAt, 'canceled', startsAt.clone())).toEqual({ refund: 50, retained: 0 });
+    expect(settleCancellation(policy, 50, startsAt, 'canceled', startsAt.clone().add(1, 'minute')))
+      .toEqual({ refund: 0, retained: 50 });
+  });
+});
+
+describe('deposit payment', () => {
+  const provider = new FakePaymentProvider();
+
+  const reservation = (overrides: Partial<Reservation> = {}) => ({
+    id: 'reservation-1',
+    restaurant_id: 'restaurant-1',
+    customer_name: 'Ana',
+    reservation_date: '2099-01-01',
+    start_time: '20:00',
+    status: 'confirmed',
+    deposit_status: 'required',
+    deposit_amount: 100,
+    deposit_terms: terms(),
+    ...overrides
+  });
+
+  beforeEach(() => {
+    stored = reservation();
+    setPaymentProvider(provider);
+  });
+
+  afterEach(() => {
+    setPaymentProvider(null);
+    jest.restoreAllMocks();
+  });
+
+  it('charges the deposit once and marks it as paid', async () => {
+    const charge = jest.spyOn(provider, 'charge');
+
+    await depositService.payDeposit('reservation-1', 'restaurant-1', 'tok_ok');
+
+    expect(charge).toHaveBeenCalledTimes(1);
+    expect(stored.deposit_status).toBe('paid');
+  });
+
+  it('charges only one of two concurrent attempts', async () => {
+    const charge = jest.spyOn(provider, 'charge');
+
+    const results = await Promise.allSettled([
+      depositService.payDeposit('reservation-1', 'restaurant-1', 'tok_ok'),
+      depositService.payDeposit('reservation-1', 'restaurant-1', 'tok_ok')
+    ]);
+
+    expect(charge).toHaveBeenCalledTimes(1);
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({ reason: { statusCode: 409, code: 'DEPOSIT_NOT_DUE' } });
+  });
+
+  it('leaves a declined deposit required', async () => {
+    await expect(depositService.payDeposit('reservation-1', 'restaurant-1', 'tok_declined'))
+      .rejects.toMatchObject({ statusCode: 402, code: 'PAYMENT_FAILED' });
+    expect(stored.deposit_status).toBe('required');
+  });
+
+  it('does not charge a canceled reservation', async () => {
+    stored = reservation({ status: 'canceled' });
+    const charge = jest.spyOn(provider, 'charge');
+
+    await expect(depositService.payDeposit('reservation-1', 'restaurant-1', 'tok_ok'))
+      .rejects.toMatchObject({ statusCode: 409, code: 'DEPOSIT_NOT_DUE' });
+    expect(charge).not.toHaveBeenCalled();
+  });
+
+  it('waives an unpaid deposit when the reservation is canceled', async () => {
+    const settlement = await depositService.settleDeposit(reservation() as Reservation, 'canceled');
+
+    expect(settlement).toEqual({ deposit_status: 'waived' });
+    expect(stored.deposit_status).toBe('waived');
+  });
+});
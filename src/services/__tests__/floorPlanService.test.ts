@@ -0,0 +1,94 @@
+import { FloorPlan, FloorPlanTable } from '../../types';
+import { applyLayout, isScheduledOn, pickScheduledPlan } from '../floorPlanService';
+
+const plan = (id: string, schedule: Partial<FloorPlan>, updated_at = '2026-10-01T00:00:00Z'): FloorPlan => ({
+  id,
+  restaurant_id: 'restaurant-1',
+  area_id: 'area-1',
+  name: id,
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at,
+  ...schedule
+});
+
+// 2026-10-23 é sexta-feira e 2026-10-24, sábado
+describe('isScheduledOn', () => {
+  it('never covers a date without a schedule', () => {
+    expect(isScheduledOn({}, '2026-10-23')).toBe(false);
+    expect(isScheduledOn({ starts_on: null, ends_on: null, weekdays: [] }, '2026-10-23')).toBe(false);
+  });
+
+  it('includes both ends of the date range', () => {
+    const schedule = { starts_on: '2026-10-23', ends_on: '2026-10-24' };
+    expect(isScheduledOn(schedule, '2026-10-22')).toBe(false);
+    expect(isScheduledOn(schedule, '2026-10-23')).toBe(true);
+    expect(isScheduledOn(schedule, '2026-10-24')).toBe(true);
+    expect(isScheduledOn(schedule, '2026-10-25')).toBe(false);
+  });
+
+  it('leaves open-ended ranges open', () => {
+    expect(isScheduledOn({ starts_on: '2026-10-23' }, '2030-01-01')).toBe(true);
+    expect(isScheduledOn({ ends_on: '2026-10-23' }, '2020-01-01')).toBe(true);
+  });
+
+  it('limits the range to the listed weekdays', () => {
+    const schedule = { starts_on: '2026-10-01', ends_on: '2026-10-31', weekdays: [6] };
+    expect(isScheduledOn(schedule, '2026-10-23')).toBe(false);
+    expect(isScheduledOn(schedule, '2026-10-24')).toBe(true);
+    expect(isScheduledOn({ weekdays: [5] }, '2026-10-23')).toBe(true);
+  });
+
+  it('reads timestamps as their date', () => {
+    expect(isScheduledOn({ starts_on: '2026-10-24T00:00:00+00:00' }, '2026-10-24')).toBe(true);
+  });
+});
+
+describe('pickScheduledPlan', () => {
+  it('returns null when no schedule covers the date', () => {
+    expect(pickScheduledPlan([plan('winter', { starts_on: '2026-06-01', ends_on: '2026-08-31' })], '2026-10-23')).toBeNull();
+  });
+
+  it('prefers the overlapping schedule that starts last', () => {
+    const season = plan('season', { starts_on: '2026-10-01', ends_on: '2026-12-31' });
+    const event = plan('event', { starts_on: '2026-10-24', ends_on: '2026-10-24' });
+    const weekends = plan('weekends', { weekdays: [0, 6] });
+
+    expect(pickScheduledPlan([weekends, season, event], '2026-10-24')?.id).toBe('event');
+    expect(pickScheduledPlan([weekends, season, event], '2026-10-25')?.id).toBe('season');
+    expect(pickScheduledPlan([weekends], '2026-10-25')?.id).toBe('weekends');
+  });
+
+  it('breaks ties by the most recently updated', () => {
+    const older = plan('older', { starts_on: '2026-10-01' }, '2026-10-02T00:00:00Z');
+    const newer = plan('newer', { starts_on: '2026-10-01' }, '2026-10-05T00:00:00Z');
+
+    expect(pickScheduledPlan([older, newer], '2026-10-23')?.id).toBe('newer');
+    expect(pickScheduledPlan([newer, older], '2026-10-23')?.id).toBe('newer');
+  });
+});
+
+describe('applyLayout', () => {
+  const tables = [
+    { id: 'table-1', is_active: true, position_x: 0, position_y: 0, width: 100, height: 100, number: 1 },
+    { id: 'table-2', is_active: true, position_x: 200, position_y: 0, width: 100, height: 100, number: 2 }
+  ];
+
+  it('takes geometry and active flag from the layout and keeps the other fields', () => {
+    const layout: FloorPlanTable = { table_id: 'table-1', position_x: 50, position_y: 60, width: 80, height: 120, is_active: false };
+
+    expect(applyLayout(tables, new Map([['table-1', layout]]))).toEqual([
+      { id: 'table-1', is_active: false, position_x: 50, position_y: 60, width: 80, height: 120, number: 1 },
+      tables[1]
+    ]);
+  });
+
+  it('keeps the tables as they are without a layout', () => {
+    expect(applyLayout(tables, new Map())).toEqual(tables);
+  });
+
+  it('does not change the tables passed in', () => {
+    const layout: FloorPlanTable = { table_id: 'table-2', position_x: 0, position_y: 0, width: 100, height: 100, is_active: false };
+    applyLayout(tables, new Map([['table-2', layout]]));
+    expect(tables[1].is_active).toBe(true);
+  });
+});
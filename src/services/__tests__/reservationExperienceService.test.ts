@@ -0,0 +1,96 @@
+import { hasExperienceLink, isEventActiveAt, isEventActiveOn, sameExperienceLink } from '../reservationExperienceService';
+
+describe('isEventActiveOn', () => {
+  it('runs a one-off event only on init_date', () => {
+    const event = { init_date: '2026-10-19' };
+    expect(isEventActiveOn(event, '2026-10-19')).toBe(true);
+    expect(isEventActiveOn(event, '2026-10-20')).toBe(false);
+  });
+
+  it('runs an event without recurrence on every day of its range', () => {
+    const event = { init_date: '2026-10-19', end_date: '2026-10-25' };
+    expect(isEventActiveOn(event, '2026-10-22')).toBe(true);
+    expect(isEventActiveOn(event, '2026-10-26')).toBe(false);
+    expect(isEventActiveOn(event, '2026-10-18')).toBe(false);
+  });
+
+  it('runs a weekly event on the listed weekdays', () => {
+    const event = { init_date: '2026-10-01', recurrence_type: 'SEMANAL', day_recurrence: [1, 3] };
+    expect(isEventActiveOn(event, '2026-10-19')).toBe(true);
+    expect(isEventActiveOn(event, '2026-10-20')).toBe(false);
+  });
+
+  it('reads day_recurrence sent as { days } or as JSON text', () => {
+    expect(isEventActiveOn({ recurrence_type: 'semanal', day_recurrence: { days: [1] } }, '2026-10-19')).toBe(true);
+    expect(isEventActiveOn({ recurrence_type: 'SEMANAL', day_recurrence: '[1]' }, '2026-10-19')).toBe(true);
+  });
+
+  it('ignores day_recurrence it cannot read', () => {
+    const event = { init_date: '2026-10-05', recurrence_type: 'SEMANAL', day_recurrence: '{oops' };
+    expect(isEventActiveOn(event, '2026-10-19')).toBe(true);
+    expect(isEventActiveOn(event, '2026-10-20')).toBe(false);
+  });
+
+  it('defaults a weekly event to the weekday of init_date', () => {
+    const event = { init_date: '2026-10-05', recurrence_type: 'SEMANAL' };
+    expect(isEventActiveOn(event, '2026-10-19')).toBe(true);
+    expect(isEventActiveOn(event, '2026-10-21')).toBe(false);
+  });
+
+  it('runs a monthly event on the listed days of the month', () => {
+    const event = { init_date: '2026-01-01', recurrence_type: 'MENSAL', day_recurrence: [19] };
+    expect(isEventActiveOn(event, '2026-11-19')).toBe(true);
+    expect(isEventActiveOn(event, '2026-11-20')).toBe(false);
+  });
+
+  it('runs a yearly event on the anniversary of init_date', () => {
+    const event = { init_date: '2025-10-19', recurrence_type: 'ANUAL' };
+    expect(isEventActiveOn(event, '2026-10-19')).toBe(true);
+    expect(isEventActiveOn(event, '2026-10-20')).toBe(false);
+  });
+
+  it('does not run a recurring event outside its range', () => {
+    const event = { init_date: '2026-10-01', end_date: '2026-10-31', recurrence_type: 'SEMANAL', day_recurrence: [1] };
+    expect(isEventActiveOn(event, '2026-11-02')).toBe(false);
+    expect(isEventActiveOn(event, '2026-09-28')).toBe(false);
+  });
+});
+
+describe('isEventActiveAt', () => {
+  it('runs all day without times', () => {
+    expect(isEventActiveAt({}, '03:00')).toBe(true);
+  });
+
+  it('includes the start and excludes the end', () => {
+    const event = { init_time: '19:00', end_time: '23:00' };
+    expect(isEventActiveAt(event, '19:00')).toBe(true);
+    expect(isEventActiveAt(event, '22:59')).toBe(true);
+    expect(isEventActiveAt(event, '23:00')).toBe(false);
+  });
+
+  it('runs past midnight when the end is before the start', () => {
+    const event = { init_time: '22:00', end_time: '02:00' };
+    expect(isEventActiveAt(event, '23:30')).toBe(true);
+    expect(isEventActiveAt(event, '01:00')).toBe(true);
+    expect(isEventActiveAt(event, '12:00')).toBe(false);
+  });
+
+  it('reads a missing end as midnight', () => {
+    expect(isEventActiveAt({ init_time: '18:00' }, '23:59')).toBe(true);
+    expect(isEventActiveAt({ init_time: '18:00' }, '17:00')).toBe(false);
+  });
+});
+
+describe('experience links', () => {
+  it('has a link only when one of the experiences is set', () => {
+    expect(hasExperienceLink({ bonification_id: 'bonification-1' })).toBe(true);
+    expect(hasExperienceLink({ bonification_id: null, event_id: null })).toBe(false);
+    expect(hasExperienceLink(null)).toBe(false);
+  });
+
+  it('compares links field by field, with null and missing fields alike', () => {
+    expect(sameExperienceLink({ event_id: 'event-1' }, { event_id: 'event-1', bonification_id: null })).toBe(true);
+    expect(sameExperienceLink({ event_id: 'event-1' }, { event_id: 'event-2' })).toBe(false);
+    expect(sameExperienceLink(null, {})).toBe(true);
+  });
+});
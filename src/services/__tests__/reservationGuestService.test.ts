@@ -0,0 +1,129 @@
+import moment from 'moment';
+import { Reservation, Restaurant } from '../../types';
+import { signLinkToken } from '../../config/linkSigning';
+import reservationGuestService from '../reservationGuestService';
+import reservationService from '../reservationService';
+import restaurantService from '../restaurantService';
+import availabilityService from '../availabilityService';
+
+// Linhas devolvidas pelo Supabase falso, por tabela
+const rows: Record<string, unknown> = {};
+
+jest.mock('../../config/database', () => {
+  const from = (table: string) => {
+    const query = {
+      select: () => query,
+      eq: () => query,
+      single: async () => ({ data: rows[table] ?? null, error: rows[table] ? null : { message: 'Not found' } }),
+      maybeSingle: async () => ({ data: rows[table] ?? null, error: null })
+    };
+    return query;
+  };
+  return { __esModule: true, supabase: { from }, default: { from } };
+});
+
+const reservation: Reservation = {
+  id: 'reservation-1',
+  restaurant_id: 'restaurant-1',
+  customer_name: 'Ana',
+  phone: '11999990000',
+  number_of_people: 2,
+  reservation_date: '2099-01-01',
+  start_time: '20:00',
+  table_id: null,
+  area_id: 'area-1',
+  status: 'pending',
+  guest_link_version: 1,
+  created_at: '2026-10-19T12:00:00Z'
+};
+
+const guestToken = (overrides: Record<string, unknown> = {}) => signLinkToken('guest', {
+  reservation_id: reservation.id,
+  restaurant_id: reservation.restaurant_id,
+  version: 1,
+  exp: moment().add(1, 'day').unix(),
+  ...overrides
+});
+
+describe('guest reservation links', () => {
+  beforeEach(() => {
+    rows.reservations = { ...reservation };
+    rows.restaurants = { timezone: 'America/Sao_Paulo' };
+    jest.spyOn(restaurantService, 'getRestaurantById').mockResolvedValue({ id: 'restaurant-1', name: 'Angu' } as Restaurant);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('opens the reservation of a link it issued', async () => {
+    const { data: link } = await reservationGuestService.createGuestLink(reservation.id, reservation.restaurant_id, 'http://api');
+
+    const result = await reservationGuestService.getReservation(link!.token);
+
+    expect(result.data).toMatchObject({ id: reservation.id, allowed_actions: ['confirm', 'reschedule', 'cancel'] });
+    expect(link!.expires_at).toBe(moment.utc('2099-01-01T23:00:00Z').toISOString());
+  });
+
+  it('rejects a tampered link', async () => {
+    const [, sig] = guestToken().split('.');
+    const forged = Buffer.from(JSON.stringify({ reservation_id: 'reservation-2', restaurant_id: 'restaurant-1', version: 1, exp: 4102444800 }))
+      .toString('base64url');
+
+    await expect(reservationGuestService.getReservation(`${forged}.${sig}`))
+      .rejects.toMatchObject({ statusCode: 401, code: 'GUEST_LINK_INVALID' });
+  });
+
+  it('rejects a link issued without a version', async () => {
+    await expect(reservationGuestService.getReservation(guestToken({ version: undefined })))
+      .rejects.toMatchObject({ statusCode: 401, code: 'GUEST_LINK_INVALID' });
+  });
+
+  it('rejects an expired link', async () => {
+    await expect(reservationGuestService.getReservation(guestToken({ exp: moment().subtract(1, 'second').unix() })))
+      .rejects.toMatchObject({ statusCode: 401, code: 'GUEST_LINK_EXPIRED' });
+  });
+
+  it('rejects a link issued before the reservation was rescheduled', async () => {
+    rows.reservations = { ...reservation, guest_link_version: 2 };
+
+    await expect(reservationGuestService.getReservation(guestToken()))
+      .rejects.toMatchObject({ statusCode: 401, code: 'GUEST_LINK_STALE' });
+  });
+
+  describe('reschedule', () => {
+    const changes = { reservation_date: '2099-01-02', start_time: '21:00' };
+
+    beforeEach(() => {
+      rows.reservations = { ...reservation, table_id: 'table-1' };
+      jest.spyOn(reservationService, 'updateReservation')
+        .mockImplementation(async (id, input) => ({ success: true, data: { ...reservation, ...input, guest_link_version: 2 } as Reservation }));
+    });
+
+    it('keeps the table when it is free at the new time', async () => {
+      jest.spyOn(availabilityService, 'checkTableConflict').mockResolvedValue(false);
+
+      await reservationGuestService.rescheduleReservation(guestToken(), changes, 'http://api');
+
+      expect(reservationService.updateReservation).toHaveBeenCalledWith(
+        reservation.id,
+        { ...changes, number_of_people: 2 },
+        undefined,
+        { reassignTable: false }
+      );
+    });
+
+    it('asks for a new table when the current one is taken at the new time', async () => {
+      jest.spyOn(availabilityService, 'checkTableConflict').mockResolvedValue(true);
+
+      await reservationGuestService.rescheduleReservation(guestToken(), changes, 'http://api');
+
+      expect(reservationService.updateReservation).toHaveBeenCalledWith(
+        reservation.id,
+        { ...changes, number_of_people: 2 },
+        undefined,
+        { reassignTable: true }
+      );
+    });
+  });
+});
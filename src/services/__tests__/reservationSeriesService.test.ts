@@ -0,0 +1,108 @@
+import moment from 'moment';
+import { Reservation, ReservationSeries } from '../../types';
+import reservationSeriesService, { getSeriesDates, MAX_SERIES_OCCURRENCES } from '../reservationSeriesService';
+import reservationService from '../reservationService';
+import restaurantTimeService from '../restaurantTimeService';
+
+// Linhas gravadas em reservation_series pelo Supabase falso
+const inserted: Record<string, unknown>[] = [];
+
+jest.mock('../../config/database', () => {
+  const from = () => {
+    let row: Record<string, unknown> = {};
+    const query = {
+      insert: (rows: Record<string, unknown>[]) => {
+        row = { id: 'series-1', ...rows[0] };
+        inserted.push(rows[0]);
+        return query;
+      },
+      select: () => query,
+      single: async () => ({ data: row, error: null })
+    };
+    return query;
+  };
+  return { __esModule: true, supabase: { from }, default: { from } };
+});
+
+type Schedule = Parameters<typeof getSeriesDates>[0];
+
+const schedule = (overrides: Partial<Schedule>): Schedule => ({
+  tipo_recorrencia: 'semanal',
+  dias_semana: [1],
+  data_inicio: '2026-10-19',
+  ...overrides
+});
+
+describe('getSeriesDates', () => {
+  it('repeats weekly on each chosen weekday', () => {
+    expect(getSeriesDates(schedule({ dias_semana: [3, 1], qtd_ocorrencias: 4 })))
+      .toEqual(['2026-10-19', '2026-10-21', '2026-10-26', '2026-10-28']);
+  });
+
+  it('skips weekdays of the first week that fall before data_inicio', () => {
+    expect(getSeriesDates(schedule({ dias_semana: [0, 3], qtd_ocorrencias: 3 })))
+      .toEqual(['2026-10-21', '2026-10-25', '2026-10-28']);
+  });
+
+  it('repeats every other week when biweekly', () => {
+    expect(getSeriesDates(schedule({ tipo_recorrencia: 'quinzenal', qtd_ocorrencias: 3 })))
+      .toEqual(['2026-10-19', '2026-11-02', '2026-11-16']);
+  });
+
+  it('repeats monthly on the weekday ordinal of data_inicio', () => {
+    expect(getSeriesDates(schedule({ tipo_recorrencia: 'mensal', dias_semana: [4], data_inicio: '2026-10-08', qtd_ocorrencias: 3 })))
+      .toEqual(['2026-10-08', '2026-11-12', '2026-12-10']);
+  });
+
+  it('falls back to the last weekday in months without a fifth one', () => {
+    expect(getSeriesDates(schedule({ tipo_recorrencia: 'mensal', dias_semana: [4], data_inicio: '2026-10-29', qtd_ocorrencias: 3 })))
+      .toEqual(['2026-10-29', '2026-11-26', '2026-12-31']);
+  });
+
+  it('stops at data_fim', () => {
+    expect(getSeriesDates(schedule({ data_fim: '2026-11-02' })))
+      .toEqual(['2026-10-19', '2026-10-26', '2026-11-02']);
+  });
+
+  it('defaults to the weekday of data_inicio', () => {
+    expect(getSeriesDates(schedule({ dias_semana: [], data_inicio: '2026-10-22', qtd_ocorrencias: 2 })))
+      .toEqual(['2026-10-22', '2026-10-29']);
+  });
+
+  it('caps the number of occurrences', () => {
+    expect(getSeriesDates(schedule({ qtd_ocorrencias: 500 }))).toHaveLength(MAX_SERIES_OCCURRENCES);
+  });
+});
+
+describe('createSeries', () => {
+  beforeEach(() => {
+    inserted.length = 0;
+    jest.spyOn(restaurantTimeService, 'now').mockResolvedValue(moment('2026-10-19T12:00:00'));
+    jest.spyOn(reservationService, 'createReservation').mockImplementation(async data => ({
+      success: true,
+      data: { ...data, id: `reservation-${data.reservation_date}` } as Reservation
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores the weekday of data_inicio when no weekdays are given', async () => {
+    const seriesData = {
+      restaurant_id: 'restaurant-1',
+      customer_name: 'Ana',
+      number_of_people: 2,
+      start_time: '20:00',
+      reservation_status: 'confirmed',
+      tipo_recorrencia: 'semanal',
+      data_inicio: '2026-10-22',
+      qtd_ocorrencias: 2
+    } as Omit<ReservationSeries, 'id' | 'created_at' | 'updated_at' | 'status'>;
+
+    const result = await reservationSeriesService.createSeries(seriesData);
+
+    expect(inserted[0]).toMatchObject({ dias_semana: [4], status: 'active' });
+    expect(result.data!.reservations.map(reservation => reservation.reservation_date)).toEqual(['2026-10-22', '2026-10-29']);
+  });
+});
@@ -0,0 +1,49 @@
+import { ReservationStatus } from '../../types';
+import { RESERVATION_STATUS_TRANSITIONS } from '../reservationService';
+
+const STATUSES = Object.keys(RESERVATION_STATUS_TRANSITIONS) as ReservationStatus[];
+
+describe('RESERVATION_STATUS_TRANSITIONS', () => {
+  it('follows the pending → confirmed → seated → completed lifecycle', () => {
+    expect(RESERVATION_STATUS_TRANSITIONS.pending).toContain('confirmed');
+    expect(RESERVATION_STATUS_TRANSITIONS.confirmed).toContain('seated');
+    expect(RESERVATION_STATUS_TRANSITIONS.seated).toContain('completed');
+  });
+
+  it('lets only reservations not yet seated be canceled or marked as no-show', () => {
+    for (const status of STATUSES) {
+      const exits = RESERVATION_STATUS_TRANSITIONS[status];
+      const allowed = status === 'pending' || status === 'confirmed';
+      expect(exits.includes('canceled')).toBe(allowed);
+      expect(exits.includes('no_show')).toBe(allowed);
+    }
+  });
+
+  it('does not skip confirmation or seating', () => {
+    expect(RESERVATION_STATUS_TRANSITIONS.pending).not.toContain('seated');
+    expect(RESERVATION_STATUS_TRANSITIONS.pending).not.toContain('completed');
+    expect(RESERVATION_STATUS_TRANSITIONS.confirmed).not.toContain('completed');
+  });
+
+  it('never moves back or to the same status', () => {
+    for (const status of STATUSES) {
+      expect(RESERVATION_STATUS_TRANSITIONS[status]).not.toContain(status);
+      expect(RESERVATION_STATUS_TRANSITIONS[status]).not.toContain('pending');
+    }
+    expect(RESERVATION_STATUS_TRANSITIONS.seated).not.toContain('confirmed');
+  });
+
+  it('ends in completed, canceled and no_show', () => {
+    expect(RESERVATION_STATUS_TRANSITIONS.completed).toEqual([]);
+    expect(RESERVATION_STATUS_TRANSITIONS.canceled).toEqual([]);
+    expect(RESERVATION_STATUS_TRANSITIONS.no_show).toEqual([]);
+  });
+
+  it('only targets known statuses', () => {
+    for (const status of STATUSES) {
+      for (const next of RESERVATION_STATUS_TRANSITIONS[status]) {
+        expect(STATUSES).toContain(next);
+      }
+    }
+  });
+});
@@ -0,0 +1,32 @@
+import { mergeSettings } from '../reservationSettingsService';
+
+describe('mergeSettings', () => {
+  const current = {
+    default_duration_minutes: 120,
+    duration_rules: [{ name: 'Almoço', duration_minutes: 75, start_time: '11:00', end_time: '15:00' }],
+    no_show_grace_minutes: 15
+  };
+
+  it('replaces only the groups sent in the patch', () => {
+    expect(mergeSettings(current, { pacing_rules: [{ interval_minutes: 15, max_reservations: 4 }] })).toEqual({
+      ...current,
+      pacing_rules: [{ interval_minutes: 15, max_reservations: 4 }]
+    });
+  });
+
+  it('replaces a group as a whole instead of merging its rules', () => {
+    const rules = [{ name: 'Jantar 6+', duration_minutes: 150, min_party_size: 6 }];
+    expect(mergeSettings(current, { duration_rules: rules }).duration_rules).toEqual(rules);
+  });
+
+  it('keeps groups the patch leaves undefined', () => {
+    expect(mergeSettings(current, { default_duration_minutes: undefined, no_show_grace_minutes: 20 })).toEqual({
+      ...current,
+      no_show_grace_minutes: 20
+    });
+  });
+
+  it('clears a group sent as an empty list', () => {
+    expect(mergeSettings(current, { duration_rules: [] }).duration_rules).toEqual([]);
+  });
+});
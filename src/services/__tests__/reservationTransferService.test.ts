@@ -0,0 +1,106 @@
+import { createError } from '../../middleware/errorHandler';
+import reservationTransferService, { normalizeImportDate, parseCsv } from '../reservationTransferService';
+import availabilityService from '../availabilityService';
+import reservationService from '../reservationService';
+import reservationSettingsService from '../reservationSettingsService';
+import { AreaService } from '../areaService';
+import { TableService } from '../tableService';
+
+describe('parseCsv', () => {
+  it('keeps delimiters, doubled quotes and line breaks inside quoted cells', () => {
+    expect(parseCsv('name,notes\n"Silva, Ana","Mesa ""perto"" da janela\nsem glúten"\n')).toEqual([
+      ['name', 'notes'],
+      ['Silva, Ana', 'Mesa "perto" da janela\nsem glúten']
+    ]);
+  });
+
+  it('detects the semicolon delimiter from the header', () => {
+    expect(parseCsv('name;phone\r\nAna;"11 9999-0000; ramal 2"\r\n')).toEqual([
+      ['name', 'phone'],
+      ['Ana', '11 9999-0000; ramal 2']
+    ]);
+  });
+
+  it('drops the BOM and blank lines', () => {
+    expect(parseCsv('﻿name,phone\n\n,\nAna,123')).toEqual([['name', 'phone'], ['Ana', '123']]);
+  });
+
+  it('keeps a quote inside an unquoted cell as text', () => {
+    expect(parseCsv('name,notes\nAna,mesa 5" perto\nBia,ok\n')).toEqual([
+      ['name', 'notes'],
+      ['Ana', 'mesa 5" perto'],
+      ['Bia', 'ok']
+    ]);
+  });
+
+  it('keeps text following a closing quote in the same cell', () => {
+    expect(parseCsv('name,notes\n"Ana" Silva,ok\n')).toEqual([['name', 'notes'], ['Ana Silva', 'ok']]);
+  });
+
+  it('rejects a quote that is never closed', () => {
+    expect(() => parseCsv('name,notes\nAna,ok\n"Bia,sem fim\nCaio,ok\n')).toThrow(
+      'Malformed CSV: the quote opened in row 3 is never closed'
+    );
+  });
+});
+
+describe('normalizeImportDate', () => {
+  it('keeps ISO dates', () => {
+    expect(normalizeImportDate('2026-10-19')).toBe('2026-10-19');
+  });
+
+  it('converts Brazilian dates, with or without leading zeros', () => {
+    expect(normalizeImportDate(' 19/10/2026 ')).toBe('2026-10-19');
+    expect(normalizeImportDate('1/2/2026')).toBe('2026-02-01');
+  });
+
+  it('returns impossible or unknown dates trimmed, for validation to reject', () => {
+    expect(normalizeImportDate('31/02/2026')).toBe('31/02/2026');
+    expect(normalizeImportDate('2026-13-01')).toBe('2026-13-01');
+    expect(normalizeImportDate(' 19-10-2026')).toBe('19-10-2026');
+    expect(normalizeImportDate('')).toBe('');
+  });
+});
+
+describe('importReservations dry run', () => {
+  const csv = (status: string) => `customer_name,number_of_people,reservation_date,start_time,status\nAna,2,2099-01-01,20:00,${status}\n`;
+
+  beforeEach(() => {
+    jest.spyOn(TableService, 'getTablesByRestaurant').mockResolvedValue([]);
+    jest.spyOn(AreaService, 'getAreasByRestaurant').mockResolvedValue([]);
+    jest.spyOn(reservationSettingsService, 'getSettings').mockResolvedValue({});
+    jest.spyOn(availabilityService, 'assertWithinOpeningHours').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rejects statuses a reservation cannot be created with', async () => {
+    const result = await reservationTransferService.importReservations('restaurant-1', csv('completed'), { dryRun: true });
+
+    expect(result.data!.rows).toEqual([
+      expect.objectContaining({ row: 2, status: 'invalid', code: 'INVALID_STATUS_TRANSITION' })
+    ]);
+  });
+
+  it('rejects rows on days the restaurant is closed', async () => {
+    jest.spyOn(availabilityService, 'assertWithinOpeningHours')
+      .mockRejectedValue(createError('The restaurant is closed on 2099-01-01', 400, 'RESTAURANT_CLOSED'));
+
+    const result = await reservationTransferService.importReservations('restaurant-1', csv('confirmed'), { dryRun: true });
+
+    expect(result.data!.rows).toEqual([
+      expect.objectContaining({ row: 2, status: 'invalid', code: 'RESTAURANT_CLOSED' })
+    ]);
+  });
+
+  it('saves nothing for rows that would be imported', async () => {
+    const create = jest.spyOn(reservationService, 'createReservation');
+
+    const result = await reservationTransferService.importReservations('restaurant-1', csv('confirmed'), { dryRun: true });
+
+    expect(result.data!.rows).toEqual([{ row: 2, status: 'valid' }]);
+    expect(create).not.toHaveBeenCalled();
+  });
+});
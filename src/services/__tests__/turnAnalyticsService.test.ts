@@ -0,0 +1,40 @@
+import { closestArrival, summarizeTurns } from '../turnAnalyticsService';
+
+describe('summarizeTurns', () => {
+  it('reports no averages without turns', () => {
+    expect(summarizeTurns([])).toEqual({ turns: 0, average_dwell_minutes: null, median_dwell_minutes: null });
+  });
+
+  it('rounds the average to one decimal', () => {
+    expect(summarizeTurns([60, 70, 75])).toEqual({ turns: 3, average_dwell_minutes: 68.3, median_dwell_minutes: 70 });
+  });
+
+  it('takes the mean of the two middle dwells for an even count', () => {
+    expect(summarizeTurns([120, 45, 90, 60]).median_dwell_minutes).toBe(75);
+  });
+});
+
+describe('closestArrival', () => {
+  const arrivals = [
+    { at: 1200, party_size: 2 },
+    { at: 1260, party_size: 4 },
+    { at: 1290, party_size: 6 }
+  ];
+
+  it('picks the arrival nearest to the start of the turn', () => {
+    expect(closestArrival(arrivals, 1280, 90)).toEqual({ at: 1290, party_size: 6 });
+  });
+
+  it('ignores arrivals further than the allowed distance', () => {
+    expect(closestArrival(arrivals, 1400, 90)).toBeNull();
+    expect(closestArrival(arrivals, 1400, 110)).toEqual({ at: 1290, party_size: 6 });
+  });
+
+  it('keeps the arrival listed first on a tie', () => {
+    expect(closestArrival(arrivals, 1230, 90)).toEqual({ at: 1200, party_size: 2 });
+  });
+
+  it('finds nothing without arrivals', () => {
+    expect(closestArrival(undefined, 1200, 90)).toBeNull();
+  });
+});
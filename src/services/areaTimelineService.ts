@@ -0,0 +1,423 @@
+import { supabase } from '../config/database';
+import {
+  ApiResponse,
+  AreaTimeline,
+  BlockedDate,
+  Reservation,
+  TableCombination,
+  TableTimeline,
+  TableWithArea,
+  TimelineBlock,
+  TimelineConflict,
+  TimelineEntry,
+  TimelineGap,
+  TimelineMove,
+  TimelineMoveCheck,
+  ReservationSettings,
+  WaitingList
+} from '../types';
+import { createError, AppError } from '../middleware/errorHandler';
+import availabilityService, {
+  TimeRange,
+  addMinutesToTime,
+  getServiceWindows,
+  minutesToTime,
+  rangesConflict,
+  rangesOverlap,
+  resolveReservationDuration,
+  resolveTurnoverBuffer,
+  timeToMinutes,
+  toTimeRange
+} from './availabilityService';
+import reservationService from './reservationService';
+import reservationSettingsService from './reservationSettingsService';
+import floorPlanService, { applyLayout } from './floorPlanService';
+import { AreaService } from './areaService';
+import { TableService } from './tableService';
+import { localNow, resolveTimezone, startOfLocalDay } from './restaurantTimeService';
+import moment from 'moment';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Canceladas e no-shows não ocupam a mesa; concluídas continuam na linha do tempo
+const HIDDEN_RESERVATION_STATUSES = ['canceled', 'no_show'];
+
+type TimelineReservationRow = Pick<
+  Reservation,
+  'id' | 'table_id' | 'area_id' | 'start_time' | 'end_time' | 'customer_name' | 'number_of_people' | 'status' | 'is_overbooked'
+> & { table_combination: Pick<TableCombination, 'id' | 'name' | 'table_ids'> | null };
+
+// Walk-ins são buscados pela mesa e pelo horário em que sentaram, então sempre têm os dois
+type TimelineWalkInRow = Pick<WaitingList, 'id' | 'customer_name' | 'party_size' | 'status'> & { table_id: string; updated_at: string };
+
+interface TimelineItem {
+  entry: TimelineEntry;
+  range: TimeRange;
+}
+
+interface TimelineDay {
+  area: { id: string; name: string };
+  tables: TableWithArea[];
+  windows: TimeRange[] | undefined;
+  buffer: number;
+  settings: ReservationSettings['settings'];
+  blocks: BlockedDate[];
+  itemsByTable: Map<string, TimelineItem[]>;
+  unassigned: TimelineEntry[];
+}
+
+/**
+ * Time range covered by a blocked date entry; full-day blocks cover the whole
+ * day, past midnight included
+ */
+function blockRange(block: BlockedDate): TimeRange | null {
+  if (block.is_full_day) return { start: 0, end: MINUTES_PER_DAY * 2 };
+  if (block.init_time && block.end_time) return toTimeRange(block.init_time, block.end_time);
+  return null;
+}
+
+/**
+ * Parts of the windows not covered by any occupied range
+ */
+export function findFreeGaps(windows: TimeRange[], occupied: TimeRange[]): TimeRange[] {
+  const sorted = [...occupied].sort((a, b) => a.start - b.start);
+  const gaps: TimeRange[] = [];
+
+  for (const window of windows) {
+    let cursor = window.start;
+    for (const range of sorted) {
+      if (range.end <= cursor || range.start >= window.end) continue;
+      if (range.start > cursor) gaps.push({ start: cursor, end: range.start });
+      cursor = Math.max(cursor, range.end);
+      if (cursor >= window.end) break;
+    }
+    if (cursor < window.end) gaps.push({ start: cursor, end: window.end });
+  }
+
+  return gaps;
+}
+
+/**
+ * Gantt-style view of an area for one day: every table with its reservations,
+ * seated walk-ins and blocks, and the free gaps left between them, so hosts
+ * can drag bookings between tables with the same conflict rules as the
+ * reservation API.
+ */
+export class AreaTimelineService {
+  async getAreaTimeline(restaurantId: string, areaId: string, date: string): Promise<ApiResponse<AreaTimeline>> {
+    try {
+      const day = await this.loadDay(restaurantId, areaId, date);
+
+      const tables: TableTimeline[] = day.tables.map(table => {
+        const items = day.itemsByTable.get(table.id) || [];
+        const blocked = day.blocks.map(block => ({ block, range: blockRange(block) }));
+
+        // A mesa só fica livre depois do intervalo de limpeza de cada ocupação
+        const occupied = [
+          ...items.map(item => ({ start: item.range.start, end: item.range.end + day.buffer })),
+          ...blocked.flatMap(({ range }) => (range ? [range] : []))
+        ];
+        const gaps: TimelineGap[] = findFreeGaps(day.windows || [{ start: 0, end: MINUTES_PER_DAY }], occupied)
+          .map(gap => ({
+            start_time: minutesToTime(gap.start),
+            end_time: minutesToTime(gap.end),
+            minutes: gap.end - gap.start
+          }));
+
+        return {
+          table: {
+            id: table.id,
+            number: table.number,
+            name: table.name,
+            capacity: table.capacity,
+            status: table.status
+          },
+          entries: items.map(item => item.entry),
+          blocked: blocked.map(({ block }): TimelineBlock => ({
+            id: block.id,
+            reason: block.reason,
+            is_full_day: block.is_full_day,
+            start_time: block.is_full_day ? null : block.init_time || null,
+            end_time: block.is_full_day ? null : block.end_time || null
+          })),
+          free_gaps: gaps
+        };
+      });
+
+      return {
+        success: true,
+        data: {
+          date,
+          area: day.area,
+          service_windows: day.windows
+            ? day.windows.map(window => ({ start_time: minutesToTime(window.start), end_time: minutesToTime(window.end) }))
+            : null,
+          turnover_buffer_minutes: day.buffer,
+          tables,
+          unassigned: day.unassigned
+        }
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to build area timeline: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Check a drag-and-drop move of a reservation to a table of the area,
+   * optionally at a new start time. Without an end time the reservation keeps
+   * its length. Conflicts list everything that keeps the move from being saved.
+   */
+  async checkMove(restaurantId: string, areaId: string, move: TimelineMove): Promise<ApiResponse<TimelineMoveCheck>> {
+    try {
+      const { data: reservation, error } = await supabase
+        .from('reservations')
+        .select('id, reservation_date, start_time, end_time, number_of_people, status')
+        .eq('id', move.reservation_id)
+        .eq('restaurant_id', restaurantId)
+        .maybeSingle();
+
+      if (error) throw createError(error.message, 400);
+      if (!reservation) throw createError('Reservation not found', 404);
+      if (HIDDEN_RESERVATION_STATUSES.includes(reservation.status) || reservation.status === 'completed') {
+        throw createError(`A ${reservation.status} reservation cannot be moved`, 400);
+      }
+
+      const day = await this.loadDay(restaurantId, areaId, reservation.reservation_date);
+
+      const table = day.tables.find(candidate => candidate.id === move.table_id);
+      if (!table) throw createError('Table not found in this area', 404);
+
+      const startTime = move.start_time || reservation.start_time.slice(0, 5);
+      const current = toTimeRange(
+        reservation.start_time,
+        reservation.end_time,
+        resolveReservationDuration(day.settings, {
+          date: reservation.reservation_date,
+          start_time: reservation.start_time,
+          number_of_people: reservation.number_of_people,
+          area_id: areaId
+        })
+      );
+      const endTime = move.end_time || addMinutesToTime(startTime, current.end - current.start);
+      const range = toTimeRange(startTime, endTime);
+
+      const conflicts: TimelineConflict[] = [];
+
+      if (reservation.number_of_people > table.capacity) {
+        conflicts.push({
+          type: 'capacity',
+          message: `Party of ${reservation.number_of_people} exceeds the table capacity (${table.capacity})`
+        });
+      }
+
+      if (
+        startTime !== reservation.start_time.slice(0, 5) &&
+        day.windows &&
+        !day.windows.some(window => range.start >= window.start && range.start < window.end)
+      ) {
+        conflicts.push({ type: 'closed', message: `The restaurant is not open at ${startTime}` });
+      }
+
+      for (const block of day.blocks) {
+        const blocked = blockRange(block);
+        if (blocked && rangesOverlap(blocked, range)) {
+          conflicts.push({
+            type: 'blocked',
+            id: block.id,
+            message: block.reason ? `Area blocked: ${block.reason}` : 'Area blocked',
+            start_time: block.is_full_day ? null : block.init_time || null,
+            end_time: block.is_full_day ? null : block.end_time || null
+          });
+        }
+      }
+
+      for (const item of day.itemsByTable.get(table.id) || []) {
+        if (item.entry.id !== reservation.id && rangesConflict(item.range, range, day.buffer)) {
+          conflicts.push({
+            type: item.entry.type,
+            id: item.entry.id,
+            message: `Overlaps ${item.entry.customer_name} (${item.entry.start_time} - ${item.entry.end_time})`,
+            start_time: item.entry.start_time,
+            end_time: item.entry.end_time
+          });
+        }
+      }
+
+      return {
+        success: true,
+        data: {
+          valid: conflicts.length === 0,
+          reservation_id: reservation.id,
+          table_id: table.id,
+          start_time: startTime,
+          end_time: endTime,
+          conflicts
+        }
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to check timeline move: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Check the move and, when it has no conflicts, save it through the
+   * reservation update so the change log, table status and real-time events
+   * follow as usual
+   */
+  async moveReservation(
+    restaurantId: string,
+    areaId: string,
+    move: TimelineMove,
+    changedBy?: string
+  ): Promise<ApiResponse<TimelineMoveCheck>> {
+    const check = await this.checkMove(restaurantId, areaId, move);
+    if (move.dry_run || !check.data!.valid) return check;
+
+    const result = await reservationService.updateReservation(
+      move.reservation_id,
+      {
+        table_id: check.data!.table_id,
+        start_time: check.data!.start_time,
+        end_time: check.data!.end_time
+      },
+      changedBy,
+      { autoAssign: false }
+    );
+
+    return {
+      success: true,
+      data: { ...check.data!, reservation: result.data },
+      message: 'Reservation moved successfully'
+    };
+  }
+
+  private async loadDay(restaurantId: string, areaId: string, date: string): Promise<TimelineDay> {
+    const area = await AreaService.getAreaById(areaId);
+    if (!area || area.restaurant_id !== restaurantId) throw createError('Area not found', 404);
+
+    const { data: restaurant, error: restaurantError } = await supabase
+      .from('restaurants')
+      .select('id, opening_hours, opening_hours_overrides, timezone')
+      .eq('id', restaurantId)
+      .single();
+
+    if (restaurantError || !restaurant) throw createError('Restaurant not found', 404);
+
+    const timezone = resolveTimezone(restaurant.timezone);
+    const nextDate = moment(date, 'YYYY-MM-DD').add(1, 'day').format('YYYY-MM-DD');
+
+    const [settings, allTables, blocks, layouts] = await Promise.all([
+      reservationSettingsService.getSettings(restaurantId),
+      TableService.getTablesByArea(areaId),
+      availabilityService.getBlockedDates(restaurantId, date),
+      floorPlanService.getScheduledLayouts(restaurantId, date, areaId)
+    ]);
+    // Mesas do layout em vigor na data
+    const tables = applyLayout(allTables, layouts).filter(table => table.is_active);
+    const tableIds = tables.map(table => table.id);
+
+    const [reservationsResult, walkInsResult] = await Promise.all([
+      supabase
+        .from('reservations')
+        .select('id, table_id, area_id, start_time, end_time, customer_name, number_of_people, status, is_overbooked, table_combination:table_combinations(id, name, table_ids)')
+        .eq('restaurant_id', restaurantId)
+        .eq('reservation_date', date)
+        .not('status', 'in', `(${HIDDEN_RESERVATION_STATUSES.join(',')})`)
+        .order('start_time', { ascending: true })
+        .returns<TimelineReservationRow[]>(),
+      // Walk-ins sentados pela lista de espera no dia local do restaurante
+      tableIds.length > 0
+        ? supabase
+          .from('waiting_list')
+          .select('id, table_id, customer_name, party_size, status, updated_at')
+          .eq('restaurant_id', restaurantId)
+          .eq('status', 'seated')
+          .in('table_id', tableIds)
+          .gte('updated_at', startOfLocalDay(date, timezone))
+          .lt('updated_at', startOfLocalDay(nextDate, timezone))
+          .returns<TimelineWalkInRow[]>()
+        : Promise.resolve({ data: [], error: null })
+    ]);
+
+    if (reservationsResult.error) throw createError(reservationsResult.error.message, 400);
+    if (walkInsResult.error) throw createError(walkInsResult.error.message, 400);
+
+    const durationFor = (startTime: string, people: number) => resolveReservationDuration(settings, {
+      date,
+      start_time: startTime,
+      number_of_people: people,
+      area_id: areaId
+    });
+
+    const itemsByTable = new Map<string, TimelineItem[]>(tableIds.map(id => [id, []]));
+    const unassigned: TimelineEntry[] = [];
+
+    for (const reservation of reservationsResult.data || []) {
+      const range = toTimeRange(reservation.start_time, reservation.end_time, durationFor(reservation.start_time, reservation.number_of_people));
+      const entry: TimelineEntry = {
+        type: 'reservation',
+        id: reservation.id,
+        customer_name: reservation.customer_name,
+        number_of_people: reservation.number_of_people,
+        start_time: minutesToTime(range.start),
+        end_time: minutesToTime(range.end),
+        status: reservation.status,
+        table_combination: reservation.table_combination
+          ? { id: reservation.table_combination.id, name: reservation.table_combination.name }
+          : null,
+        is_overbooked: !!reservation.is_overbooked
+      };
+
+      const occupied = reservation.table_combination?.table_ids || (reservation.table_id ? [reservation.table_id] : []);
+      if (occupied.length === 0) {
+        if (reservation.area_id === areaId) unassigned.push(entry);
+        continue;
+      }
+      for (const tableId of occupied) {
+        itemsByTable.get(tableId)?.push({ entry, range });
+      }
+    }
+
+    for (const walkIn of walkInsResult.data || []) {
+      const startTime = localNow(timezone, new Date(walkIn.updated_at)).format('HH:mm');
+      const start = timeToMinutes(startTime);
+      const range = { start, end: start + durationFor(startTime, walkIn.party_size) };
+      itemsByTable.get(walkIn.table_id)?.push({
+        entry: {
+          type: 'walk_in',
+          id: walkIn.id,
+          customer_name: walkIn.customer_name,
+          number_of_people: walkIn.party_size,
+          start_time: minutesToTime(range.start),
+          end_time: minutesToTime(range.end),
+          status: walkIn.status,
+          estimated_end: true
+        },
+        range
+      });
+    }
+
+    for (const items of itemsByTable.values()) {
+      items.sort((a, b) => a.range.start - b.range.start);
+    }
+
+    return {
+      area: { id: area.id, name: area.name },
+      tables,
+      windows: getServiceWindows(restaurant.opening_hours, restaurant.opening_hours_overrides, date),
+      buffer: resolveTurnoverBuffer(settings, areaId),
+      settings,
+      blocks: blocks.filter(block => !block.area_id || block.area_id === areaId),
+      itemsByTable,
+      unassigned
+    };
+  }
+}
+
+export default new AreaTimelineService();
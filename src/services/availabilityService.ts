@@ -0,0 +1,1055 @@
+import { supabase } from '../config/database';
+import {
+  AvailabilityQuery,
+  AvailabilitySlot,
+  AvailableCombination,
+  AvailableTable,
+  BlockedDate,
+  OpeningHours,
+  OpeningHoursOverride,
+  OpeningShift,
+  ReservationDurationRule,
+  ReservationOverbookingReport,
+  ReservationOverbookingUsage,
+  ReservationPacingRule,
+  ReservationPacingUsage,
+  ReservationSettings,
+  Reservation,
+  TableCombination
+} from '../types';
+import { createError, AppError } from '../middleware/errorHandler';
+import reservationSettingsService from './reservationSettingsService';
+import floorPlanService, { applyLayout } from './floorPlanService';
+import moment from 'moment';
+
+// Reservations in these statuses hold their table
+export const ACTIVE_RESERVATION_STATUSES = ['pending', 'confirmed', 'seated'];
+export const DEFAULT_RESERVATION_DURATION_MINUTES = 120;
+export const DEFAULT_SLOT_INTERVAL_MINUTES = 30;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const WEEKDAY_KEYS: string[][] = [
+  ['sunday', 'domingo', '0'],
+  ['monday', 'segunda', '1'],
+  ['tuesday', 'terca', 'terça', '2'],
+  ['wednesday', 'quarta', '3'],
+  ['thursday', 'quinta', '4'],
+  ['friday', 'sexta', '5'],
+  ['saturday', 'sabado', 'sábado', '6']
+];
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface BookedInterval {
+  id: string;
+  table_id: string;
+  start_time: string;
+  end_time: string;
+}
+
+// Reservation row read by getBookedIntervals, with the combination it sits on
+type BookedReservationRow = Pick<Reservation, 'id' | 'table_id' | 'area_id' | 'start_time' | 'end_time' | 'number_of_people'> & {
+  table_combination: Pick<TableCombination, 'table_ids'> | null;
+};
+
+export interface SeatingRequest {
+  date: string;
+  start_time: string;
+  end_time?: string;
+  number_of_people: number;
+  area_id?: string;
+}
+
+export interface TableAssignment {
+  table_id: string;
+  area_id: string;
+  table_combination_id?: string;
+  end_time: string;
+  reason: string;
+}
+
+export interface DurationContext {
+  date: string;
+  start_time: string;
+  number_of_people: number;
+  area_id?: string | null;
+}
+
+interface DaySchedule {
+  bookingsByTable: Map<string, BookedInterval[]>;
+  blocks: BlockedDate[];
+  settings: ReservationSettings['settings'];
+}
+
+type RangeForArea = (areaId?: string | null) => TimeRange;
+
+export interface PacingBooking {
+  id: string;
+  area_id?: string | null;
+  start_time: string;
+  number_of_people: number;
+}
+
+/**
+ * Convert a HH:MM(:SS) time into minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+/**
+ * Convert minutes since midnight into HH:MM, wrapping past midnight
+ */
+export function minutesToTime(minutes: number): string {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hour = Math.floor(normalized / 60);
+  const minute = normalized % 60;
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+export function addMinutesToTime(time: string, minutes: number): string {
+  return minutesToTime(timeToMinutes(time) + minutes);
+}
+
+/**
+ * Build a minute range from a start/end pair. An end at or before the start
+ * is read as the next day, so 23:00-01:00 spans midnight.
+ */
+export function toTimeRange(
+  startTime: string,
+  endTime?: string | null,
+  durationMinutes: number = DEFAULT_RESERVATION_DURATION_MINUTES
+): TimeRange {
+  const start = timeToMinutes(startTime);
+  let end = endTime ? timeToMinutes(endTime) : start + durationMinutes;
+  if (end <= start) {
+    end += MINUTES_PER_DAY;
+  }
+  return { start, end };
+}
+
+export function rangesOverlap(a: TimeRange, b: TimeRange): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Whether two reservations on the same table clash once the table is held
+ * bufferMinutes after each one ends for cleaning and reset
+ */
+export function rangesConflict(a: TimeRange, b: TimeRange, bufferMinutes: number = 0): boolean {
+  return rangesOverlap({ start: a.start, end: a.end + bufferMinutes }, { start: b.start, end: b.end + bufferMinutes });
+}
+
+export function hasTimeOverlap(start1: string, end1: string, start2: string, end2: string, bufferMinutes: number = 0): boolean {
+  return rangesConflict(toTimeRange(start1, end1), toTimeRange(start2, end2), bufferMinutes);
+}
+
+/**
+ * Shifts configured for one calendar day: the override for that date when there
+ * is one, otherwise the weekday entry. Returns undefined when the restaurant has
+ * no opening hours at all and an empty list when it is closed.
+ */
+function getConfiguredShifts(
+  openingHours: OpeningHours | null | undefined,
+  overrides: OpeningHoursOverride[] | null | undefined,
+  date: string
+): OpeningShift[] | undefined {
+  const override = overrides?.find(candidate => candidate.date === date);
+  if (override) {
+    return override.closed ? [] : override.shifts || [];
+  }
+
+  if (!openingHours || Object.keys(openingHours).length === 0) {
+    return undefined;
+  }
+
+  const key = WEEKDAY_KEYS[moment(date, 'YYYY-MM-DD').day()].find(candidate => openingHours[candidate]);
+  const day = key ? openingHours[key] : undefined;
+
+  if (!day || day.closed) {
+    return [];
+  }
+  if (day.shifts?.length) {
+    return day.shifts;
+  }
+  return day.open && day.close ? [{ open: day.open, close: day.close }] : [];
+}
+
+/**
+ * Windows of the calendar day in which a reservation may start. Overnight shifts
+ * are split at midnight, so the tail of the previous day's late shift counts for
+ * the early hours of this date. Returns undefined when no hours are configured.
+ */
+export function getServiceWindows(
+  openingHours: OpeningHours | null | undefined,
+  overrides: OpeningHoursOverride[] | null | undefined,
+  date: string
+): TimeRange[] | undefined {
+  const shifts = getConfiguredShifts(openingHours, overrides, date);
+  if (shifts === undefined) {
+    return undefined;
+  }
+
+  const previousDate = moment(date, 'YYYY-MM-DD').subtract(1, 'day').format('YYYY-MM-DD');
+  const windows: TimeRange[] = [];
+
+  for (const shift of getConfiguredShifts(openingHours, overrides, previousDate) || []) {
+    const range = toTimeRange(shift.open, shift.close);
+    if (range.end > MINUTES_PER_DAY) {
+      windows.push({ start: 0, end: range.end - MINUTES_PER_DAY });
+    }
+  }
+  for (const shift of shifts) {
+    const range = toTimeRange(shift.open, shift.close);
+    windows.push({ start: range.start, end: Math.min(range.end, MINUTES_PER_DAY) });
+  }
+
+  return windows.sort((a, b) => a.start - b.start);
+}
+
+// Nome do turno pelo horário de início
+export function getServicePeriodName(start: number): string {
+  if (start < 6 * 60) return 'Madrugada';
+  if (start < 11 * 60) return 'Café da manhã';
+  if (start < 16 * 60) return 'Almoço';
+  return 'Jantar';
+}
+
+/**
+ * Whether the start time falls inside a time-of-day window, windows that cross
+ * midnight included
+ */
+function isTimeWithin(time: string, windowStart: string, windowEnd: string): boolean {
+  const window = toTimeRange(windowStart, windowEnd);
+  const minutes = timeToMinutes(time);
+  return (minutes >= window.start && minutes < window.end) ||
+    (minutes + MINUTES_PER_DAY >= window.start && minutes + MINUTES_PER_DAY < window.end);
+}
+
+function durationRuleMatches(rule: ReservationDurationRule, context: DurationContext): boolean {
+  if (rule.min_party_size !== undefined && context.number_of_people < rule.min_party_size) return false;
+  if (rule.max_party_size !== undefined && context.number_of_people > rule.max_party_size) return false;
+  if (rule.weekdays?.length && !rule.weekdays.includes(moment(context.date, 'YYYY-MM-DD').day())) return false;
+  if (rule.area_id && rule.area_id !== context.area_id) return false;
+  if (rule.start_time && rule.end_time && !isTimeWithin(context.start_time, rule.start_time, rule.end_time)) return false;
+  return true;
+}
+
+function durationRuleSpecificity(rule: ReservationDurationRule): number {
+  return [
+    rule.min_party_size !== undefined,
+    rule.max_party_size !== undefined,
+    !!rule.weekdays?.length,
+    !!rule.area_id,
+    !!(rule.start_time && rule.end_time)
+  ].filter(Boolean).length;
+}
+
+/**
+ * Duration of a reservation under the restaurant's rules. The most specific
+ * matching rule wins (ties go to the one listed first); without a match the
+ * restaurant default, or 2 hours, applies.
+ */
+export function resolveReservationDuration(
+  settings: ReservationSettings['settings'],
+  context: DurationContext
+): number {
+  let best: ReservationDurationRule | undefined;
+  for (const rule of settings.duration_rules || []) {
+    if (durationRuleMatches(rule, context) && (!best || durationRuleSpecificity(rule) > durationRuleSpecificity(best))) {
+      best = rule;
+    }
+  }
+  return best?.duration_minutes ?? settings.default_duration_minutes ?? DEFAULT_RESERVATION_DURATION_MINUTES;
+}
+
+/**
+ * Turnover buffer of an area: its own entry, otherwise the restaurant-wide one
+ * (an entry without area_id), otherwise none
+ */
+export function resolveTurnoverBuffer(settings: ReservationSettings['settings'], areaId?: string | null): number {
+  const buffers = settings.turnover_buffers || [];
+  const buffer = buffers.find(candidate => areaId && candidate.area_id === areaId) ||
+    buffers.find(candidate => !candidate.area_id);
+  return buffer?.minutes || 0;
+}
+
+/**
+ * Overbooking percentage of the date's weekday; the first matching rule wins
+ */
+export function resolveOverbookingPercentage(settings: ReservationSettings['settings'], date: string): number {
+  const weekday = moment(date, 'YYYY-MM-DD').day();
+  return (settings.overbooking_rules || []).find(rule => rule.weekdays.includes(weekday))?.percentage || 0;
+}
+
+/**
+ * Whether a party fits in what is left of the overbooking allowance
+ */
+export function fitsOverbooking(usage: ReservationOverbookingUsage, partySize: number): boolean {
+  return usage.allowed_covers > 0 && usage.overbooked_covers + partySize <= usage.allowed_covers;
+}
+
+/**
+ * Highest number of overbooked covers in the restaurant at the same time
+ */
+export function getPeakCovers(bookings: { start_time: string; end_time?: string | null; number_of_people: number }[]): number {
+  const ranges = bookings.map(booking => ({ ...toTimeRange(booking.start_time, booking.end_time), covers: booking.number_of_people || 0 }));
+  return ranges.reduce((peak, range) => Math.max(
+    peak,
+    ranges
+      .filter(other => other.start <= range.start && range.start < other.end)
+      .reduce((total, other) => total + other.covers, 0)
+  ), 0);
+}
+
+/**
+ * How much of each pacing rule is already used in the slot interval containing
+ * the start time. Intervals are aligned to midnight, so a 15-minute rule counts
+ * reservations starting in 19:00-19:14, 19:15-19:29 and so on.
+ */
+export function getPacingUsage(
+  rules: ReservationPacingRule[],
+  bookings: PacingBooking[],
+  startTime: string,
+  excludeReservationId?: string
+): ReservationPacingUsage[] {
+  const start = timeToMinutes(startTime);
+
+  return rules.map(rule => {
+    const slotStart = Math.floor(start / rule.interval_minutes) * rule.interval_minutes;
+    const inSlot = bookings.filter(booking => {
+      if (booking.id === excludeReservationId) return false;
+      if (rule.area_id && booking.area_id !== rule.area_id) return false;
+      const bookingStart = timeToMinutes(booking.start_time);
+      return bookingStart >= slotStart && bookingStart < slotStart + rule.interval_minutes;
+    });
+
+    return {
+      area_id: rule.area_id,
+      interval_minutes: rule.interval_minutes,
+      slot_start: minutesToTime(slotStart),
+      reservations: inSlot.length,
+      covers: inSlot.reduce((total, booking) => total + (booking.number_of_people || 0), 0),
+      max_reservations: rule.max_reservations,
+      max_covers: rule.max_covers
+    };
+  });
+}
+
+/**
+ * Whether one more reservation of the given size would go over the limit
+ */
+export function exceedsPacing(usage: ReservationPacingUsage, partySize: number): boolean {
+  return (
+    (usage.max_reservations !== undefined && usage.reservations + 1 > usage.max_reservations) ||
+    (usage.max_covers !== undefined && usage.covers + partySize > usage.max_covers)
+  );
+}
+
+/**
+ * Restaurant-wide limits plus the limits of the given area, if any
+ */
+export function fitsPacing(usages: ReservationPacingUsage[], partySize: number, areaId?: string | null): boolean {
+  return !usages.some(usage => (!usage.area_id || usage.area_id === areaId) && exceedsPacing(usage, partySize));
+}
+
+/**
+ * Whether a blocked date entry covers the given range (full-day blocks always do)
+ */
+export function isRangeBlocked(block: BlockedDate, range: TimeRange): boolean {
+  if (block.is_full_day) {
+    return true;
+  }
+  if (block.init_time && block.end_time) {
+    return rangesOverlap(toTimeRange(block.init_time, block.end_time), range);
+  }
+  return false;
+}
+
+/**
+ * Whether any booked interval on the table overlaps the given range, keeping
+ * the turnover buffer free after each reservation
+ */
+export function isRangeBooked(
+  bookings: BookedInterval[],
+  range: TimeRange,
+  excludeReservationId?: string,
+  bufferMinutes: number = 0
+): boolean {
+  return bookings.some(booking =>
+    booking.id !== excludeReservationId &&
+    rangesConflict(toTimeRange(booking.start_time, booking.end_time), range, bufferMinutes)
+  );
+}
+
+export class AvailabilityService {
+  /**
+   * Check whether a table is unavailable for the requested date and time, either
+   * because another reservation overlaps or its area is blocked. Without an
+   * end time the duration rules of the table's area decide how long it is held.
+   */
+  async checkTableConflict(
+    tableId: string,
+    request: SeatingRequest,
+    excludeReservationId?: string
+  ): Promise<boolean> {
+    const { data: table, error: tableError } = await supabase
+      .from('tables')
+      .select('id, number, name, capacity, area_id, restaurant_id')
+      .eq('id', tableId)
+      .single();
+
+    if (tableError || !table) {
+      throw createError('Table not found', 404);
+    }
+
+    const settings = await reservationSettingsService.getSettings(table.restaurant_id);
+    const range = this.rangeResolver(settings, request)(table.area_id);
+    const day = await this.getDaySchedule(table.restaurant_id, request.date, [tableId], settings);
+    return !this.isTableFree(table, range, day, excludeReservationId);
+  }
+
+  /**
+   * Same as checkTableConflict, for every member table of a combination
+   */
+  async checkCombinationConflict(
+    combinationId: string,
+    request: SeatingRequest,
+    excludeReservationId?: string
+  ): Promise<boolean> {
+    const { data: combination, error } = await supabase
+      .from('table_combinations')
+      .select('id, name, capacity, area_id, table_ids, restaurant_id')
+      .eq('id', combinationId)
+      .single();
+
+    if (error || !combination) {
+      throw createError('Table combination not found', 404);
+    }
+
+    const settings = await reservationSettingsService.getSettings(combination.restaurant_id);
+    const range = this.rangeResolver(settings, request)(combination.area_id);
+    const day = await this.getDaySchedule(combination.restaurant_id, request.date, combination.table_ids, settings);
+    return !this.isCombinationFree(combination, range, day, excludeReservationId);
+  }
+
+  /**
+   * Reject a reservation date/start time outside the restaurant's service hours.
+   * Restaurants without configured opening hours accept any time.
+   */
+  async assertWithinOpeningHours(restaurantId: string, date: string, startTime: string): Promise<void> {
+    const { data: restaurant, error } = await supabase
+      .from('restaurants')
+      .select('id, opening_hours, opening_hours_overrides')
+      .eq('id', restaurantId)
+      .single();
+
+    if (error || !restaurant) {
+      throw createError('Restaurant not found', 404);
+    }
+
+    const windows = getServiceWindows(restaurant.opening_hours, restaurant.opening_hours_overrides, date);
+    if (windows === undefined) {
+      return;
+    }
+
+    if (windows.length === 0) {
+      throw createError(`The restaurant is closed on ${date}`, 400, 'RESTAURANT_CLOSED');
+    }
+
+    const start = timeToMinutes(startTime);
+    if (!windows.some(window => start >= window.start && start < window.end)) {
+      const hours = windows.map(window => `${minutesToTime(window.start)}-${minutesToTime(window.end)}`).join(', ');
+      throw createError(`Reservations on ${date} must start within opening hours (${hours})`, 400, 'OUTSIDE_OPENING_HOURS');
+    }
+  }
+
+  /**
+   * End time written on a reservation created without one
+   */
+  async resolveEndTime(restaurantId: string, context: DurationContext): Promise<string> {
+    const settings = await reservationSettingsService.getSettings(restaurantId);
+    return addMinutesToTime(context.start_time, resolveReservationDuration(settings, context));
+  }
+
+  /**
+   * Reject a reservation that would push its slot interval over a pacing limit,
+   * either restaurant-wide or for the reservation's area
+   */
+  async assertWithinPacing(restaurantId: string, request: SeatingRequest, excludeReservationId?: string): Promise<void> {
+    const settings = await reservationSettingsService.getSettings(restaurantId);
+    const rules = (settings.pacing_rules || []).filter(rule => !rule.area_id || rule.area_id === request.area_id);
+    if (rules.length === 0) {
+      return;
+    }
+
+    const bookings = await this.getPacingBookings(restaurantId, request.date);
+    const exceeded = getPacingUsage(rules, bookings, request.start_time, excludeReservationId)
+      .find(usage => exceedsPacing(usage, request.number_of_people));
+
+    if (exceeded) {
+      const slotEnd = addMinutesToTime(exceeded.slot_start, exceeded.interval_minutes);
+      const scope = exceeded.area_id ? 'this area' : 'the restaurant';
+      throw createError(
+        `Pacing limit reached for ${scope} between ${exceeded.slot_start} and ${slotEnd} ` +
+        `(${exceeded.reservations} reservations, ${exceeded.covers} covers already booked)`,
+        409,
+        'PACING_LIMIT_EXCEEDED'
+      );
+    }
+  }
+
+  /**
+   * Overbooked covers already in the restaurant during the request against the
+   * allowance of the day: the weekday's percentage of the seating capacity of
+   * every active table
+   */
+  async getOverbookingUsage(
+    restaurantId: string,
+    request: SeatingRequest,
+    excludeReservationId?: string,
+    settings?: ReservationSettings['settings']
+  ): Promise<ReservationOverbookingUsage> {
+    const overbookingSettings = settings || await reservationSettingsService.getSettings(restaurantId);
+    const percentage = resolveOverbookingPercentage(overbookingSettings, request.date);
+    if (percentage <= 0) {
+      return { percentage: 0, seating_capacity: 0, allowed_covers: 0, overbooked_covers: 0 };
+    }
+
+    const [capacity, overbooked] = await Promise.all([
+      this.getSeatingCapacity(restaurantId, request.date),
+      this.getOverbookedReservations(restaurantId, request.date)
+    ]);
+    const range = this.rangeResolver(overbookingSettings, request)(request.area_id);
+
+    return {
+      percentage,
+      seating_capacity: capacity,
+      allowed_covers: Math.floor(capacity * percentage / 100),
+      overbooked_covers: overbooked
+        .filter(reservation =>
+          reservation.id !== excludeReservationId &&
+          rangesOverlap(toTimeRange(reservation.start_time, reservation.end_time), range)
+        )
+        .reduce((total, reservation) => total + (reservation.number_of_people || 0), 0)
+    };
+  }
+
+  /**
+   * Overbooking allowance of a date and the reservations accepted beyond the
+   * seating capacity, with the most overbooked covers at any one time
+   */
+  async getOverbookingReport(restaurantId: string, date: string): Promise<ReservationOverbookingReport> {
+    try {
+      const settings = await reservationSettingsService.getSettings(restaurantId);
+      const percentage = resolveOverbookingPercentage(settings, date);
+      const [capacity, reservations] = await Promise.all([
+        this.getSeatingCapacity(restaurantId, date),
+        this.getOverbookedReservations(restaurantId, date)
+      ]);
+
+      return {
+        date,
+        percentage,
+        seating_capacity: capacity,
+        allowed_covers: Math.floor(capacity * percentage / 100),
+        overbooked_covers: reservations.reduce((total, reservation) => total + (reservation.number_of_people || 0), 0),
+        peak_overbooked_covers: getPeakCovers(reservations),
+        reservations
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to build overbooking report: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * List every bookable start time in the requested window together with the
+   * tables that can seat the party for the whole reservation. Table combinations
+   * are offered for slots where no single table fits. On weekdays with an
+   * overbooking percentage, full slots are still offered, without tables, while
+   * the allowance lasts.
+   */
+  async searchAvailability(restaurantId: string, query: AvailabilityQuery): Promise<AvailabilitySlot[]> {
+    try {
+      const { data: restaurant, error: restaurantError } = await supabase
+        .from('restaurants')
+        .select('id, opening_hours, opening_hours_overrides')
+        .eq('id', restaurantId)
+        .single();
+
+      if (restaurantError || !restaurant) {
+        throw createError('Restaurant not found', 404);
+      }
+
+      const serviceWindows = getServiceWindows(restaurant.opening_hours, restaurant.opening_hours_overrides, query.date);
+      if (serviceWindows?.length === 0) {
+        return [];
+      }
+
+      const [{ tables, combinations }, settings] = await Promise.all([
+        this.getCandidates(restaurantId, query.date, query.number_of_people, query.area_id),
+        reservationSettingsService.getSettings(restaurantId)
+      ]);
+      const overbookingPercentage = resolveOverbookingPercentage(settings, query.date);
+      if (tables.length === 0 && combinations.length === 0 && overbookingPercentage <= 0) {
+        return [];
+      }
+
+      const pacingRules = settings.pacing_rules || [];
+      const [day, pacingBookings, seatingCapacity, overbooked] = await Promise.all([
+        this.getDaySchedule(restaurantId, query.date, this.collectTableIds(tables, combinations), settings),
+        pacingRules.length > 0 ? this.getPacingBookings(restaurantId, query.date) : Promise.resolve([]),
+        overbookingPercentage > 0 ? this.getSeatingCapacity(restaurantId, query.date) : Promise.resolve(0),
+        overbookingPercentage > 0 ? this.getOverbookedReservations(restaurantId, query.date) : Promise.resolve([])
+      ]);
+
+      const interval = query.interval || DEFAULT_SLOT_INTERVAL_MINUTES;
+      const slots: AvailabilitySlot[] = [];
+
+      for (const start of this.getCandidateStarts(query, serviceWindows, interval)) {
+        const rangeFor = this.rangeResolver(settings, {
+          date: query.date,
+          start_time: minutesToTime(start),
+          number_of_people: query.number_of_people
+        });
+
+        // Slot intervals already at their pacing limit are left out, per area when the rule has one
+        const pacing = getPacingUsage(pacingRules, pacingBookings, minutesToTime(start));
+        const withinPacing = (areaId: string) => fitsPacing(pacing, query.number_of_people, areaId);
+
+        const availableTables = tables.filter(table =>
+          withinPacing(table.area_id) && this.isTableFree(table, rangeFor(table.area_id), day)
+        );
+        const availableCombinations = availableTables.length > 0
+          ? []
+          : combinations.filter(combination =>
+            withinPacing(combination.area_id) && this.isCombinationFree(combination, rangeFor(combination.area_id), day)
+          );
+
+        // Sem mesa livre: o overbooking do dia da semana ainda pode aceitar a reserva
+        if (availableTables.length === 0 && availableCombinations.length === 0 && overbookingPercentage > 0) {
+          const range = rangeFor(query.area_id);
+          const overbooking: ReservationOverbookingUsage = {
+            percentage: overbookingPercentage,
+            seating_capacity: seatingCapacity,
+            allowed_covers: Math.floor(seatingCapacity * overbookingPercentage / 100),
+            overbooked_covers: overbooked
+              .filter(reservation => rangesOverlap(toTimeRange(reservation.start_time, reservation.end_time), range))
+              .reduce((total, reservation) => total + (reservation.number_of_people || 0), 0)
+          };
+
+          if (fitsPacing(pacing, query.number_of_people) && fitsOverbooking(overbooking, query.number_of_people)) {
+            slots.push({
+              start_time: minutesToTime(start),
+              end_time: minutesToTime(range.end),
+              tables: [],
+              combinations: [],
+              ...(pacing.length > 0 && { pacing }),
+              overbooking
+            });
+          }
+          continue;
+        }
+
+        if (availableTables.length > 0 || availableCombinations.length > 0) {
+          // Durations can differ per area; the slot reports the longest one offered
+          const end = Math.max(
+            ...[...availableTables, ...availableCombinations].map(option => rangeFor(option.area_id).end)
+          );
+          slots.push({
+            start_time: minutesToTime(start),
+            end_time: minutesToTime(end),
+            tables: availableTables,
+            combinations: availableCombinations,
+            ...(pacing.length > 0 && { pacing })
+          });
+        }
+      }
+
+      return slots;
+    } catch (error) {
+      throw createError(
+        `Failed to search availability: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Pick the best-fitting free table for a party: tables in the preferred area
+   * come first, then the smallest capacity that seats everyone. When no single
+   * table fits, the smallest free combination is used instead.
+   */
+  async findBestTable(
+    restaurantId: string,
+    request: SeatingRequest,
+    excludeReservationId?: string,
+    ignorePacing: boolean = false
+  ): Promise<TableAssignment | null> {
+    const [{ tables, combinations }, settings] = await Promise.all([
+      this.getCandidates(restaurantId, request.date, request.number_of_people),
+      reservationSettingsService.getSettings(restaurantId)
+    ]);
+    if (tables.length === 0 && combinations.length === 0) {
+      return null;
+    }
+
+    const rangeFor = this.rangeResolver(settings, request);
+    const pacingRules = ignorePacing ? [] : (settings.pacing_rules || []).filter(rule => rule.area_id);
+    const [day, pacingBookings] = await Promise.all([
+      this.getDaySchedule(restaurantId, request.date, this.collectTableIds(tables, combinations), settings),
+      pacingRules.length > 0 ? this.getPacingBookings(restaurantId, request.date) : Promise.resolve([])
+    ]);
+
+    // Areas already at their pacing limit are skipped; restaurant-wide limits are checked on save
+    const pacing = getPacingUsage(pacingRules, pacingBookings, request.start_time, excludeReservationId);
+    const withinPacing = (areaId: string) => fitsPacing(pacing, request.number_of_people, areaId);
+
+    const freeTables = tables.filter(table =>
+      withinPacing(table.area_id) && this.isTableFree(table, rangeFor(table.area_id), day, excludeReservationId)
+    );
+    if (freeTables.length > 0) {
+      const { match: table, inPreferredArea } = this.pickPreferred(freeTables, request.area_id);
+      return {
+        table_id: table.id,
+        area_id: table.area_id,
+        end_time: minutesToTime(rangeFor(table.area_id).end),
+        reason: this.describeAssignment(
+          `table ${table.name || table.number}`,
+          `smallest free table seating ${request.number_of_people} (capacity ${table.capacity})`,
+          request.area_id ? inPreferredArea : undefined
+        )
+      };
+    }
+
+    const freeCombinations = combinations.filter(combination =>
+      withinPacing(combination.area_id) &&
+      this.isCombinationFree(combination, rangeFor(combination.area_id), day, excludeReservationId)
+    );
+    if (freeCombinations.length > 0) {
+      const { match: combination, inPreferredArea } = this.pickPreferred(freeCombinations, request.area_id);
+      return {
+        table_id: combination.table_ids[0],
+        area_id: combination.area_id,
+        table_combination_id: combination.id,
+        end_time: minutesToTime(rangeFor(combination.area_id).end),
+        reason: this.describeAssignment(
+          `combination ${combination.name}`,
+          `no single table seats ${request.number_of_people}, smallest free combination (capacity ${combination.capacity})`,
+          request.area_id ? inPreferredArea : undefined
+        )
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Tables in use on the date, smallest first: the floor plan version
+   * scheduled for their area decides which are active, otherwise their own flag
+   */
+  private async getLayoutTables(restaurantId: string, date: string): Promise<AvailableTable[]> {
+    const [{ data, error }, layouts] = await Promise.all([
+      supabase
+        .from('tables')
+        .select('id, number, name, capacity, area_id, is_active')
+        .eq('restaurant_id', restaurantId)
+        .order('capacity', { ascending: true })
+        .order('number', { ascending: true }),
+      floorPlanService.getScheduledLayouts(restaurantId, date)
+    ]);
+
+    if (error) throw createError(error.message, 400);
+
+    return applyLayout(data || [], layouts)
+      .filter(table => table.is_active)
+      .map(table => ({
+        id: table.id,
+        number: table.number,
+        name: table.name,
+        capacity: table.capacity,
+        area_id: table.area_id
+      }));
+  }
+
+  /**
+   * Tables active on the date able to seat the party, and active combinations
+   * of such tables, both smallest first
+   */
+  private async getCandidates(
+    restaurantId: string,
+    date: string,
+    partySize: number,
+    areaId?: string
+  ): Promise<{ tables: AvailableTable[]; combinations: AvailableCombination[] }> {
+    let query = supabase
+      .from('table_combinations')
+      .select('id, name, capacity, area_id, table_ids')
+      .eq('restaurant_id', restaurantId)
+      .eq('is_active', true)
+      .gte('capacity', partySize);
+
+    if (areaId) {
+      query = query.eq('area_id', areaId);
+    }
+
+    const [layoutTables, { data, error }] = await Promise.all([
+      this.getLayoutTables(restaurantId, date),
+      query.order('capacity', { ascending: true })
+    ]);
+
+    if (error) throw createError(error.message, 400);
+
+    // Combinações com alguma mesa fora do layout do dia não são oferecidas
+    const activeIds = new Set(layoutTables.map(table => table.id));
+    return {
+      tables: layoutTables.filter(table => table.capacity >= partySize && (!areaId || table.area_id === areaId)),
+      combinations: (data || []).filter(combination => combination.table_ids.every((id: string) => activeIds.has(id)))
+    };
+  }
+
+  private collectTableIds(tables: AvailableTable[], combinations: AvailableCombination[]): string[] {
+    const ids = new Set(tables.map(t => t.id));
+    for (const combination of combinations) {
+      combination.table_ids.forEach(id => ids.add(id));
+    }
+    return Array.from(ids);
+  }
+
+  private pickPreferred<T extends { area_id: string }>(candidates: T[], areaId?: string): { match: T; inPreferredArea: boolean } {
+    const preferred = areaId ? candidates.find(candidate => candidate.area_id === areaId) : undefined;
+    return { match: preferred || candidates[0], inPreferredArea: !!preferred };
+  }
+
+  private describeAssignment(target: string, fit: string, inPreferredArea?: boolean): string {
+    const reasons = [fit];
+    if (inPreferredArea !== undefined) {
+      reasons.push(inPreferredArea ? 'in the preferred area' : 'no free option in the preferred area');
+    }
+    return `Auto-assigned ${target}: ${reasons.join(', ')}`;
+  }
+
+  /**
+   * Time range of the request in a given area. An explicit end time wins;
+   * otherwise the duration rules for that area apply. Results are cached per area.
+   */
+  private rangeResolver(settings: ReservationSettings['settings'], request: SeatingRequest): RangeForArea {
+    const cache = new Map<string, TimeRange>();
+    return (areaId?: string | null) => {
+      const key = areaId || '';
+      let range = cache.get(key);
+      if (!range) {
+        range = toTimeRange(
+          request.start_time,
+          request.end_time,
+          resolveReservationDuration(settings, { ...request, area_id: areaId })
+        );
+        cache.set(key, range);
+      }
+      return range;
+    };
+  }
+
+  /**
+   * Reservations grouped by table plus the blocked dates for one day, with the
+   * settings deciding durations and turnover buffers
+   */
+  private async getDaySchedule(
+    restaurantId: string,
+    date: string,
+    tableIds: string[],
+    settings: ReservationSettings['settings']
+  ): Promise<DaySchedule> {
+    const [bookings, blocks] = await Promise.all([
+      this.getBookedIntervals(restaurantId, date, tableIds, settings),
+      this.getBlockedDates(restaurantId, date)
+    ]);
+
+    const bookingsByTable = new Map<string, BookedInterval[]>();
+    for (const booking of bookings) {
+      const list = bookingsByTable.get(booking.table_id) || [];
+      list.push(booking);
+      bookingsByTable.set(booking.table_id, list);
+    }
+
+    return { bookingsByTable, blocks, settings };
+  }
+
+  private isTableFree(
+    table: Pick<AvailableTable, 'id' | 'area_id'>,
+    range: TimeRange,
+    day: DaySchedule,
+    excludeReservationId?: string
+  ): boolean {
+    const areaBlocks = day.blocks.filter(block => !block.area_id || block.area_id === table.area_id);
+    if (areaBlocks.some(block => isRangeBlocked(block, range))) {
+      return false;
+    }
+    return !isRangeBooked(
+      day.bookingsByTable.get(table.id) || [],
+      range,
+      excludeReservationId,
+      resolveTurnoverBuffer(day.settings, table.area_id)
+    );
+  }
+
+  private isCombinationFree(
+    combination: AvailableCombination,
+    range: TimeRange,
+    day: DaySchedule,
+    excludeReservationId?: string
+  ): boolean {
+    return combination.table_ids.every(id =>
+      this.isTableFree({ id, area_id: combination.area_id }, range, day, excludeReservationId)
+    );
+  }
+
+  /**
+   * Active reservations on the given date, one entry per occupied table.
+   * Reservations on a combination are expanded to each member table, and
+   * reservations saved without an end time get one from the duration rules.
+   */
+  async getBookedIntervals(
+    restaurantId: string,
+    date: string,
+    tableIds?: string[],
+    settings?: ReservationSettings['settings']
+  ): Promise<BookedInterval[]> {
+    const durationSettings = settings || await reservationSettingsService.getSettings(restaurantId);
+
+    const { data, error } = await supabase
+      .from('reservations')
+      .select('id, table_id, area_id, start_time, end_time, number_of_people, table_combination:table_combinations(table_ids)')
+      .eq('restaurant_id', restaurantId)
+      .eq('reservation_date', date)
+      .in('status', ACTIVE_RESERVATION_STATUSES)
+      .not('table_id', 'is', null)
+      .returns<BookedReservationRow[]>();
+
+    if (error) throw createError(error.message, 400);
+
+    const wanted = tableIds ? new Set(tableIds) : null;
+    const intervals: BookedInterval[] = [];
+
+    for (const reservation of data || []) {
+      const occupied = reservation.table_combination?.table_ids || (reservation.table_id ? [reservation.table_id] : []);
+      const endTime: string = reservation.end_time || addMinutesToTime(
+        reservation.start_time,
+        resolveReservationDuration(durationSettings, {
+          date,
+          start_time: reservation.start_time,
+          number_of_people: reservation.number_of_people,
+          area_id: reservation.area_id
+        })
+      );
+
+      for (const tableId of occupied) {
+        if (!wanted || wanted.has(tableId)) {
+          intervals.push({
+            id: reservation.id,
+            table_id: tableId,
+            start_time: reservation.start_time,
+            end_time: endTime
+          });
+        }
+      }
+    }
+
+    return intervals;
+  }
+
+  /**
+   * Active reservations on the given date counted by pacing rules, with or
+   * without a table
+   */
+  private async getPacingBookings(restaurantId: string, date: string): Promise<PacingBooking[]> {
+    const { data, error } = await supabase
+      .from('reservations')
+      .select('id, area_id, start_time, number_of_people')
+      .eq('restaurant_id', restaurantId)
+      .eq('reservation_date', date)
+      .in('status', ACTIVE_RESERVATION_STATUSES);
+
+    if (error) throw createError(error.message, 400);
+
+    return data || [];
+  }
+
+  /**
+   * Seats of every table active on the date, the base of the overbooking allowance
+   */
+  private async getSeatingCapacity(restaurantId: string, date: string): Promise<number> {
+    const tables = await this.getLayoutTables(restaurantId, date);
+    return tables.reduce((total, table) => total + (table.capacity || 0), 0);
+  }
+
+  /**
+   * Active reservations on the given date accepted through overbooking
+   */
+  private async getOverbookedReservations(restaurantId: string, date: string): Promise<ReservationOverbookingReport['reservations']> {
+    const { data, error } = await supabase
+      .from('reservations')
+      .select('id, customer_name, number_of_people, start_time, end_time, status')
+      .eq('restaurant_id', restaurantId)
+      .eq('reservation_date', date)
+      .eq('is_overbooked', true)
+      .in('status', ACTIVE_RESERVATION_STATUSES)
+      .order('start_time', { ascending: true });
+
+    if (error) throw createError(error.message, 400);
+
+    return data || [];
+  }
+
+  /**
+   * Blocked date entries covering the given date, for every area of the restaurant
+   */
+  async getBlockedDates(restaurantId: string, date: string): Promise<BlockedDate[]> {
+    const { data, error } = await supabase
+      .from('bloqued_dates')
+      .select('*')
+      .eq('restaurant_id', restaurantId)
+      .lte('init_date', date)
+      .gte('end_date', date);
+
+    if (error) throw createError(error.message, 400);
+
+    return data || [];
+  }
+
+  /**
+   * Start times to evaluate, stepping by the slot interval inside each service
+   * window. An explicit window from the query narrows the search further.
+   */
+  private getCandidateStarts(query: AvailabilityQuery, serviceWindows: TimeRange[] | undefined, interval: number): number[] {
+    const from = query.start_time ? timeToMinutes(query.start_time) : 0;
+    let to = query.end_time
+      ? timeToMinutes(query.end_time)
+      : query.start_time ? from : MINUTES_PER_DAY - 1;
+
+    // Starts past midnight belong to the next date's search
+    if (to < from) {
+      to = MINUTES_PER_DAY - 1;
+    }
+
+    const starts = new Set<number>();
+    for (const window of serviceWindows || [{ start: 0, end: MINUTES_PER_DAY }]) {
+      const last = Math.min(to, window.end - 1);
+      for (let start = Math.max(from, window.start); start <= last; start += interval) {
+        starts.add(start);
+      }
+    }
+
+    return Array.from(starts).sort((a, b) => a - b);
+  }
+}
+
+export default new AvailabilityService();
@@ -0,0 +1,95 @@
+import { supabase } from '../config/database';
+import { ApiResponse, CategoriaComemoracao } from '../types';
+import { createError, AppError } from '../middleware/errorHandler';
+import moment from 'moment';
+
+type CategorySchedule = Pick<CategoriaComemoracao, 'tipo_recorrencia' | 'dias_semana' | 'data_inicio' | 'data_fim'>;
+
+/**
+ * Whether the category can be used on the date: "unica" only on data_inicio,
+ * "periodo" on any day from data_inicio to data_fim and "dias_semana" on the
+ * listed weekdays within that range.
+ */
+export function isCategoryValidOn(category: CategorySchedule, date: string): boolean {
+  const start = String(category.data_inicio).slice(0, 10);
+  const end = category.data_fim ? String(category.data_fim).slice(0, 10) : start;
+
+  switch (category.tipo_recorrencia) {
+    case 'unica':
+      return date === start;
+    case 'periodo':
+      return date >= start && date <= end;
+    case 'dias_semana':
+      return date >= start && date <= end && (category.dias_semana || []).includes(moment(date, 'YYYY-MM-DD').day());
+    default:
+      return false;
+  }
+}
+
+export function categoryApplies(category: CategoriaComemoracao, date: string, partySize: number): boolean {
+  return category.status && isCategoryValidOn(category, date) && partySize >= category.qtd_min;
+}
+
+export class CelebrationCategoryService {
+  /**
+   * Active categories the guest can pick for the date and party size
+   */
+  async getApplicableCategories(
+    restaurantId: string,
+    date: string,
+    partySize: number
+  ): Promise<ApiResponse<CategoriaComemoracao[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('categorias_comemoracao')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .eq('status', true)
+        .order('nome', { ascending: true });
+
+      if (error) throw createError(error.message, 400);
+
+      return {
+        success: true,
+        data: (data || []).filter((category: CategoriaComemoracao) => categoryApplies(category, date, partySize))
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to fetch celebration categories: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Reject a reservation whose celebration category is inactive, not offered
+   * on the reservation date or requires a larger party
+   */
+  async assertCategoryApplies(restaurantId: string, categoryId: string, date: string, partySize: number): Promise<void> {
+    const { data: category, error } = await supabase
+      .from('categorias_comemoracao')
+      .select('*')
+      .eq('id', categoryId)
+      .eq('restaurant_id', restaurantId)
+      .maybeSingle();
+
+    if (error) throw createError(error.message, 400);
+    if (!category) throw createError('Celebration category not found', 404);
+
+    if (!category.status) {
+      throw createError(`The celebration "${category.nome}" is not available`, 400, 'CELEBRATION_INACTIVE');
+    }
+    if (!isCategoryValidOn(category, date)) {
+      throw createError(`The celebration "${category.nome}" is not offered on ${date}`, 400, 'CELEBRATION_NOT_ON_DATE');
+    }
+    if (partySize < category.qtd_min) {
+      throw createError(
+        `The celebration "${category.nome}" requires at least ${category.qtd_min} people`,
+        400,
+        'CELEBRATION_MIN_PARTY_SIZE'
+      );
+    }
+  }
+}
+
+export default new CelebrationCategoryService();
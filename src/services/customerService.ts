@@ -302,4 +302,25 @@ export class CustomerService {
       throw new Error(`Failed to get customers by tags: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Increment the no-show counter of the contact with this phone number.
+   * Returns null when the guest is not a known contact.
+   */
+  static async incrementNoShowCount(restaurantId: string, phone: string): Promise<ChatContact | null> {
+    try {
+      const { data, error } = await supabase.rpc('increment_contact_no_show', {
+        p_restaurant_id: restaurantId,
+        p_phone: phone
+      });
+
+      if (error) {
+        throw new Error(`Error incrementing no-show count: ${error.message}`);
+      }
+
+      return data?.[0] || null;
+    } catch (error) {
+      throw new Error(`Failed to increment no-show count: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,404 @@
+import { supabase } from '../config/database';
+import {
+  ApiResponse,
+  Reservation,
+  ReservationDepositPolicy,
+  ReservationDepositStatus,
+  ReservationDepositTerms,
+  ReservationPayment,
+  ReservationStatus
+} from '../types';
+import { createError, AppError } from '../middleware/errorHandler';
+import reservationSettingsService from './reservationSettingsService';
+import { getPaymentProvider, PaymentResult } from './paymentProvider';
+import { isEventActiveOn } from './reservationExperienceService';
+import restaurantTimeService, { toInstant } from './restaurantTimeService';
+import logger from '../config/logger';
+import moment from 'moment';
+
+export const DEFAULT_DEPOSIT_CURRENCY = 'BRL';
+
+// Só reservas ainda por acontecer podem pagar o sinal
+const PAYABLE_STATUSES: ReservationStatus[] = ['pending', 'confirmed'];
+
+type DepositFields = Pick<Reservation, 'deposit_status' | 'deposit_amount' | 'deposit_terms'>;
+
+export interface DepositContext {
+  date: string;
+  number_of_people: number;
+  event_ids: string[];
+}
+
+export interface CancellationSettlement {
+  refund: number;
+  retained: number;
+}
+
+// Deposit fields changed by a settlement; deposit_error explains a refund_failed status
+export type DepositSettlement = Partial<DepositFields> & { deposit_error?: string };
+
+export function depositPolicyMatches(policy: ReservationDepositPolicy, context: DepositContext): boolean {
+  if (policy.min_party_size !== undefined && context.number_of_people < policy.min_party_size) return false;
+  if (policy.date_from && context.date < policy.date_from) return false;
+  if (policy.date_to && context.date > policy.date_to) return false;
+  if (policy.event_id && !context.event_ids.includes(policy.event_id)) return false;
+  return true;
+}
+
+function depositPolicySpecificity(policy: ReservationDepositPolicy): number {
+  return [
+    policy.min_party_size !== undefined,
+    !!(policy.date_from || policy.date_to),
+    !!policy.event_id
+  ].filter(Boolean).length;
+}
+
+/**
+ * Deposit policy applying to a reservation. Like the duration rules, the most
+ * specific matching policy wins and ties go to the one listed first.
+ */
+export function resolveDepositPolicy(
+  policies: ReservationDepositPolicy[],
+  context: DepositContext
+): ReservationDepositPolicy | undefined {
+  let best: ReservationDepositPolicy | undefined;
+  for (const policy of policies) {
+    if (depositPolicyMatches(policy, context) && (!best || depositPolicySpecificity(policy) > depositPolicySpecificity(best))) {
+      best = policy;
+    }
+  }
+  return best;
+}
+
+export function getDepositAmount(policy: ReservationDepositPolicy, partySize: number): number {
+  const amount = (policy.fixed_amount || 0) + (policy.amount_per_person || 0) * partySize;
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Split a paid deposit between refund and cancellation fee. Cancelling at least
+ * refund_window_hours before the reservation refunds everything; later
+ * cancellations and no-shows keep the fee percentage of the deposit.
+ */
+export function settleCancellation(
+  terms: ReservationDepositTerms,
+  amount: number,
+  startsAt: moment.Moment,
+  status: ReservationStatus,
+  now: moment.Moment = moment()
+): CancellationSettlement {
+  const inTime = status === 'canceled' && startsAt.diff(now, 'minutes') >= terms.refund_window_hours * 60;
+  const retained = inTime ? 0 : Math.round(amount * terms.cancellation_fee_percentage) / 100;
+  return { refund: Math.round((amount - retained) * 100) / 100, retained };
+}
+
+export class DepositService {
+  /**
+   * Deposit fields for a new or rescheduled reservation under the restaurant's
+   * policies. All fields are null when no policy applies.
+   */
+  async getDepositFields(reservation: Partial<Reservation>): Promise<DepositFields> {
+    const none: DepositFields = { deposit_status: null, deposit_amount: null, deposit_terms: null };
+    if (!reservation.restaurant_id || !reservation.reservation_date) return none;
+
+    const settings = await reservationSettingsService.getSettings(reservation.restaurant_id);
+    const policies = settings.deposit_policies || [];
+    if (policies.length === 0) return none;
+
+    const eventIds = policies.map(policy => policy.event_id).filter((id): id is string => !!id);
+    const policy = resolveDepositPolicy(policies, {
+      date: reservation.reservation_date,
+      number_of_people: reservation.number_of_people || 1,
+      event_ids: await this.getEventsOnDate(reservation.restaurant_id, reservation.reservation_date, eventIds)
+    });
+    if (!policy) return none;
+
+    const amount = getDepositAmount(policy, reservation.number_of_people || 1);
+    if (amount <= 0) return none;
+
+    return {
+      deposit_status: 'required',
+      deposit_amount: amount,
+      deposit_terms: {
+        policy_name: policy.name,
+        currency: settings.deposit_currency || DEFAULT_DEPOSIT_CURRENCY,
+        refund_window_hours: policy.refund_window_hours,
+        cancellation_fee_percentage: policy.cancellation_fee_percentage ?? 100
+      }
+    };
+  }
+
+  async getDeposit(
+    reservationId: string,
+    restaurantId: string
+  ): Promise<ApiResponse<DepositFields & { payments: ReservationPayment[] }>> {
+    try {
+      const reservation = await this.findReservation(reservationId, restaurantId);
+
+      const { data: payments, error } = await supabase
+        .from('reservation_payments')
+        .select('*')
+        .eq('reservation_id', reservationId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw createError(error.message, 400);
+
+      return {
+        success: true,
+        data: {
+          deposit_status: reservation.deposit_status ?? null,
+          deposit_amount: reservation.deposit_amount ?? null,
+          deposit_terms: reservation.deposit_terms ?? null,
+          payments: payments || []
+        }
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to fetch reservation deposit: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Charge the required deposit with a tokenized payment method. The deposit is
+   * claimed as processing before the charge, so concurrent attempts cannot both
+   * charge; a declined or failed charge leaves it required again.
+   */
+  async payDeposit(
+    reservationId: string,
+    restaurantId: string,
+    paymentToken: string,
+    changedBy?: string
+  ): Promise<ApiResponse<ReservationPayment>> {
+    try {
+      const reservation = await this.findReservation(reservationId, restaurantId);
+      if (reservation.deposit_status !== 'required' || !reservation.deposit_amount || !reservation.deposit_terms) {
+        throw createError('This reservation has no deposit due', 409, 'DEPOSIT_NOT_DUE');
+      }
+      if (!PAYABLE_STATUSES.includes(reservation.status)) {
+        throw createError('Only pending or confirmed reservations can pay a deposit', 409, 'DEPOSIT_NOT_DUE');
+      }
+
+      const provider = getPaymentProvider();
+      await this.claimDeposit(reservation.id);
+
+      let result: PaymentResult;
+      try {
+        result = await provider.charge({
+          amount: reservation.deposit_amount,
+          currency: reservation.deposit_terms.currency,
+          payment_token: paymentToken,
+          reference: reservation.id,
+          description: `Deposit for ${reservation.customer_name} on ${reservation.reservation_date}`
+        });
+      } catch (chargeError) {
+        await this.setDepositStatus(reservation.id, 'required');
+        throw chargeError;
+      }
+
+      await this.setDepositStatus(reservation.id, result.status === 'paid' ? 'paid' : 'required');
+      const payment = await this.recordPayment(reservation, provider.name, 'charge', result, changedBy);
+
+      if (result.status !== 'paid') {
+        throw createError(`Payment declined: ${result.failure_reason || 'unknown reason'}`, 402, 'PAYMENT_FAILED');
+      }
+
+      // Cancelada durante a cobrança: o sinal recém-pago segue a regra de cancelamento
+      const current = await this.findReservation(reservation.id, restaurantId);
+      if (current.status === 'canceled' || current.status === 'no_show') {
+        await this.settleDeposit(current, current.status, changedBy);
+      }
+
+      return {
+        success: true,
+        data: payment,
+        message: 'Deposit paid successfully'
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to pay reservation deposit: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500,
+        (error as AppError).code
+      );
+    }
+  }
+
+  /**
+   * Refund or keep a paid deposit when the reservation is canceled or marked as
+   * no-show. Returns the deposit fields that changed, if any. A refund that
+   * cannot be made does not block the status change: the deposit is left as
+   * refund_failed and deposit_error tells the caller the guest was not refunded.
+   * A deposit still due is waived.
+   */
+  async settleDeposit(
+    reservation: Reservation,
+    status: ReservationStatus,
+    changedBy?: string,
+    now: moment.Moment = moment()
+  ): Promise<DepositSettlement> {
+    if (status !== 'canceled' && status !== 'no_show') return {};
+
+    if (reservation.deposit_status === 'required') {
+      try {
+        await this.setDepositStatus(reservation.id, 'waived');
+        return { deposit_status: 'waived' };
+      } catch (error) {
+        logger.error(
+          { action: 'deposit.settle', reservation_id: reservation.id, error: error instanceof Error ? error.message : String(error) },
+          'Error waiving unpaid deposit'
+        );
+        return {};
+      }
+    }
+    if (reservation.deposit_status !== 'paid' || !reservation.deposit_amount || !reservation.deposit_terms) return {};
+
+    try {
+      const timezone = await restaurantTimeService.getTimezone(reservation.restaurant_id);
+      const startsAt = moment(toInstant(reservation.reservation_date, reservation.start_time, timezone));
+      const { refund, retained } = settleCancellation(
+        reservation.deposit_terms,
+        reservation.deposit_amount,
+        startsAt,
+        status,
+        now
+      );
+
+      if (refund > 0) {
+        const charge = await this.findPaidCharge(reservation.id);
+        if (!charge) throw createError('Paid deposit charge not found', 404);
+
+        const provider = getPaymentProvider();
+        const result = await provider.refund(charge.provider_charge_id, refund);
+        await this.recordPayment(reservation, provider.name, 'refund', result, changedBy);
+
+        if (result.status !== 'refunded') {
+          throw createError(`Refund failed: ${result.failure_reason || 'unknown reason'}`, 402, 'PAYMENT_FAILED');
+        }
+      }
+
+      const depositStatus: ReservationDepositStatus = retained > 0 ? 'forfeited' : 'refunded';
+      await this.setDepositStatus(reservation.id, depositStatus);
+      return { deposit_status: depositStatus };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error({ action: 'deposit.settle', reservation_id: reservation.id, error: message }, 'Error settling deposit');
+
+      try {
+        await this.setDepositStatus(reservation.id, 'refund_failed');
+      } catch (statusError) {
+        logger.error(
+          { action: 'deposit.settle', reservation_id: reservation.id, error: statusError instanceof Error ? statusError.message : String(statusError) },
+          'Error marking deposit as refund_failed'
+        );
+      }
+      return { deposit_status: 'refund_failed', deposit_error: message };
+    }
+  }
+
+  /**
+   * Experience events from the given list that run on the date
+   */
+  private async getEventsOnDate(restaurantId: string, date: string, eventIds: string[]): Promise<string[]> {
+    if (eventIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('experience_events')
+      .select('id, init_date, end_date, recurrence_type, day_recurrence')
+      .eq('restaurant_id', restaurantId)
+      .eq('status', true)
+      .in('id', eventIds);
+
+    if (error) throw createError(error.message, 400);
+
+    return (data || []).filter(event => isEventActiveOn(event, date)).map(event => event.id);
+  }
+
+  private async findReservation(id: string, restaurantId: string): Promise<Reservation> {
+    const { data, error } = await supabase
+      .from('reservations')
+      .select('*')
+      .eq('id', id)
+      .eq('restaurant_id', restaurantId)
+      .single();
+
+    if (error || !data) throw createError('Reservation not found', 404);
+
+    return data;
+  }
+
+  private async findPaidCharge(reservationId: string): Promise<ReservationPayment | null> {
+    const { data, error } = await supabase
+      .from('reservation_payments')
+      .select('*')
+      .eq('reservation_id', reservationId)
+      .eq('kind', 'charge')
+      .eq('status', 'paid')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw createError(error.message, 400);
+
+    return data;
+  }
+
+  private async recordPayment(
+    reservation: Reservation,
+    provider: string,
+    kind: ReservationPayment['kind'],
+    result: { id: string; status: ReservationPayment['status']; amount: number; failure_reason?: string },
+    changedBy?: string
+  ): Promise<ReservationPayment> {
+    const { data, error } = await supabase
+      .from('reservation_payments')
+      .insert({
+        reservation_id: reservation.id,
+        restaurant_id: reservation.restaurant_id,
+        provider,
+        provider_charge_id: result.id,
+        kind,
+        amount: result.amount,
+        currency: reservation.deposit_terms?.currency || DEFAULT_DEPOSIT_CURRENCY,
+        status: result.status,
+        failure_reason: result.failure_reason,
+        created_by: changedBy
+      })
+      .select()
+      .single();
+
+    if (error) throw createError(error.message, 400);
+
+    return data;
+  }
+
+  /**
+   * Move a required deposit to processing. Fails when another attempt already
+   * claimed it or the reservation stopped being payable in the meantime.
+   */
+  private async claimDeposit(reservationId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('reservations')
+      .update({ deposit_status: 'processing', updated_at: new Date().toISOString() })
+      .eq('id', reservationId)
+      .eq('deposit_status', 'required')
+      .in('status', PAYABLE_STATUSES)
+      .select('id');
+
+    if (error) throw createError(error.message, 400);
+    if (!data || data.length === 0) {
+      throw createError('This reservation has no deposit due', 409, 'DEPOSIT_NOT_DUE');
+    }
+  }
+
+  private async setDepositStatus(reservationId: string, status: ReservationDepositStatus): Promise<void> {
+    const { error } = await supabase
+      .from('reservations')
+      .update({ deposit_status: status, updated_at: new Date().toISOString() })
+      .eq('id', reservationId);
+
+    if (error) throw createError(error.message, 400);
+  }
+}
+
+export default new DepositService();
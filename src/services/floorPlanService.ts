@@ -0,0 +1,518 @@
+import { supabase } from '../config/database';
+import {
+  FloorPlan,
+  FloorPlanInput,
+  FloorPlanLayout,
+  FloorPlanSchedule,
+  FloorPlanTable,
+  FloorPlanWithTables,
+  Reservation,
+  Table,
+  TableCombination
+} from '../types';
+import { createError, AppError } from '../middleware/errorHandler';
+import { AreaService } from './areaService';
+import { TableService } from './tableService';
+import restaurantTimeService from './restaurantTimeService';
+import realtimeService from './realtimeService';
+import moment from 'moment';
+
+const PLAN_FIELDS = 'id, restaurant_id, area_id, name, description, starts_on, ends_on, weekdays, applied_at, created_at, updated_at';
+const LAYOUT_FIELDS = 'table_id, position_x, position_y, width, height, is_active';
+
+// Reservas que ainda ocupam a mesa; as mesmas de ACTIVE_RESERVATION_STATUSES,
+// repetidas porque availabilityService depende deste módulo
+const BOOKED_STATUSES = ['pending', 'confirmed', 'seated'];
+// Reservas citadas na mensagem de conflito
+const DISPLACED_LISTED = 5;
+
+type BookedReservationRow = Pick<Reservation, 'id' | 'customer_name' | 'reservation_date' | 'start_time' | 'table_id'> & {
+  table_combination: Pick<TableCombination, 'table_ids'> | null;
+};
+
+function hasSchedule(schedule: FloorPlanSchedule): boolean {
+  return !!(schedule.starts_on || schedule.ends_on || schedule.weekdays?.length);
+}
+
+/**
+ * Whether the version's schedule covers the date: within starts_on/ends_on
+ * (either may be open) and on one of the weekdays when they are listed.
+ * Versions without a schedule never take over on their own.
+ */
+export function isScheduledOn(plan: FloorPlanSchedule, date: string): boolean {
+  const start = plan.starts_on ? String(plan.starts_on).slice(0, 10) : null;
+  const end = plan.ends_on ? String(plan.ends_on).slice(0, 10) : null;
+  const weekdays = plan.weekdays || [];
+
+  if (!start && !end && weekdays.length === 0) return false;
+  if ((start && date < start) || (end && date > end)) return false;
+  return weekdays.length === 0 || weekdays.includes(moment(date, 'YYYY-MM-DD').day());
+}
+
+/**
+ * Version in effect on the date among an area's versions. When several
+ * schedules cover it the one starting last wins, so a private event beats
+ * the season it falls in; ties go to the most recently updated.
+ */
+export function pickScheduledPlan<T extends FloorPlan>(plans: T[], date: string): T | null {
+  const stamp = (plan: T) => plan.updated_at || plan.created_at || '';
+  return plans
+    .filter(plan => isScheduledOn(plan, date))
+    .sort((a, b) =>
+      String(b.starts_on || '').localeCompare(String(a.starts_on || '')) || stamp(b).localeCompare(stamp(a))
+    )[0] || null;
+}
+
+/**
+ * Tables with the geometry and active flag of the layout in effect; tables
+ * the layout does not list keep their own
+ */
+export function applyLayout<T extends Pick<Table, 'id' | 'is_active'>>(
+  tables: T[],
+  layouts: Map<string, FloorPlanTable>
+): T[] {
+  return tables.map(table => {
+    const layout = layouts.get(table.id);
+    if (!layout) return table;
+    const { position_x, position_y, width, height, is_active } = layout;
+    return { ...table, position_x, position_y, width, height, is_active };
+  });
+}
+
+/**
+ * Named layout versions of an area. The tables keep the layout in use:
+ * activating a version copies it onto them, while a scheduled version takes
+ * over only on the dates it covers, for availability and the timeline.
+ */
+export class FloorPlanService {
+  async getFloorPlans(restaurantId: string, areaId: string): Promise<FloorPlan[]> {
+    try {
+      await this.assertArea(restaurantId, areaId);
+
+      const { data, error } = await supabase
+        .from('floor_plans')
+        .select(PLAN_FIELDS)
+        .eq('area_id', areaId)
+        .order('name', { ascending: true });
+
+      if (error) throw createError(error.message, 400);
+
+      return data || [];
+    } catch (error) {
+      throw createError(
+        `Failed to fetch floor plans: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  async getFloorPlan(restaurantId: string, areaId: string, id: string): Promise<FloorPlanWithTables> {
+    try {
+      await this.assertArea(restaurantId, areaId);
+      return await this.loadPlan(areaId, id);
+    } catch (error) {
+      throw createError(
+        `Failed to fetch floor plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Save a new version. Without tables it captures the area's current layout.
+   */
+  async createFloorPlan(restaurantId: string, areaId: string, input: FloorPlanInput): Promise<FloorPlanWithTables> {
+    try {
+      await this.assertArea(restaurantId, areaId);
+      return await this.insertPlan(restaurantId, areaId, input);
+    } catch (error) {
+      throw createError(
+        `Failed to create floor plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Rename, reschedule or re-save a version. Tables, when sent, replace the
+   * version's whole layout.
+   */
+  async updateFloorPlan(
+    restaurantId: string,
+    areaId: string,
+    id: string,
+    input: Partial<FloorPlanInput>
+  ): Promise<FloorPlanWithTables> {
+    try {
+      await this.assertArea(restaurantId, areaId);
+      return await this.writePlan(await this.loadPlan(areaId, id), input);
+    } catch (error) {
+      throw createError(
+        `Failed to update floor plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Copy a version under a new name, without its schedule
+   */
+  async cloneFloorPlan(restaurantId: string, areaId: string, id: string, name: string): Promise<FloorPlanWithTables> {
+    try {
+      await this.assertArea(restaurantId, areaId);
+      const source = await this.loadPlan(areaId, id);
+
+      return await this.insertPlan(restaurantId, areaId, {
+        name,
+        description: source.description,
+        tables: source.tables
+      });
+    } catch (error) {
+      throw createError(
+        `Failed to clone floor plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  async deleteFloorPlan(restaurantId: string, areaId: string, id: string): Promise<void> {
+    try {
+      await this.assertArea(restaurantId, areaId);
+      await this.loadPlan(areaId, id);
+
+      const { error } = await supabase
+        .from('floor_plans')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw createError(error.message, 400);
+    } catch (error) {
+      throw createError(
+        `Failed to delete floor plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Activate a version. With a date range or weekdays it is scheduled and
+   * takes over on those dates only; otherwise its layout is copied onto the
+   * tables right away and becomes the one in use. Refused while tables it
+   * deactivates are booked on those dates.
+   */
+  async activateFloorPlan(
+    restaurantId: string,
+    areaId: string,
+    id: string,
+    schedule: FloorPlanSchedule = {}
+  ): Promise<FloorPlanWithTables> {
+    try {
+      await this.assertArea(restaurantId, areaId);
+      const plan = await this.loadPlan(areaId, id);
+
+      if (hasSchedule(schedule)) {
+        return await this.writePlan(plan, {
+          starts_on: schedule.starts_on ?? null,
+          ends_on: schedule.ends_on ?? null,
+          weekdays: schedule.weekdays?.length ? schedule.weekdays : null
+        });
+      }
+
+      await this.assertNoDisplacedReservations(restaurantId, areaId, plan.tables, null);
+
+      // Todas as mesas mudam na mesma transação
+      const { error } = await supabase.rpc('apply_floor_plan', { p_plan_id: id });
+      if (error) throw createError(error.message, 400);
+
+      // Cada mesa atualizada gera seu próprio evento table.updated
+      const applied = new Set(plan.tables.map(table => table.table_id));
+      for (const table of await TableService.getTablesByArea(areaId)) {
+        if (applied.has(table.id)) realtimeService.publish(table.restaurant_id, 'table.updated', table);
+      }
+
+      return await this.loadPlan(areaId, id);
+    } catch (error) {
+      throw createError(
+        `Failed to activate floor plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Remove a version's schedule; the tables' own layout applies again on its dates
+   */
+  async deactivateFloorPlan(restaurantId: string, areaId: string, id: string): Promise<FloorPlanWithTables> {
+    return this.updateFloorPlan(restaurantId, areaId, id, { starts_on: null, ends_on: null, weekdays: null });
+  }
+
+  /**
+   * The area's tables as laid out on the date, with the scheduled version in
+   * effect if any
+   */
+  async getLayout(restaurantId: string, areaId: string, date: string): Promise<FloorPlanLayout> {
+    try {
+      await this.assertArea(restaurantId, areaId);
+
+      const [tables, { plans, layouts }] = await Promise.all([
+        TableService.getTablesByArea(areaId),
+        this.loadScheduled(restaurantId, date, areaId)
+      ]);
+      const plan = plans.get(areaId);
+
+      return {
+        date,
+        area_id: areaId,
+        floor_plan: plan
+          ? { id: plan.id, name: plan.name, starts_on: plan.starts_on, ends_on: plan.ends_on, weekdays: plan.weekdays }
+          : null,
+        tables: applyLayout(tables, layouts).map(table => ({
+          id: table.id,
+          number: table.number,
+          name: table.name,
+          capacity: table.capacity,
+          shape: table.shape,
+          position_x: table.position_x,
+          position_y: table.position_y,
+          width: table.width,
+          height: table.height,
+          is_active: table.is_active
+        }))
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to fetch floor plan layout: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Table layouts of the versions scheduled on the date, keyed by table id,
+   * for every area of the restaurant or only the given one
+   */
+  async getScheduledLayouts(restaurantId: string, date: string, areaId?: string): Promise<Map<string, FloorPlanTable>> {
+    const { layouts } = await this.loadScheduled(restaurantId, date, areaId);
+    return layouts;
+  }
+
+  private async loadScheduled(
+    restaurantId: string,
+    date: string,
+    areaId?: string
+  ): Promise<{ plans: Map<string, FloorPlan>; layouts: Map<string, FloorPlanTable> }> {
+    let query = supabase
+      .from('floor_plans')
+      .select(PLAN_FIELDS)
+      .eq('restaurant_id', restaurantId);
+    if (areaId) query = query.eq('area_id', areaId);
+
+    const { data, error } = await query;
+    if (error) throw createError(error.message, 400);
+
+    const plansByArea = new Map<string, FloorPlan[]>();
+    for (const plan of (data || []) as FloorPlan[]) {
+      const list = plansByArea.get(plan.area_id) || [];
+      list.push(plan);
+      plansByArea.set(plan.area_id, list);
+    }
+
+    const plans = new Map<string, FloorPlan>();
+    for (const [area, list] of plansByArea) {
+      const plan = pickScheduledPlan(list, date);
+      if (plan) plans.set(area, plan);
+    }
+
+    const layouts = new Map<string, FloorPlanTable>();
+    if (plans.size === 0) return { plans, layouts };
+
+    const { data: rows, error: tablesError } = await supabase
+      .from('floor_plan_tables')
+      .select(LAYOUT_FIELDS)
+      .in('floor_plan_id', [...plans.values()].map(plan => plan.id));
+
+    if (tablesError) throw createError(tablesError.message, 400);
+
+    for (const row of (rows || []) as FloorPlanTable[]) {
+      layouts.set(row.table_id, row);
+    }
+
+    return { plans, layouts };
+  }
+
+  private async assertArea(restaurantId: string, areaId: string): Promise<void> {
+    const area = await AreaService.getAreaById(areaId);
+    if (!area || area.restaurant_id !== restaurantId) throw createError('Area not found', 404);
+  }
+
+  private async loadPlan(areaId: string, id: string): Promise<FloorPlanWithTables> {
+    const { data: plan, error } = await supabase
+      .from('floor_plans')
+      .select(PLAN_FIELDS)
+      .eq('id', id)
+      .eq('area_id', areaId)
+      .maybeSingle();
+
+    if (error) throw createError(error.message, 400);
+    if (!plan) throw createError('Floor plan not found', 404);
+
+    const { data: tables, error: tablesError } = await supabase
+      .from('floor_plan_tables')
+      .select(LAYOUT_FIELDS)
+      .eq('floor_plan_id', id);
+
+    if (tablesError) throw createError(tablesError.message, 400);
+
+    return { ...plan, tables: tables || [] };
+  }
+
+  private async insertPlan(restaurantId: string, areaId: string, input: FloorPlanInput): Promise<FloorPlanWithTables> {
+    await this.assertNameAvailable(areaId, input.name);
+    this.assertSchedule(input);
+
+    const areaTables = await TableService.getTablesByArea(areaId);
+    const tables = input.tables
+      ? this.checkTables(input.tables, areaTables)
+      : areaTables.map(table => this.toLayout(table));
+
+    if (hasSchedule(input)) {
+      await this.assertNoDisplacedReservations(restaurantId, areaId, tables, input);
+    }
+
+    // Versão e mesas são gravadas juntas
+    const { data: planId, error } = await supabase.rpc('save_floor_plan', {
+      p_plan: {
+        restaurant_id: restaurantId,
+        area_id: areaId,
+        name: input.name,
+        description: input.description ?? null,
+        starts_on: input.starts_on ?? null,
+        ends_on: input.ends_on ?? null,
+        weekdays: input.weekdays?.length ? input.weekdays : null
+      },
+      p_tables: tables
+    });
+
+    if (error) throw createError(error.message, 400);
+
+    return this.loadPlan(areaId, planId);
+  }
+
+  private async writePlan(current: FloorPlanWithTables, input: Partial<FloorPlanInput>): Promise<FloorPlanWithTables> {
+    if (input.name !== undefined && input.name !== current.name) {
+      await this.assertNameAvailable(current.area_id, input.name);
+    }
+
+    const { tables, ...fields } = input;
+    const schedule = { ...current, ...fields };
+    this.assertSchedule(schedule);
+
+    const nextTables = tables && this.checkTables(tables, await TableService.getTablesByArea(current.area_id));
+    const scheduleChanged = fields.starts_on !== undefined || fields.ends_on !== undefined || fields.weekdays !== undefined;
+    if (hasSchedule(schedule) && (nextTables || scheduleChanged)) {
+      await this.assertNoDisplacedReservations(current.restaurant_id, current.area_id, nextTables || current.tables, schedule);
+    }
+
+    const { error } = await supabase.rpc('save_floor_plan', {
+      p_plan: { ...fields, updated_at: new Date().toISOString() },
+      p_plan_id: current.id,
+      p_tables: nextTables || null
+    });
+
+    if (error) throw createError(error.message, 400);
+
+    return this.loadPlan(current.area_id, current.id);
+  }
+
+  private async assertNameAvailable(areaId: string, name: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('floor_plans')
+      .select('id')
+      .eq('area_id', areaId)
+      .eq('name', name)
+      .maybeSingle();
+
+    if (error) throw createError(error.message, 400);
+    if (data) throw createError(`A floor plan named "${name}" already exists in this area`, 409);
+  }
+
+  private assertSchedule(schedule: FloorPlanSchedule): void {
+    if (schedule.starts_on && schedule.ends_on && String(schedule.ends_on) < String(schedule.starts_on)) {
+      throw createError('The schedule cannot end before it starts', 400);
+    }
+  }
+
+  /**
+   * Reject layouts with tables from other areas
+   */
+  private checkTables(tables: FloorPlanTable[], areaTables: Pick<Table, 'id'>[]): FloorPlanTable[] {
+    const ids = new Set(areaTables.map(table => table.id));
+    const foreign = tables.find(table => !ids.has(table.table_id));
+    if (foreign) throw createError(`Table ${foreign.table_id} does not belong to this area`, 400);
+    return tables;
+  }
+
+  /**
+   * Reject a layout that deactivates tables still booked on the dates it
+   * applies to: from today on when activated right away (schedule null), or
+   * the dates its schedule covers
+   */
+  private async assertNoDisplacedReservations(
+    restaurantId: string,
+    areaId: string,
+    tables: FloorPlanTable[],
+    schedule: FloorPlanSchedule | null
+  ): Promise<void> {
+    const deactivated = new Set(tables.filter(table => !table.is_active).map(table => table.table_id));
+    if (deactivated.size === 0) return;
+
+    const today = await restaurantTimeService.today(restaurantId);
+    const startsOn = schedule?.starts_on ? String(schedule.starts_on).slice(0, 10) : null;
+
+    let query = supabase
+      .from('reservations')
+      .select('id, customer_name, reservation_date, start_time, table_id, table_combination:table_combinations(table_ids)')
+      .eq('restaurant_id', restaurantId)
+      .eq('area_id', areaId)
+      .in('status', BOOKED_STATUSES)
+      .gte('reservation_date', startsOn && startsOn > today ? startsOn : today);
+    if (schedule?.ends_on) query = query.lte('reservation_date', String(schedule.ends_on).slice(0, 10));
+
+    const { data, error } = await query
+      .order('reservation_date', { ascending: true })
+      .order('start_time', { ascending: true })
+      .returns<BookedReservationRow[]>();
+
+    if (error) throw createError(error.message, 400);
+
+    const displaced = (data || []).filter(reservation => {
+      if (schedule && !isScheduledOn(schedule, reservation.reservation_date)) return false;
+      const occupied = reservation.table_combination?.table_ids || (reservation.table_id ? [reservation.table_id] : []);
+      return occupied.some(id => deactivated.has(id));
+    });
+    if (displaced.length === 0) return;
+
+    const listed = displaced
+      .slice(0, DISPLACED_LISTED)
+      .map(reservation => `${reservation.customer_name} on ${reservation.reservation_date} at ${reservation.start_time.slice(0, 5)}`);
+    const more = displaced.length > DISPLACED_LISTED ? ` and ${displaced.length - DISPLACED_LISTED} more` : '';
+    throw createError(
+      `This floor plan deactivates tables that have reservations: ${listed.join('; ')}${more}`,
+      409,
+      'FLOOR_PLAN_DISPLACES_RESERVATIONS'
+    );
+  }
+
+  private toLayout(table: Pick<Table, 'id' | 'position_x' | 'position_y' | 'width' | 'height' | 'is_active'>): FloorPlanTable {
+    return {
+      table_id: table.id,
+      position_x: table.position_x,
+      position_y: table.position_y,
+      width: table.width,
+      height: table.height,
+      is_active: table.is_active
+    };
+  }
+}
+
+export default new FloorPlanService();
@@ -0,0 +1,112 @@
+import { supabase } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import reservationService from './reservationService';
+import reservationSettingsService from './reservationSettingsService';
+import restaurantTimeService, { localDate, toInstant } from './restaurantTimeService';
+import { CustomerService } from './customerService';
+import logger from '../config/logger';
+import moment from 'moment';
+
+export const DEFAULT_NO_SHOW_GRACE_MINUTES = 15;
+const DEFAULT_NO_SHOW_JOB_INTERVAL_MS = 5 * 60 * 1000;
+
+export class NoShowService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Run the no-show sweep periodically in the background
+   */
+  start(intervalMs: number = Number(process.env.NO_SHOW_JOB_INTERVAL_MS) || DEFAULT_NO_SHOW_JOB_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.run();
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Mark confirmed reservations whose guests did not arrive within the
+   * restaurant's grace period as no-show. The status change frees the table and
+   * the matching contact gets its no-show counter incremented. Reservation
+   * times are read in each restaurant's timezone. Only reservations from
+   * yesterday and today at the restaurant are considered, so older confirmed
+   * reservations left behind are never swept in bulk.
+   * Returns how many reservations were marked.
+   */
+  async processNoShows(now: moment.Moment = moment()): Promise<number> {
+    // Um dia de folga em cada ponta cobre os fusos dos restaurantes; o dia local abaixo decide
+    const { data: reservations, error } = await supabase
+      .from('reservations')
+      .select('id, restaurant_id, phone, reservation_date, start_time')
+      .eq('status', 'confirmed')
+      .gte('reservation_date', now.clone().utc().subtract(2, 'days').format('YYYY-MM-DD'))
+      .lte('reservation_date', now.clone().utc().add(1, 'day').format('YYYY-MM-DD'));
+
+    if (error) throw createError(error.message, 400);
+
+    const restaurants = new Map<string, { grace: number; timezone: string }>();
+    let marked = 0;
+
+    for (const reservation of reservations || []) {
+      let restaurant = restaurants.get(reservation.restaurant_id);
+      if (!restaurant) {
+        const [settings, timezone] = await Promise.all([
+          reservationSettingsService.getSettings(reservation.restaurant_id),
+          restaurantTimeService.getTimezone(reservation.restaurant_id)
+        ]);
+        restaurant = { grace: settings.no_show_grace_minutes ?? DEFAULT_NO_SHOW_GRACE_MINUTES, timezone };
+        restaurants.set(reservation.restaurant_id, restaurant);
+      }
+      const { grace } = restaurant;
+
+      if (String(reservation.reservation_date).slice(0, 10) < localDate(restaurant.timezone, -1, now.toDate())) continue;
+
+      const deadline = moment(toInstant(reservation.reservation_date, reservation.start_time, restaurant.timezone))
+        .add(grace, 'minutes');
+      if (now.isBefore(deadline)) continue;
+
+      try {
+        await reservationService.updateReservationStatus(reservation.id, 'no_show', {
+          notes: `Automatic no-show: guest did not arrive within ${grace} minutes of the reservation time`
+        });
+        marked++;
+
+        if (reservation.phone) {
+          await CustomerService.incrementNoShowCount(reservation.restaurant_id, reservation.phone);
+        }
+      } catch (error) {
+        logger.error({ action: 'noShow.mark', reservation_id: reservation.id, error: error instanceof Error ? error.message : String(error) }, 'Error marking reservation as no-show');
+      }
+    }
+
+    return marked;
+  }
+
+  private async run(): Promise<void> {
+    // Evita execuções sobrepostas quando uma varredura demora mais que o intervalo
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const marked = await this.processNoShows();
+      if (marked > 0) {
+        logger.info({ action: 'noShow.run', marked }, 'Reservations marked as no-show');
+      }
+    } catch (error) {
+      logger.error({ action: 'noShow.run', error: error instanceof Error ? error.message : String(error) }, 'No-show job failed');
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export default new NoShowService();
@@ -0,0 +1,466 @@
+import { supabase } from '../config/database';
+import {
+  OccupancyAreaFigures,
+  OccupancyDay,
+  OccupancyFigures,
+  OccupancyPeriod,
+  OccupancyReport,
+  Reservation,
+  ReservationSettings,
+  TableStatusHistory
+} from '../types';
+import { createError, AppError } from '../middleware/errorHandler';
+import reservationSettingsService from './reservationSettingsService';
+import {
+  TimeRange,
+  getServicePeriodName,
+  getServiceWindows,
+  minutesToTime,
+  resolveReservationDuration,
+  toTimeRange
+} from './availabilityService';
+import { localNow, resolveTimezone, startOfLocalDay } from './restaurantTimeService';
+import moment from 'moment';
+
+export const MAX_OCCUPANCY_RANGE_DAYS = 366;
+
+const MINUTES_PER_DAY = 24 * 60;
+const PAGE_SIZE = 1000;
+
+// Canceladas e no-shows não ocupam assentos
+const OCCUPYING_STATUSES = ['pending', 'confirmed', 'seated', 'completed'];
+
+/**
+ * Seats held during an interval. Times are minutes on the restaurant's wall
+ * clock counted from 1970-01-01, so intervals crossing midnight stay whole.
+ */
+interface Segment {
+  start: number;
+  end: number;
+  seats: number;
+  area_id: string | null;
+  table_id?: string;
+}
+
+/**
+ * Interval a table spent occupied according to its status history. Intervals
+ * cut by the edges of the search, or by "now" while the table is still
+ * occupied, are not complete.
+ */
+export interface OccupiedInterval extends TimeRange {
+  complete: boolean;
+}
+
+interface OccupancyTable {
+  id: string;
+  capacity: number;
+  area_id: string | null;
+}
+
+interface Totals {
+  available: number;
+  used: number;
+}
+
+type OccupyingReservationRow = Pick<
+  Reservation,
+  'id' | 'reservation_date' | 'start_time' | 'end_time' | 'number_of_people' | 'table_id' | 'area_id'
+> & { table_combination: { table_ids: string[] } | null };
+
+type StatusChangeRow = Pick<TableStatusHistory, 'table_id' | 'previous_status' | 'new_status'> & { changed_at: string };
+
+export function wallMinutes(date: string, minutes: number = 0): number {
+  return moment.utc(date, 'YYYY-MM-DD').valueOf() / 60000 + minutes;
+}
+
+export function instantToWallMinutes(timestamp: string | Date, timezone: string): number {
+  return moment.utc(localNow(timezone, new Date(timestamp)).format('YYYY-MM-DD HH:mm:ss'), 'YYYY-MM-DD HH:mm:ss').valueOf() / 60000;
+}
+
+function overlapMinutes(a: TimeRange, b: TimeRange): number {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+}
+
+/**
+ * Parts of the interval not covered by any of the ranges
+ */
+function subtractRanges(interval: TimeRange, ranges: TimeRange[]): TimeRange[] {
+  let pieces: TimeRange[] = [interval];
+  for (const range of ranges) {
+    pieces = pieces.flatMap(piece => {
+      if (range.end <= piece.start || range.start >= piece.end) return [piece];
+      return [
+        { start: piece.start, end: Math.min(piece.end, range.start) },
+        { start: Math.max(piece.start, range.end), end: piece.end }
+      ].filter(part => part.end > part.start);
+    });
+  }
+  return pieces;
+}
+
+/**
+ * Every row of a query, fetched in pages past the API's row limit
+ */
+export async function fetchAllRows<T>(
+  page: (start: number, end: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let start = 0; ; start += PAGE_SIZE) {
+    const { data, error } = await page(start, start + PAGE_SIZE - 1);
+    if (error) throw createError(error.message, 400);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function toFigures(totals: Totals): OccupancyFigures {
+  return {
+    seat_hours_available: Math.round(totals.available / 60 * 100) / 100,
+    seat_hours_used: Math.round(totals.used / 60 * 100) / 100,
+    percentage: totals.available > 0 ? Math.round(totals.used / totals.available * 1000) / 10 : 0
+  };
+}
+
+function addTotals(target: Totals, source: Totals): void {
+  target.available += source.available;
+  target.used += source.used;
+}
+
+/**
+ * Occupancy engine: seat-hours used against seat-hours available during the
+ * service hours, per day, service period and area. Seats come from
+ * tables.capacity; usage from reservations (their party over their duration)
+ * and from the occupied intervals of table_status_history not covered by a
+ * reservation, which are walk-ins and count the whole table.
+ */
+export class OccupancyService {
+  async getOccupancy(restaurantId: string, from: string, to: string, areaId?: string): Promise<OccupancyReport> {
+    try {
+      const days = moment(to, 'YYYY-MM-DD').diff(moment(from, 'YYYY-MM-DD'), 'days') + 1;
+      if (days < 1) throw createError('The start date must not be after the end date', 400);
+      if (days > MAX_OCCUPANCY_RANGE_DAYS) {
+        throw createError(`The date range cannot exceed ${MAX_OCCUPANCY_RANGE_DAYS} days`, 400);
+      }
+
+      const { data: restaurant, error: restaurantError } = await supabase
+        .from('restaurants')
+        .select('id, opening_hours, opening_hours_overrides, timezone')
+        .eq('id', restaurantId)
+        .single();
+
+      if (restaurantError || !restaurant) throw createError('Restaurant not found', 404);
+
+      const timezone = resolveTimezone(restaurant.timezone);
+
+      let tablesQuery = supabase
+        .from('tables')
+        .select('id, capacity, area_id')
+        .eq('restaurant_id', restaurantId)
+        .eq('is_active', true);
+      if (areaId) tablesQuery = tablesQuery.eq('area_id', areaId);
+
+      const [settings, tablesResult, areasResult] = await Promise.all([
+        reservationSettingsService.getSettings(restaurantId),
+        tablesQuery,
+        supabase
+          .from('restaurant_areas')
+          .select('id, name, order')
+          .eq('restaurant_id', restaurantId)
+          .order('order', { ascending: true })
+      ]);
+
+      if (tablesResult.error) throw createError(tablesResult.error.message, 400);
+      if (areasResult.error) throw createError(areasResult.error.message, 400);
+
+      const tables: OccupancyTable[] = (tablesResult.data || []).map(table => ({
+        id: table.id,
+        capacity: table.capacity || 0,
+        area_id: table.area_id || null
+      }));
+      const areaNames = new Map<string, string>((areasResult.data || []).map(area => [area.id, area.name]));
+      const areaOrder = (areasResult.data || []).map(area => area.id);
+
+      // A véspera entra na busca: reservas e mesas ocupadas podem atravessar a meia-noite
+      const fetchFrom = moment(from, 'YYYY-MM-DD').subtract(1, 'day').format('YYYY-MM-DD');
+      const fetchTo = moment(to, 'YYYY-MM-DD').add(1, 'day').format('YYYY-MM-DD');
+
+      const reservationSegments = await this.getReservationSegments(restaurantId, fetchFrom, to, tables, settings, areaId);
+      const segments = [
+        ...reservationSegments,
+        ...(await this.getWalkInSegments(tables, fetchFrom, fetchTo, timezone, reservationSegments))
+      ];
+
+      // Segmentos indexados por dia para não percorrer o período inteiro a cada turno
+      const segmentsByDay = new Map<number, Segment[]>();
+      for (const segment of segments) {
+        const firstDay = Math.floor(segment.start / MINUTES_PER_DAY);
+        const lastDay = Math.floor((segment.end - 1) / MINUTES_PER_DAY);
+        for (let day = firstDay; day <= lastDay; day++) {
+          const list = segmentsByDay.get(day) || [];
+          list.push(segment);
+          segmentsByDay.set(day, list);
+        }
+      }
+
+      const seatsByArea = new Map<string | null, number>();
+      for (const table of tables) {
+        seatsByArea.set(table.area_id, (seatsByArea.get(table.area_id) || 0) + table.capacity);
+      }
+
+      const reportTotals: Totals = { available: 0, used: 0 };
+      const reportAreas = new Map<string | null, Totals>();
+      const result: OccupancyDay[] = [];
+
+      for (let offset = 0; offset < days; offset++) {
+        const date = moment(from, 'YYYY-MM-DD').add(offset, 'days').format('YYYY-MM-DD');
+        const dayStart = wallMinutes(date);
+        const daySegments = segmentsByDay.get(Math.floor(dayStart / MINUTES_PER_DAY)) || [];
+        const windows = getServiceWindows(restaurant.opening_hours, restaurant.opening_hours_overrides, date);
+
+        const dayTotals: Totals = { available: 0, used: 0 };
+        const dayAreas = new Map<string | null, Totals>();
+        const periods: OccupancyPeriod[] = [];
+
+        for (const window of windows || [{ start: 0, end: MINUTES_PER_DAY }]) {
+          const range = { start: dayStart + window.start, end: dayStart + window.end };
+          const periodAreas = new Map<string | null, Totals>();
+
+          for (const [area, seats] of seatsByArea) {
+            periodAreas.set(area, { available: seats * (window.end - window.start), used: 0 });
+          }
+          for (const segment of daySegments) {
+            const minutes = overlapMinutes(segment, range);
+            if (minutes === 0) continue;
+            const totals = periodAreas.get(segment.area_id) || { available: 0, used: 0 };
+            totals.used += minutes * segment.seats;
+            periodAreas.set(segment.area_id, totals);
+          }
+
+          const periodTotals: Totals = { available: 0, used: 0 };
+          for (const [area, totals] of periodAreas) {
+            addTotals(periodTotals, totals);
+            if (!dayAreas.has(area)) dayAreas.set(area, { available: 0, used: 0 });
+            addTotals(dayAreas.get(area)!, totals);
+          }
+          addTotals(dayTotals, periodTotals);
+
+          periods.push({
+            name: windows === undefined ? 'Dia inteiro' : getServicePeriodName(window.start),
+            start_time: minutesToTime(window.start),
+            end_time: minutesToTime(window.end),
+            ...toFigures(periodTotals),
+            areas: this.toAreaFigures(periodAreas, areaNames, areaOrder)
+          });
+        }
+
+        for (const [area, totals] of dayAreas) {
+          if (!reportAreas.has(area)) reportAreas.set(area, { available: 0, used: 0 });
+          addTotals(reportAreas.get(area)!, totals);
+        }
+        addTotals(reportTotals, dayTotals);
+
+        result.push({
+          date,
+          ...toFigures(dayTotals),
+          periods,
+          areas: this.toAreaFigures(dayAreas, areaNames, areaOrder)
+        });
+      }
+
+      return {
+        from,
+        to,
+        area_id: areaId || null,
+        ...toFigures(reportTotals),
+        days: result,
+        areas: this.toAreaFigures(reportAreas, areaNames, areaOrder)
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to compute occupancy: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Seats held by reservations: the party spread over the member tables of a
+   * combination, each up to its capacity. Reservations without a table
+   * (overbooking) count against their area.
+   */
+  private async getReservationSegments(
+    restaurantId: string,
+    from: string,
+    to: string,
+    tables: OccupancyTable[],
+    settings: ReservationSettings['settings'],
+    areaId?: string
+  ): Promise<Segment[]> {
+    const tablesById = new Map(tables.map(table => [table.id, table]));
+
+    const reservations = await fetchAllRows((start, end) => {
+      let query = supabase
+        .from('reservations')
+        .select('id, reservation_date, start_time, end_time, number_of_people, table_id, area_id, table_combination:table_combinations(table_ids)')
+        .eq('restaurant_id', restaurantId)
+        .gte('reservation_date', from)
+        .lte('reservation_date', to)
+        .in('status', OCCUPYING_STATUSES)
+        .order('id', { ascending: true })
+        .range(start, end);
+      if (areaId) query = query.eq('area_id', areaId);
+      return query.returns<OccupyingReservationRow[]>();
+    });
+
+    const segments: Segment[] = [];
+
+    for (const reservation of reservations) {
+      const range = toTimeRange(
+        reservation.start_time,
+        reservation.end_time,
+        resolveReservationDuration(settings, {
+          date: reservation.reservation_date,
+          start_time: reservation.start_time,
+          number_of_people: reservation.number_of_people,
+          area_id: reservation.area_id
+        })
+      );
+      const start = wallMinutes(reservation.reservation_date, range.start);
+      const end = wallMinutes(reservation.reservation_date, range.end);
+      const tableIds = reservation.table_combination?.table_ids || (reservation.table_id ? [reservation.table_id] : []);
+
+      if (tableIds.length === 0) {
+        segments.push({ start, end, seats: reservation.number_of_people || 0, area_id: reservation.area_id || null });
+        continue;
+      }
+
+      let remaining = reservation.number_of_people || 0;
+      for (const tableId of tableIds) {
+        const table = tablesById.get(tableId);
+        if (!table || remaining <= 0) continue;
+        const seats = Math.min(table.capacity, remaining);
+        remaining -= seats;
+        segments.push({ start, end, seats, area_id: table.area_id, table_id: table.id });
+      }
+    }
+
+    return segments;
+  }
+
+  /**
+   * Occupied intervals from table_status_history that no reservation explains.
+   * Their party size is unknown, so the whole table counts as used.
+   */
+  private async getWalkInSegments(
+    tables: OccupancyTable[],
+    from: string,
+    to: string,
+    timezone: string,
+    reservationSegments: Segment[]
+  ): Promise<Segment[]> {
+    if (tables.length === 0) return [];
+
+    const occupiedByTable = await this.getOccupiedIntervals(tables.map(table => table.id), from, to, timezone);
+
+    // Mesas ocupadas por reservas já foram contadas com o tamanho do grupo
+    const reservedByTable = new Map<string, TimeRange[]>();
+    for (const segment of reservationSegments) {
+      if (!segment.table_id) continue;
+      const ranges = reservedByTable.get(segment.table_id) || [];
+      ranges.push(segment);
+      reservedByTable.set(segment.table_id, ranges);
+    }
+
+    return tables.flatMap(table => (occupiedByTable.get(table.id) || [])
+      .flatMap(interval => subtractRanges(interval, reservedByTable.get(table.id) || []))
+      .map(interval => ({
+        start: interval.start,
+        end: interval.end,
+        seats: table.capacity,
+        area_id: table.area_id,
+        table_id: table.id
+      })));
+  }
+
+  /**
+   * Occupied intervals of each table between local midnight of from and of to,
+   * in wall-clock minutes, read from table_status_history
+   */
+  async getOccupiedIntervals(
+    tableIds: string[],
+    from: string,
+    to: string,
+    timezone: string
+  ): Promise<Map<string, OccupiedInterval[]>> {
+    const occupiedByTable = new Map<string, OccupiedInterval[]>(tableIds.map(id => [id, []]));
+    if (tableIds.length === 0) return occupiedByTable;
+
+    const rangeStart = startOfLocalDay(from, timezone);
+    const rangeEnd = startOfLocalDay(to, timezone);
+    const history = await fetchAllRows((start, end) => supabase
+      .from('table_status_history')
+      .select('table_id, previous_status, new_status, changed_at')
+      .in('table_id', tableIds)
+      .gte('changed_at', rangeStart)
+      .lt('changed_at', rangeEnd)
+      .order('changed_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(start, end)
+      .returns<StatusChangeRow[]>());
+
+    const windowStart = instantToWallMinutes(rangeStart, timezone);
+    const windowEnd = Math.min(instantToWallMinutes(rangeEnd, timezone), instantToWallMinutes(new Date(), timezone));
+
+    const openSince = new Map<string, { at: number; complete: boolean }>();
+    const seen = new Set<string>();
+
+    for (const change of history) {
+      const at = instantToWallMinutes(change.changed_at, timezone);
+      const intervals = occupiedByTable.get(change.table_id);
+      if (!intervals) continue;
+
+      // A mesa já estava ocupada antes do início da busca
+      if (!seen.has(change.table_id) && change.previous_status === 'occupied') {
+        openSince.set(change.table_id, { at: windowStart, complete: false });
+      }
+      seen.add(change.table_id);
+
+      const since = openSince.get(change.table_id);
+      if (change.new_status === 'occupied') {
+        if (!since) openSince.set(change.table_id, { at, complete: true });
+      } else if (since) {
+        intervals.push({ start: since.at, end: at, complete: since.complete });
+        openSince.delete(change.table_id);
+      }
+    }
+
+    for (const [tableId, since] of openSince) {
+      if (windowEnd > since.at) {
+        occupiedByTable.get(tableId)!.push({ start: since.at, end: windowEnd, complete: false });
+      }
+    }
+
+    return occupiedByTable;
+  }
+
+  private toAreaFigures(
+    areas: Map<string | null, Totals>,
+    areaNames: Map<string, string>,
+    areaOrder: string[]
+  ): OccupancyAreaFigures[] {
+    const position = (areaId: string | null) => {
+      const index = areaId ? areaOrder.indexOf(areaId) : -1;
+      return index === -1 ? areaOrder.length : index;
+    };
+
+    return [...areas.entries()]
+      .sort(([a], [b]) => position(a) - position(b))
+      .map(([areaId, totals]) => ({
+        area_id: areaId,
+        area_name: (areaId && areaNames.get(areaId)) || 'Sem área',
+        ...toFigures(totals)
+      }));
+  }
+}
+
+export default new OccupancyService();
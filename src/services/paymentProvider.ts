@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import { createError } from '../middleware/errorHandler';
+
+export interface PaymentChargeRequest {
+  amount: number;
+  currency: string;
+  payment_token: string;
+  reference: string;
+  description?: string;
+}
+
+export interface PaymentResult {
+  id: string;
+  status: 'paid' | 'failed' | 'refunded';
+  amount: number;
+  failure_reason?: string;
+}
+
+/**
+ * What the reservation flow needs from a payment gateway: charge a tokenized
+ * payment method and refund (part of) an earlier charge
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  charge(request: PaymentChargeRequest): Promise<PaymentResult>;
+  refund(chargeId: string, amount: number): Promise<PaymentResult>;
+}
+
+// Tokens aceitos pelo provedor local para simular recusa
+export const FAKE_DECLINED_TOKEN = 'tok_declined';
+
+/**
+ * In-memory provider for development and tests. Every token is accepted except
+ * FAKE_DECLINED_TOKEN; refunds cannot exceed what is left of the charge.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  private charges = new Map<string, { amount: number; refunded: number }>();
+
+  async charge(request: PaymentChargeRequest): Promise<PaymentResult> {
+    const id = `fake_ch_${crypto.randomUUID()}`;
+
+    if (request.payment_token === FAKE_DECLINED_TOKEN) {
+      return { id, status: 'failed', amount: request.amount, failure_reason: 'Card declined' };
+    }
+
+    this.charges.set(id, { amount: request.amount, refunded: 0 });
+    return { id, status: 'paid', amount: request.amount };
+  }
+
+  async refund(chargeId: string, amount: number): Promise<PaymentResult> {
+    const charge = this.charges.get(chargeId);
+    if (!charge) {
+      return { id: chargeId, status: 'failed', amount, failure_reason: 'Charge not found' };
+    }
+    if (charge.refunded + amount > charge.amount) {
+      return { id: chargeId, status: 'failed', amount, failure_reason: 'Refund exceeds the charged amount' };
+    }
+
+    charge.refunded += amount;
+    return { id: `fake_re_${crypto.randomUUID()}`, status: 'refunded', amount };
+  }
+}
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * Provider selected by PAYMENT_PROVIDER (only "fake" is available for now).
+ * There is no default: without a configured provider deposits cannot be
+ * charged or refunded, and the fake one is refused in production.
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (provider) return provider;
+
+  const name = process.env.PAYMENT_PROVIDER;
+  if (!name) {
+    throw createError('No payment provider is configured', 503, 'PAYMENT_PROVIDER_NOT_CONFIGURED');
+  }
+
+  switch (name) {
+    case 'fake':
+      if (process.env.NODE_ENV === 'production') {
+        throw createError('The fake payment provider cannot be used in production', 503, 'PAYMENT_PROVIDER_NOT_CONFIGURED');
+      }
+      provider = new FakePaymentProvider();
+      return provider;
+    default:
+      throw createError(`Unknown payment provider: ${name}`, 500);
+  }
+}
+
+/**
+ * Replace the provider in use, e.g. with a stub in tests
+ */
+export function setPaymentProvider(custom: PaymentProvider | null): void {
+  provider = custom;
+}
@@ -0,0 +1,142 @@
+/**
+ * Minimal PDF writer for printable reports: A4 pages with text in the
+ * standard Helvetica fonts and lines. Text is encoded as WinAnsi, which
+ * covers Portuguese accents; other characters are printed as "?".
+ */
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+// Largura média de um caractere do Helvetica, em frações do tamanho da fonte
+const AVERAGE_CHAR_WIDTH = 0.5;
+const BOLD_CHAR_WIDTH = 0.55;
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  gray?: number;
+}
+
+function encodeText(text: string): string {
+  return Array.from(text.normalize('NFC'))
+    .map(char => (char.charCodeAt(0) <= 0xff ? char : '?'))
+    .join('')
+    .replace(/[\\()]/g, match => `\\${match}`)
+    .replace(/[\r\n\t]/g, ' ');
+}
+
+function format(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export function estimateTextWidth(text: string, size: number, bold = false): number {
+  return text.length * size * (bold ? BOLD_CHAR_WIDTH : AVERAGE_CHAR_WIDTH);
+}
+
+/**
+ * Cut the text to fit the width, ending with "..." when shortened
+ */
+export function fitText(text: string, width: number, size: number, bold = false): string {
+  if (estimateTextWidth(text, size, bold) <= width) return text;
+  const chars = Math.max(Math.floor(width / (size * (bold ? BOLD_CHAR_WIDTH : AVERAGE_CHAR_WIDTH))) - 3, 0);
+  return `${text.slice(0, chars).trimEnd()}...`;
+}
+
+/**
+ * Break the text into lines that fit the width
+ */
+export function wrapText(text: string, width: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && estimateTextWidth(candidate, size, bold) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+
+  return lines.map(current => fitText(current, width, size, bold));
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): this {
+    this.pages.push([]);
+    return this;
+  }
+
+  /**
+   * Write text with its baseline at y, measured from the top of the page
+   */
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): this {
+    const { size = 10, bold = false, gray = 0 } = options;
+    this.current().push(
+      `BT ${format(gray)} g /${bold ? 'F2' : 'F1'} ${format(size)} Tf ${format(x)} ${format(PAGE_HEIGHT - y)} Td (${encodeText(text)}) Tj ET`
+    );
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5, gray = 0): this {
+    this.current().push(
+      `${format(gray)} G ${format(width)} w ${format(x1)} ${format(PAGE_HEIGHT - y1)} m ${format(x2)} ${format(PAGE_HEIGHT - y2)} l S`
+    );
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) this.addPage();
+
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+
+    // 1: catálogo, 2: páginas, 3 e 4: fontes; depois cada página e seu conteúdo
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((commands, index) => {
+      const pageId = 5 + index * 2;
+      const contentId = pageId + 1;
+      const stream = commands.join('\n');
+
+      pageIds.push(pageId);
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${format(PAGE_WIDTH)} ${format(PAGE_HEIGHT)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+      objects[contentId] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+    });
+
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xref = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private current(): string[] {
+    if (this.pages.length === 0) this.addPage();
+    return this.pages[this.pages.length - 1]!;
+  }
+}
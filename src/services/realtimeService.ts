@@ -0,0 +1,172 @@
+import { Response } from 'express';
+import { RealtimeEvent, RealtimeEventType } from '../types';
+
+export const MAX_REPLAY_EVENTS = Number(process.env.REALTIME_REPLAY_EVENTS) || 500;
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const CLIENT_RETRY_MS = 3000;
+
+interface Channel {
+  sequence: number;
+  events: RealtimeEvent[];
+  clients: Set<Response>;
+}
+
+type StreamResponse = Response & { flush?: () => void };
+
+/**
+ * Format one Server-Sent Events frame
+ */
+export function formatSseFrame(event: string, data: unknown, id?: string): string {
+  const lines = JSON.stringify(data).split('\n').map(line => `data: ${line}`);
+  return `${id ? `id: ${id}\n` : ''}event: ${event}\n${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Per-restaurant channels of floor events (tables, reservations and the
+ * waiting list) streamed to hosts, tablets and kitchen screens over
+ * Server-Sent Events. The latest events of each restaurant are kept in memory
+ * so a client reconnecting with Last-Event-ID gets what it missed; channels
+ * live in this process only.
+ */
+export class RealtimeService {
+  private channels = new Map<string, Channel>();
+  // Ids de eventos de um processo anterior não podem ser confundidos com os atuais
+  private readonly epoch = Date.now().toString(36);
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  /**
+   * Send an event to every client of the restaurant and keep it for replay.
+   * Never throws, so publishing cannot break the change that caused it.
+   */
+  publish<T>(restaurantId: string | undefined | null, type: RealtimeEventType, data: T): RealtimeEvent<T> | null {
+    if (!restaurantId) return null;
+
+    try {
+      const channel = this.getChannel(restaurantId);
+      channel.sequence++;
+
+      const event: RealtimeEvent<T> = {
+        id: `${this.epoch}-${channel.sequence}`,
+        type,
+        restaurant_id: restaurantId,
+        data,
+        occurred_at: new Date().toISOString()
+      };
+
+      channel.events.push(event);
+      if (channel.events.length > MAX_REPLAY_EVENTS) {
+        channel.events.splice(0, channel.events.length - MAX_REPLAY_EVENTS);
+      }
+
+      const frame = formatSseFrame(type, event, event.id);
+      for (const client of channel.clients) {
+        this.write(client, frame);
+      }
+
+      return event;
+    } catch (error) {
+      console.error(`Error publishing ${type} event:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Stream the restaurant's events to an SSE response. Events published after
+   * lastEventId are replayed first; when that id is no longer known (too old,
+   * or from before a restart) the client gets a "resync" event and should
+   * reload the floor from the REST endpoints. Returns the unsubscribe function.
+   */
+  subscribe(restaurantId: string, res: Response, lastEventId?: string): () => void {
+    const channel = this.getChannel(restaurantId);
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Proxies como o nginx não devem segurar os eventos em buffer
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    this.write(res, `retry: ${CLIENT_RETRY_MS}\n\n`);
+
+    const missed = lastEventId ? this.getEventsAfter(channel, lastEventId) : [];
+    if (missed === null) {
+      this.write(res, formatSseFrame('resync', { reason: 'Missed events are no longer available' }));
+    } else {
+      for (const event of missed) {
+        this.write(res, formatSseFrame(event.type, event, event.id));
+      }
+    }
+
+    this.write(res, formatSseFrame('connected', {
+      restaurant_id: restaurantId,
+      last_event_id: channel.events[channel.events.length - 1]?.id || null
+    }));
+
+    channel.clients.add(res);
+    this.startHeartbeat();
+
+    return () => {
+      channel.clients.delete(res);
+      if (this.getClientCount() === 0) this.stopHeartbeat();
+    };
+  }
+
+  getClientCount(restaurantId?: string): number {
+    if (restaurantId) return this.channels.get(restaurantId)?.clients.size || 0;
+    let total = 0;
+    for (const channel of this.channels.values()) total += channel.clients.size;
+    return total;
+  }
+
+  /**
+   * Buffered events after the given id, or null when the id cannot be placed
+   */
+  private getEventsAfter(channel: Channel, lastEventId: string): RealtimeEvent[] | null {
+    const [epoch, sequenceText] = lastEventId.split('-');
+    const sequence = Number(sequenceText);
+    if (epoch !== this.epoch || !Number.isInteger(sequence) || sequence > channel.sequence) return null;
+
+    const oldest = channel.events[0];
+    const oldestSequence = oldest ? Number(oldest.id.split('-')[1]) : channel.sequence + 1;
+    if (sequence < oldestSequence - 1) return null;
+
+    return channel.events.filter(event => Number(event.id.split('-')[1]) > sequence);
+  }
+
+  private getChannel(restaurantId: string): Channel {
+    let channel = this.channels.get(restaurantId);
+    if (!channel) {
+      channel = { sequence: 0, events: [], clients: new Set() };
+      this.channels.set(restaurantId, channel);
+    }
+    return channel;
+  }
+
+  private write(res: StreamResponse, chunk: string): void {
+    if (res.writableEnded) return;
+    res.write(chunk);
+    // A compressão do Express segura a resposta até o flush
+    res.flush?.();
+  }
+
+  // Comentários periódicos mantêm a conexão aberta em proxies e load balancers
+  private startHeartbeat(): void {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      for (const channel of this.channels.values()) {
+        for (const client of channel.clients) this.write(client, ': ping\n\n');
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
+
+export default new RealtimeService();
@@ -0,0 +1,212 @@
+import { supabase } from '../config/database';
+import {
+  ExperienceEvent,
+  ReservationExperienceInput,
+  ReservationExperienceLink
+} from '../types';
+import { createError } from '../middleware/errorHandler';
+import { timeToMinutes } from './availabilityService';
+import moment from 'moment';
+
+type EventSchedule = Pick<ExperienceEvent, 'init_date' | 'end_date' | 'recurrence_type' | 'day_recurrence'>;
+
+// Experiências vinculadas, com os nomes para exibição
+export const RESERVATION_EXPERIENCE_SELECT = `
+  id, reservation_id, restaurant_id, bonification_id, event_id, event_exclusive_id, created_at,
+  bonification:experience_bonifications(id, name),
+  event:experience_events(id, name, init_time, end_time),
+  event_exclusive:experience_events_exclusives(id, name)
+`;
+
+const EXPERIENCE_LINK_FIELDS: (keyof ReservationExperienceLink)[] = ['bonification_id', 'event_id', 'event_exclusive_id'];
+
+// day_recurrence vem do frontend como lista de dias ou { days: [...] }
+function getRecurrenceDays(dayRecurrence: unknown): number[] {
+  let value = dayRecurrence;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+
+  const days = Array.isArray(value) ? value : (value as { days?: unknown } | null)?.days;
+  return Array.isArray(days) ? days.map(Number).filter(day => Number.isInteger(day)) : [];
+}
+
+/**
+ * Whether the event runs on the date. Events without recurrence_type run from
+ * init_date to end_date (or only on init_date); recurring events run within
+ * that range on the weekdays (SEMANAL) or days of the month (MENSAL) listed in
+ * day_recurrence, defaulting to the day of init_date, and ANUAL events on the
+ * anniversary of init_date.
+ */
+export function isEventActiveOn(event: EventSchedule, date: string): boolean {
+  const start = event.init_date ? String(event.init_date).slice(0, 10) : undefined;
+  const end = event.end_date ? String(event.end_date).slice(0, 10) : undefined;
+
+  if (start && date < start) return false;
+  if (end && date > end) return false;
+
+  const day = moment(date, 'YYYY-MM-DD');
+  const days = getRecurrenceDays(event.day_recurrence);
+
+  switch (event.recurrence_type?.toUpperCase()) {
+    case undefined:
+    case '':
+      return !!end || !start || date === start;
+    case 'SEMANAL':
+      return days.length > 0 ? days.includes(day.day()) : !start || moment(start, 'YYYY-MM-DD').day() === day.day();
+    case 'MENSAL':
+      return days.length > 0 ? days.includes(day.date()) : !start || moment(start, 'YYYY-MM-DD').date() === day.date();
+    case 'ANUAL':
+      return !start || start.slice(5) === date.slice(5);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Whether a reservation starting at startTime falls within the event's
+ * init_time/end_time. An end before the start means the event runs past midnight.
+ */
+export function isEventActiveAt(event: Pick<ExperienceEvent, 'init_time' | 'end_time'>, startTime: string): boolean {
+  if (!event.init_time && !event.end_time) return true;
+
+  const start = timeToMinutes(startTime);
+  const from = event.init_time ? timeToMinutes(event.init_time) : 0;
+  const to = event.end_time ? timeToMinutes(event.end_time) : 24 * 60;
+
+  return from < to ? start >= from && start < to : start >= from || start < to;
+}
+
+export function hasExperienceLink(link: ReservationExperienceLink | null | undefined): link is ReservationExperienceLink {
+  return !!link && EXPERIENCE_LINK_FIELDS.some(field => !!link[field]);
+}
+
+export function sameExperienceLink(
+  a: ReservationExperienceLink | null | undefined,
+  b: ReservationExperienceLink | null | undefined
+): boolean {
+  return EXPERIENCE_LINK_FIELDS.every(field => (a?.[field] || null) === (b?.[field] || null));
+}
+
+export class ReservationExperienceService {
+  /**
+   * Experience link requested in a reservation payload. reservation_experience_id
+   * may be the id of a bonification, event or exclusive event and is added to
+   * reservation_experience_data. Returns undefined when the payload does not
+   * touch experiences and null when it clears them.
+   */
+  async resolveLink(
+    restaurantId: string,
+    input: ReservationExperienceInput
+  ): Promise<ReservationExperienceLink | null | undefined> {
+    if (input.reservation_experience_id === undefined && input.reservation_experience_data === undefined) {
+      return undefined;
+    }
+
+    const data = input.reservation_experience_data || {};
+    const link: ReservationExperienceLink = Object.fromEntries(EXPERIENCE_LINK_FIELDS.map(field => [field, data[field] || null]));
+
+    if (input.reservation_experience_id) {
+      const field = await this.findExperienceKind(restaurantId, input.reservation_experience_id);
+      if (!field) throw createError('Experience not found', 404);
+      link[field] = input.reservation_experience_id;
+    }
+
+    return hasExperienceLink(link) ? link : null;
+  }
+
+  /**
+   * Reject experiences that are inactive or, for events, not running on the
+   * reservation date and time
+   */
+  async assertLinkApplies(restaurantId: string, link: ReservationExperienceLink, date: string, startTime: string): Promise<void> {
+    if (link.bonification_id) {
+      await this.assertActive('experience_bonifications', restaurantId, link.bonification_id, 'Bonification');
+    }
+    if (link.event_exclusive_id) {
+      await this.assertActive('experience_events_exclusives', restaurantId, link.event_exclusive_id, 'Exclusive event');
+    }
+    if (link.event_id) {
+      const { data: event, error } = await supabase
+        .from('experience_events')
+        .select('*')
+        .eq('id', link.event_id)
+        .eq('restaurant_id', restaurantId)
+        .maybeSingle();
+
+      if (error) throw createError(error.message, 400);
+      if (!event) throw createError('Event not found', 404);
+
+      if (event.status === false) {
+        throw createError(`The event "${event.name}" is not active`, 400, 'EXPERIENCE_INACTIVE');
+      }
+      if (!isEventActiveOn(event, date)) {
+        throw createError(`The event "${event.name}" does not run on ${date}`, 400, 'EXPERIENCE_NOT_ON_DATE');
+      }
+      if (!isEventActiveAt(event, startTime)) {
+        throw createError(
+          `The event "${event.name}" runs from ${event.init_time || '00:00'} to ${event.end_time || '24:00'}`,
+          400,
+          'EXPERIENCE_OUTSIDE_HOURS'
+        );
+      }
+    }
+  }
+
+  async getLink(reservationId: string): Promise<ReservationExperienceLink | null> {
+    const { data, error } = await supabase
+      .from('reservation_experiences')
+      .select('bonification_id, event_id, event_exclusive_id')
+      .eq('reservation_id', reservationId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw createError(error.message, 400);
+
+    return data;
+  }
+
+  private async findExperienceKind(restaurantId: string, id: string): Promise<keyof ReservationExperienceLink | null> {
+    const tables: [string, keyof ReservationExperienceLink][] = [
+      ['experience_events', 'event_id'],
+      ['experience_bonifications', 'bonification_id'],
+      ['experience_events_exclusives', 'event_exclusive_id']
+    ];
+
+    for (const [table, field] of tables) {
+      const { data, error } = await supabase
+        .from(table)
+        .select('id')
+        .eq('id', id)
+        .eq('restaurant_id', restaurantId)
+        .maybeSingle();
+
+      if (error) throw createError(error.message, 400);
+      if (data) return field;
+    }
+
+    return null;
+  }
+
+  private async assertActive(table: string, restaurantId: string, id: string, label: string): Promise<void> {
+    const { data, error } = await supabase
+      .from(table)
+      .select('id, name, status')
+      .eq('id', id)
+      .eq('restaurant_id', restaurantId)
+      .maybeSingle();
+
+    if (error) throw createError(error.message, 400);
+    if (!data) throw createError(`${label} not found`, 404);
+    if (!data.status) {
+      throw createError(`${label} "${data.name}" is not active`, 400, 'EXPERIENCE_INACTIVE');
+    }
+  }
+}
+
+export default new ReservationExperienceService();
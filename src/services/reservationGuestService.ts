@@ -0,0 +1,230 @@
+import { supabase } from '../config/database';
+import { signLinkToken, verifyLinkToken } from '../config/linkSigning';
+import {
+  ApiResponse,
+  GuestReservationAction,
+  GuestReservationLink,
+  GuestReservationView,
+  Reservation
+} from '../types';
+import { createError, AppError } from '../middleware/errorHandler';
+import reservationService from './reservationService';
+import availabilityService from './availabilityService';
+import restaurantService from './restaurantService';
+import restaurantTimeService, { toInstant } from './restaurantTimeService';
+import moment from 'moment';
+
+// Ações que o cliente pode fazer em cada status
+const GUEST_ACTIONS: Partial<Record<Reservation['status'], GuestReservationAction[]>> = {
+  pending: ['confirm', 'reschedule', 'cancel'],
+  confirmed: ['reschedule', 'cancel']
+};
+
+interface GuestLinkPayload {
+  reservation_id: string;
+  restaurant_id: string;
+  // guest_link_version da reserva quando o link foi emitido
+  version: number;
+  exp: number;
+}
+
+/**
+ * Moment the reservation starts, taking the restaurant's timezone into account
+ */
+async function startsAt(reservation: Pick<Reservation, 'restaurant_id' | 'reservation_date' | 'start_time'>): Promise<moment.Moment> {
+  const timezone = await restaurantTimeService.getTimezone(reservation.restaurant_id);
+  return moment(toInstant(reservation.reservation_date, reservation.start_time, timezone));
+}
+
+export class ReservationGuestService {
+  /**
+   * Signed link that lets the guest manage a single reservation without
+   * logging in. The link expires when the reservation starts.
+   */
+  async createGuestLink(reservationId: string, restaurantId: string, baseUrl: string): Promise<ApiResponse<GuestReservationLink>> {
+    try {
+      const reservation = await this.findReservation(reservationId, restaurantId);
+
+      return {
+        success: true,
+        data: await this.buildLink(reservation, baseUrl)
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to create guest link: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  async getReservation(token: string): Promise<ApiResponse<GuestReservationView>> {
+    const reservation = await this.resolveToken(token);
+
+    return {
+      success: true,
+      data: await this.toView(reservation)
+    };
+  }
+
+  async confirmReservation(token: string): Promise<ApiResponse<GuestReservationView>> {
+    const reservation = await this.resolveToken(token);
+    await this.assertAllowed(reservation, 'confirm');
+
+    const result = await reservationService.updateReservationStatus(reservation.id, 'confirmed', {
+      notes: 'Confirmada pelo cliente'
+    });
+
+    return {
+      success: true,
+      data: await this.toView(result.data!),
+      message: 'Reservation confirmed successfully'
+    };
+  }
+
+  /**
+   * Move the reservation to another date, time or party size. The current
+   * table is kept when it is still free; otherwise a new free table is picked,
+   * preferably in the same area, going through the same checks as a staff booking.
+   */
+  async rescheduleReservation(
+    token: string,
+    changes: Pick<Reservation, 'reservation_date' | 'start_time'> & { number_of_people?: number },
+    baseUrl: string
+  ): Promise<ApiResponse<GuestReservationView & { link: GuestReservationLink }>> {
+    const reservation = await this.resolveToken(token);
+    await this.assertAllowed(reservation, 'reschedule');
+
+    const numberOfPeople = changes.number_of_people || reservation.number_of_people;
+    const request = {
+      date: changes.reservation_date,
+      start_time: changes.start_time,
+      number_of_people: numberOfPeople
+    };
+
+    let keepTable = numberOfPeople === reservation.number_of_people && !!reservation.table_id;
+    if (keepTable && reservation.table_combination_id) {
+      keepTable = !(await availabilityService.checkCombinationConflict(reservation.table_combination_id, request, reservation.id));
+    } else if (keepTable) {
+      keepTable = !(await availabilityService.checkTableConflict(reservation.table_id!, request, reservation.id));
+    }
+
+    const result = await reservationService.updateReservation(
+      reservation.id,
+      {
+        reservation_date: changes.reservation_date,
+        start_time: changes.start_time,
+        number_of_people: numberOfPeople
+      },
+      undefined,
+      { reassignTable: !keepTable }
+    );
+
+    // O link anterior expira no horário antigo; o cliente recebe um novo
+    return {
+      success: true,
+      data: { ...(await this.toView(result.data!)), link: await this.buildLink(result.data!, baseUrl) },
+      message: 'Reservation rescheduled successfully'
+    };
+  }
+
+  async cancelReservation(token: string, reason?: string): Promise<ApiResponse<GuestReservationView>> {
+    const reservation = await this.resolveToken(token);
+    await this.assertAllowed(reservation, 'cancel');
+
+    const result = await reservationService.updateReservationStatus(reservation.id, 'canceled', {
+      notes: reason ? `Cancelada pelo cliente: ${reason}` : 'Cancelada pelo cliente'
+    });
+
+    return {
+      success: true,
+      data: await this.toView(result.data!),
+      message: 'Reservation canceled successfully'
+    };
+  }
+
+  private async buildLink(reservation: Reservation, baseUrl: string): Promise<GuestReservationLink> {
+    const expiresAt = await startsAt(reservation);
+    const token = signLinkToken('guest', {
+      reservation_id: reservation.id,
+      restaurant_id: reservation.restaurant_id,
+      version: reservation.guest_link_version || 1,
+      exp: expiresAt.unix()
+    });
+
+    // Com GUEST_PORTAL_URL o link abre a página do cliente no frontend
+    const url = process.env.GUEST_PORTAL_URL
+      ? `${process.env.GUEST_PORTAL_URL.replace(/\/$/, '')}/${token}`
+      : `${baseUrl}/api/public/reservations/manage/${token}`;
+
+    return { token, url, expires_at: expiresAt.toISOString() };
+  }
+
+  private async resolveToken(token: string): Promise<Reservation> {
+    const payload = verifyLinkToken<GuestLinkPayload>('guest', token);
+    if (!payload?.reservation_id || !payload.restaurant_id || !payload.version || !payload.exp) {
+      throw createError('Invalid reservation link', 401, 'GUEST_LINK_INVALID');
+    }
+    if (payload.exp <= moment().unix()) {
+      throw createError('This reservation link has expired', 401, 'GUEST_LINK_EXPIRED');
+    }
+
+    const reservation = await this.findReservation(payload.reservation_id, payload.restaurant_id);
+    // A reserva mudou de data ou horário depois que o link foi enviado
+    if (payload.version !== (reservation.guest_link_version || 1)) {
+      throw createError('This reservation link is no longer valid', 401, 'GUEST_LINK_STALE');
+    }
+
+    return reservation;
+  }
+
+  private async getAllowedActions(reservation: Reservation): Promise<GuestReservationAction[]> {
+    if (!(await startsAt(reservation)).isAfter(moment())) return [];
+    return GUEST_ACTIONS[reservation.status] || [];
+  }
+
+  private async assertAllowed(reservation: Reservation, action: GuestReservationAction): Promise<void> {
+    if (!(await this.getAllowedActions(reservation)).includes(action)) {
+      throw createError(`The ${action} action is not available for this reservation`, 409, 'GUEST_ACTION_NOT_ALLOWED');
+    }
+  }
+
+  private async toView(reservation: Reservation & { area?: { name?: string } | null }): Promise<GuestReservationView> {
+    const restaurant = await restaurantService.getRestaurantById(reservation.restaurant_id);
+
+    return {
+      id: reservation.id,
+      customer_name: reservation.customer_name,
+      number_of_people: reservation.number_of_people,
+      reservation_date: reservation.reservation_date,
+      start_time: reservation.start_time,
+      end_time: reservation.end_time,
+      status: reservation.status,
+      area_name: reservation.area?.name,
+      deposit_status: reservation.deposit_status,
+      deposit_amount: reservation.deposit_amount,
+      restaurant: {
+        id: restaurant.id,
+        name: restaurant.name,
+        address: restaurant.address,
+        phone: restaurant.phone,
+        logo_url: restaurant.logo_url
+      },
+      allowed_actions: await this.getAllowedActions(reservation)
+    };
+  }
+
+  private async findReservation(id: string, restaurantId: string): Promise<Reservation> {
+    const { data, error } = await supabase
+      .from('reservations')
+      .select('*, area:restaurant_areas(name)')
+      .eq('id', id)
+      .eq('restaurant_id', restaurantId)
+      .single();
+
+    if (error || !data) throw createError('Reservation not found', 404);
+
+    return data;
+  }
+}
+
+export default new ReservationGuestService();
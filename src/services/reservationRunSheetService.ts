@@ -0,0 +1,353 @@
+import { supabase } from '../config/database';
+import {
+  ApiResponse,
+  GuestHistory,
+  Reservation,
+  ReservationExperience,
+  ReservationStatus,
+  RestaurantArea,
+  RunSheet,
+  RunSheetArea,
+  RunSheetEntry,
+  RunSheetPeriod,
+  Table,
+  TableCombination
+} from '../types';
+import { createError, AppError } from '../middleware/errorHandler';
+import { getServicePeriodName, getServiceWindows, minutesToTime, timeToMinutes } from './availabilityService';
+import { RESERVATION_EXPERIENCE_SELECT } from './reservationExperienceService';
+import { PdfDocument, PAGE_HEIGHT, PAGE_WIDTH, fitText, wrapText } from './pdfDocument';
+import moment from 'moment';
+
+const RUN_SHEET_SELECT = `
+  *,
+  area:restaurant_areas(id, name),
+  table:tables(id, name, number),
+  table_combination:table_combinations(id, name, table_ids),
+  celebration:categorias_comemoracao(id, nome, cor),
+  experiences:reservation_experiences(${RESERVATION_EXPERIENCE_SELECT})
+`;
+
+type RunSheetReservationRow = Reservation & {
+  area: Pick<RestaurantArea, 'id' | 'name'> | null;
+  table: Pick<Table, 'id' | 'name' | 'number'> | null;
+  table_combination: Pick<TableCombination, 'id' | 'name' | 'table_ids'> | null;
+  celebration: RunSheetEntry['celebration'];
+  experiences: ReservationExperience[] | null;
+};
+
+// Linha de get_guest_history
+interface GuestHistoryRow {
+  phone_digits: string;
+  visits: number;
+  no_shows: number;
+  last_visit: string | null;
+  customer_type: GuestHistory['customer_type'];
+}
+
+const STATUS_LABELS: Record<ReservationStatus, string> = {
+  pending: 'Pendente',
+  confirmed: 'Confirmada',
+  seated: 'Sentada',
+  completed: 'Concluída',
+  canceled: 'Cancelada',
+  no_show: 'Não compareceu'
+};
+
+const WEEKDAY_LABELS = ['Domingo', 'Segunda-feira', 'Terça-feira', 'Quarta-feira', 'Quinta-feira', 'Sexta-feira', 'Sábado'];
+
+const NO_HISTORY: GuestHistory = { visits: 0, no_shows: 0, last_visit: null, customer_type: null, is_vip: false };
+
+function digitsOnly(phone: string | null | undefined): string {
+  return (phone || '').replace(/\D/g, '');
+}
+
+function groupByArea(entries: { entry: RunSheetEntry; area_id: string | null; area_name: string }[], areaOrder: string[]): RunSheetArea[] {
+  const areas = new Map<string, RunSheetArea>();
+
+  for (const { entry, area_id, area_name } of entries) {
+    const key = area_id || '';
+    if (!areas.has(key)) {
+      areas.set(key, { area_id, area_name, reservations_count: 0, covers: 0, reservations: [] });
+    }
+    const area = areas.get(key)!;
+    area.reservations.push(entry);
+    area.reservations_count++;
+    area.covers += entry.number_of_people;
+  }
+
+  const position = (area: RunSheetArea) => {
+    const index = area.area_id ? areaOrder.indexOf(area.area_id) : -1;
+    return index === -1 ? areaOrder.length : index;
+  };
+  return [...areas.values()].sort((a, b) => position(a) - position(b) || a.area_name.localeCompare(b.area_name));
+}
+
+/**
+ * Printable version of the run sheet: one block per service period and area,
+ * one row per reservation with its details underneath
+ */
+export function renderRunSheetPdf(sheet: RunSheet): Buffer {
+  const pdf = new PdfDocument();
+  const margin = 36;
+  const bottom = PAGE_HEIGHT - margin;
+  const right = PAGE_WIDTH - margin;
+  const columns = { time: margin, guest: margin + 44, people: margin + 230, tables: margin + 262, status: margin + 362, history: margin + 432 };
+  const date = moment(sheet.date, 'YYYY-MM-DD');
+  let y = 0;
+
+  const newPage = () => {
+    pdf.addPage();
+    pdf.text(`Folha de serviço - ${sheet.restaurant.name}`, margin, margin + 12, { size: 14, bold: true });
+    pdf.text(`${WEEKDAY_LABELS[date.day()]}, ${date.format('DD/MM/YYYY')}`, margin, margin + 28, { size: 10 });
+    pdf.text(
+      `${sheet.reservations_count} reservas · ${sheet.covers} pessoas · página ${pdf.pageCount}`,
+      right - 200,
+      margin + 28,
+      { size: 9, gray: 0.4 }
+    );
+    pdf.line(margin, margin + 36, right, margin + 36);
+    y = margin + 54;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) newPage();
+  };
+
+  newPage();
+
+  if (sheet.periods.length === 0) {
+    pdf.text('Nenhuma reserva para este dia.', margin, y, { size: 11 });
+  }
+
+  for (const period of sheet.periods) {
+    ensureSpace(60);
+    const hours = period.start_time && period.end_time ? ` (${period.start_time} - ${period.end_time})` : '';
+    pdf.text(`${period.name}${hours}`, margin, y, { size: 12, bold: true });
+    pdf.text(`${period.reservations_count} reservas · ${period.covers} pessoas`, right - 130, y, { size: 9, gray: 0.4 });
+    y += 18;
+
+    for (const area of period.areas) {
+      ensureSpace(40);
+      pdf.text(`${area.area_name} - ${area.reservations_count} reservas, ${area.covers} pessoas`, margin, y, { size: 10, bold: true });
+      y += 6;
+      pdf.line(margin, y, right, y, 0.3, 0.6);
+      y += 12;
+
+      for (const entry of area.reservations) {
+        const details = [
+          entry.celebration ? `Comemoração: ${entry.celebration.nome}` : null,
+          entry.experiences.length > 0 ? `Experiências: ${entry.experiences.join(', ')}` : null,
+          entry.deposit_status ? `Sinal: ${entry.deposit_status}` : null,
+          entry.notes ? `Obs.: ${entry.notes}` : null
+        ].filter((detail): detail is string => !!detail);
+        const detailLines = details.flatMap(detail => wrapText(detail, right - columns.guest, 8));
+        ensureSpace(14 + detailLines.length * 10);
+
+        const history = entry.guest.visits > 0
+          ? `${entry.guest.visits} visita${entry.guest.visits > 1 ? 's' : ''}`
+          : 'Primeira visita';
+        const noShows = entry.guest.no_shows > 0 ? ` · ${entry.guest.no_shows} no-show` : '';
+
+        pdf.text(entry.start_time.slice(0, 5), columns.time, y, { size: 9, bold: true });
+        pdf.text(
+          fitText(`${entry.customer_name}${entry.guest.is_vip ? ' [VIP]' : ''}`, columns.people - columns.guest - 6, 9, true),
+          columns.guest,
+          y,
+          { size: 9, bold: true }
+        );
+        pdf.text(String(entry.number_of_people), columns.people, y, { size: 9 });
+        pdf.text(fitText(entry.tables.join(' + ') || '-', columns.status - columns.tables - 6, 9), columns.tables, y, { size: 9 });
+        pdf.text(STATUS_LABELS[entry.status], columns.status, y, { size: 9 });
+        pdf.text(fitText(`${history}${noShows}`, right - columns.history, 8), columns.history, y, { size: 8, gray: 0.3 });
+        y += 12;
+
+        for (const line of detailLines) {
+          pdf.text(line, columns.guest, y, { size: 8, gray: 0.3 });
+          y += 10;
+        }
+        y += 4;
+      }
+      y += 6;
+    }
+    y += 8;
+  }
+
+  return pdf.toBuffer();
+}
+
+export class ReservationRunSheetService {
+  /**
+   * Reservations of the day grouped by service period (from the opening
+   * hours) and area, with what the floor team needs at hand: tables,
+   * celebration, experiences, notes and the guest's history
+   */
+  async getRunSheet(restaurantId: string, date: string): Promise<ApiResponse<RunSheet>> {
+    try {
+      const { data: restaurant, error: restaurantError } = await supabase
+        .from('restaurants')
+        .select('id, name, opening_hours, opening_hours_overrides')
+        .eq('id', restaurantId)
+        .single();
+
+      if (restaurantError || !restaurant) throw createError('Restaurant not found', 404);
+
+      const [reservationsResult, areasResult, tablesResult] = await Promise.all([
+        supabase
+          .from('reservations')
+          .select(RUN_SHEET_SELECT)
+          .eq('restaurant_id', restaurantId)
+          .eq('reservation_date', date)
+          .neq('status', 'canceled')
+          .order('start_time', { ascending: true })
+          .order('customer_name', { ascending: true })
+          .returns<RunSheetReservationRow[]>(),
+        supabase
+          .from('restaurant_areas')
+          .select('id, order')
+          .eq('restaurant_id', restaurantId)
+          .order('order', { ascending: true }),
+        supabase
+          .from('tables')
+          .select('id, name, number')
+          .eq('restaurant_id', restaurantId)
+      ]);
+
+      if (reservationsResult.error) throw createError(reservationsResult.error.message, 400);
+
+      const reservations = reservationsResult.data || [];
+      const areaOrder = (areasResult.data || []).map(area => area.id);
+      const tableLabels = new Map(
+        (tablesResult.data || []).map(table => [table.id, table.name || `Mesa ${table.number}`])
+      );
+      const history = await this.getGuestHistory(restaurantId, reservations.map(reservation => reservation.phone), date);
+
+      const entries = reservations.map(reservation => {
+        const tableIds = reservation.table_combination?.table_ids || (reservation.table_id ? [reservation.table_id] : []);
+        const experiences = (reservation.experiences || []).flatMap(experience =>
+          [experience.bonification?.name, experience.event?.name, experience.event_exclusive?.name]
+            .filter((name): name is string => !!name)
+        );
+
+        const entry: RunSheetEntry = {
+          id: reservation.id,
+          start_time: reservation.start_time,
+          end_time: reservation.end_time,
+          customer_name: reservation.customer_name,
+          phone: reservation.phone,
+          number_of_people: reservation.number_of_people,
+          status: reservation.status,
+          tables: tableIds.map(id => tableLabels.get(id) || id),
+          celebration: reservation.celebration || null,
+          experiences,
+          notes: reservation.notes || undefined,
+          deposit_status: reservation.deposit_status,
+          guest: history.get(digitsOnly(reservation.phone)) || NO_HISTORY
+        };
+        return { entry, area_id: reservation.area?.id || null, area_name: reservation.area?.name || 'Sem área' };
+      });
+
+      const periods = this.groupByPeriod(entries, getServiceWindows(restaurant.opening_hours, restaurant.opening_hours_overrides, date), areaOrder);
+
+      return {
+        success: true,
+        data: {
+          date,
+          restaurant: { id: restaurant.id, name: restaurant.name },
+          generated_at: new Date().toISOString(),
+          reservations_count: entries.length,
+          covers: entries.reduce((sum, { entry }) => sum + entry.number_of_people, 0),
+          periods
+        }
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to build run sheet: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  private groupByPeriod(
+    entries: { entry: RunSheetEntry; area_id: string | null; area_name: string }[],
+    windows: { start: number; end: number }[] | undefined,
+    areaOrder: string[]
+  ): RunSheetPeriod[] {
+    const periods = (windows || []).map(window => ({
+      name: getServicePeriodName(window.start),
+      start_time: minutesToTime(window.start),
+      end_time: minutesToTime(window.end % (24 * 60)),
+      window,
+      entries: [] as typeof entries
+    }));
+    const others: typeof entries = [];
+
+    for (const item of entries) {
+      const start = timeToMinutes(item.entry.start_time);
+      const period = periods.find(candidate => start >= candidate.window.start && start < candidate.window.end);
+      if (period) {
+        period.entries.push(item);
+      } else {
+        others.push(item);
+      }
+    }
+
+    const result: RunSheetPeriod[] = periods
+      .filter(period => period.entries.length > 0)
+      .map(period => ({
+        name: period.name,
+        start_time: period.start_time,
+        end_time: period.end_time,
+        reservations_count: period.entries.length,
+        covers: period.entries.reduce((sum, { entry }) => sum + entry.number_of_people, 0),
+        areas: groupByArea(period.entries, areaOrder)
+      }));
+
+    // Sem horário configurado, ou reservas fora dos turnos (encaixes)
+    if (others.length > 0) {
+      result.push({
+        name: windows === undefined ? 'Dia inteiro' : 'Fora do horário',
+        start_time: null,
+        end_time: null,
+        reservations_count: others.length,
+        covers: others.reduce((sum, { entry }) => sum + entry.number_of_people, 0),
+        areas: groupByArea(others, areaOrder)
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Visits, no-shows and customer type of each guest, matched by phone digits
+   * over the reservations before the date
+   */
+  private async getGuestHistory(restaurantId: string, phones: (string | null)[], date: string): Promise<Map<string, GuestHistory>> {
+    const digits = [...new Set(phones.map(digitsOnly).filter(Boolean))];
+    if (digits.length === 0) return new Map();
+
+    const { data, error } = await supabase.rpc('get_guest_history', {
+      p_restaurant_id: restaurantId,
+      p_phones: digits,
+      p_before: date
+    });
+
+    if (error) throw createError(error.message, 400);
+
+    const rows: GuestHistoryRow[] = data || [];
+    return new Map(
+      rows.map(row => [
+        row.phone_digits,
+        {
+          visits: row.visits || 0,
+          no_shows: row.no_shows || 0,
+          last_visit: row.last_visit || null,
+          customer_type: row.customer_type || null,
+          is_vip: row.customer_type === 'vip'
+        }
+      ])
+    );
+  }
+}
+
+export default new ReservationRunSheetService();
@@ -0,0 +1,155 @@
+import { supabase } from '../config/database';
+import {
+  CursorPaginatedResponse,
+  Reservation,
+  ReservationExperience,
+  ReservationSearchQuery,
+  ReservationSearchSort
+} from '../types';
+import { createError, AppError } from '../middleware/errorHandler';
+import { RESERVATION_SELECT } from './reservationService';
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_LIMIT = 200;
+
+// Colunas de ordenação; o id desempata para o cursor ser estável
+const SORT_COLUMNS: Record<ReservationSearchSort, (keyof Reservation)[]> = {
+  date: ['reservation_date', 'start_time'],
+  created_at: ['created_at'],
+  customer_name: ['customer_name'],
+  number_of_people: ['number_of_people']
+};
+
+// experience_match vem do join usado só pelo filtro de experiência
+type ReservationSearchRow = Reservation & { experience_match?: Pick<ReservationExperience, 'id'>[] };
+
+interface SearchCursor {
+  sort: ReservationSearchSort;
+  order: 'asc' | 'desc';
+  values: unknown[];
+}
+
+export function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(value: string, sort: ReservationSearchSort, order: 'asc' | 'desc'): unknown[] {
+  let cursor: SearchCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw createError('Invalid cursor', 400, 'INVALID_CURSOR');
+  }
+
+  const columns = [...SORT_COLUMNS[sort], 'id'];
+  if (cursor?.sort !== sort || cursor.order !== order || !Array.isArray(cursor.values) || cursor.values.length !== columns.length) {
+    throw createError('The cursor belongs to a different sort order', 400, 'INVALID_CURSOR');
+  }
+  return cursor.values;
+}
+
+// Valores entre aspas para o filtro do PostgREST aceitar vírgulas, pontos e parênteses
+function quote(value: unknown): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * PostgREST filter selecting the rows after the cursor in keyset order:
+ * (a > x) or (a = x and b > y) or ...
+ */
+export function buildKeysetFilter(columns: string[], values: unknown[], order: 'asc' | 'desc'): string {
+  const operator = order === 'asc' ? 'gt' : 'lt';
+
+  return columns
+    .map((column, index) => {
+      const equal = columns.slice(0, index).map((previous, i) => `${previous}.eq.${quote(values[i])}`);
+      const condition = `${column}.${operator}.${quote(values[index])}`;
+      return equal.length > 0 ? `and(${[...equal, condition].join(',')})` : condition;
+    })
+    .join(',');
+}
+
+// Curingas do ILIKE digitados pelo usuário são tratados como texto
+function likePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+export class ReservationSearchService {
+  /**
+   * Search the restaurant's reservations. Results are returned in pages of
+   * `limit` rows; pass `next_cursor` back as `cursor` to get the next page.
+   * Keyset pagination keeps every page as fast as the first one, however
+   * much history the restaurant has.
+   */
+  async searchReservations(restaurantId: string, search: ReservationSearchQuery): Promise<CursorPaginatedResponse<Reservation>> {
+    try {
+      const sort = search.sort || 'date';
+      const order = search.order || 'asc';
+      const limit = Math.min(search.limit || DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT);
+      const columns: (keyof Reservation)[] = [...SORT_COLUMNS[sort], 'id'];
+
+      const select = search.experience_id
+        ? `${RESERVATION_SELECT}, experience_match:reservation_experiences!inner(id)`
+        : RESERVATION_SELECT;
+
+      let query = supabase
+        .from('reservations')
+        .select(select)
+        .eq('restaurant_id', restaurantId);
+
+      if (search.from) query = query.gte('reservation_date', search.from);
+      if (search.to) query = query.lte('reservation_date', search.to);
+      if (search.status?.length) query = query.in('status', search.status);
+      if (search.area_id) query = query.eq('area_id', search.area_id);
+      if (search.table_id) query = query.eq('table_id', search.table_id);
+      if (search.min_people) query = query.gte('number_of_people', search.min_people);
+      if (search.max_people) query = query.lte('number_of_people', search.max_people);
+      if (search.phone) query = query.ilike('phone', likePattern(search.phone));
+      if (search.name) query = query.ilike('customer_name', likePattern(search.name));
+      if (search.categoria_comemoracao_id) query = query.eq('categoria_comemoracao_id', search.categoria_comemoracao_id);
+      if (search.experience_id) {
+        const id = quote(search.experience_id);
+        query = query.or(`bonification_id.eq.${id},event_id.eq.${id},event_exclusive_id.eq.${id}`, {
+          referencedTable: 'experience_match'
+        });
+      }
+
+      if (search.cursor) {
+        query = query.or(buildKeysetFilter(columns, decodeCursor(search.cursor, sort, order), order));
+      }
+
+      for (const column of columns) {
+        query = query.order(column, { ascending: order === 'asc' });
+      }
+
+      // Uma linha a mais indica se existe próxima página
+      const { data, error } = await query.limit(limit + 1).returns<ReservationSearchRow[]>();
+
+      if (error) throw createError(error.message, 400);
+
+      // experience_match só serve ao filtro
+      const rows: Reservation[] = (data || []).map(({ experience_match, ...reservation }) => reservation);
+      const hasMore = rows.length > limit;
+      const page: Reservation[] = rows.slice(0, limit);
+      const last = rows[page.length - 1];
+
+      return {
+        success: true,
+        data: page,
+        pagination: {
+          limit,
+          next_cursor: hasMore && last ? encodeCursor({ sort, order, values: columns.map(column => last[column]) }) : null,
+          has_more: hasMore
+        }
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to search reservations: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500,
+        (error as AppError).code
+      );
+    }
+  }
+}
+
+export default new ReservationSearchService();
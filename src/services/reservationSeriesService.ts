@@ -0,0 +1,376 @@
+import { supabase } from '../config/database';
+import {
+  ApiResponse,
+  Reservation,
+  ReservationSeries,
+  ReservationSeriesFailure,
+  ReservationSeriesResult,
+  ReservationSeriesScope
+} from '../types';
+import { createError, AppError } from '../middleware/errorHandler';
+import reservationService from './reservationService';
+import restaurantTimeService from './restaurantTimeService';
+import moment from 'moment';
+
+// Limite de ocorrências materializadas por série
+export const MAX_SERIES_OCCURRENCES = 104;
+
+// Campos do modelo da série que uma edição pode alterar nas ocorrências
+const SERIES_TEMPLATE_FIELDS = [
+  'customer_name',
+  'phone',
+  'number_of_people',
+  'start_time',
+  'end_time',
+  'table_id',
+  'table_combination_id',
+  'area_id',
+  'notes'
+] as const;
+
+type SeriesSchedule = Pick<ReservationSeries, 'tipo_recorrencia' | 'dias_semana' | 'data_inicio' | 'data_fim' | 'qtd_ocorrencias'>;
+
+/**
+ * Dates of every occurrence of a series, in order. Weekly and biweekly series
+ * repeat on each of dias_semana (biweekly skips every other week, counted from
+ * the week of data_inicio). Monthly series repeat on the same weekday ordinal as
+ * data_inicio, e.g. the 2nd Thursday, falling back to the last one in short months.
+ */
+export function getSeriesDates(schedule: SeriesSchedule): string[] {
+  const start = moment(schedule.data_inicio, 'YYYY-MM-DD');
+  const end = schedule.data_fim ? moment(schedule.data_fim, 'YYYY-MM-DD') : null;
+  const limit = Math.min(schedule.qtd_ocorrencias || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const weekdays = schedule.dias_semana?.length ? schedule.dias_semana : [start.day()];
+  const dates: string[] = [];
+
+  const withinRange = (date: moment.Moment) => !date.isBefore(start, 'day') && (!end || !date.isAfter(end, 'day'));
+
+  if (schedule.tipo_recorrencia === 'mensal') {
+    const ordinal = Math.ceil(start.date() / 7);
+    for (let month = start.clone().startOf('month'); dates.length < limit; month.add(1, 'month')) {
+      if (end && month.isAfter(end, 'day')) break;
+
+      const occurrences = weekdays
+        .map(weekday => {
+          const first = month.clone().day(weekday);
+          if (first.isBefore(month)) first.add(7, 'days');
+          const nth = first.clone().add(ordinal - 1, 'weeks');
+          return nth.month() === month.month() ? nth : nth.subtract(1, 'week');
+        })
+        .sort((a, b) => a.valueOf() - b.valueOf());
+
+      for (const date of occurrences) {
+        if (withinRange(date) && dates.length < limit) {
+          dates.push(date.format('YYYY-MM-DD'));
+        }
+      }
+    }
+    return dates;
+  }
+
+  const step = schedule.tipo_recorrencia === 'quinzenal' ? 2 : 1;
+  const firstWeek = start.clone().startOf('week');
+  for (let week = firstWeek.clone(); dates.length < limit; week.add(step, 'weeks')) {
+    if (end && week.isAfter(end, 'day')) break;
+
+    for (const weekday of [...weekdays].sort((a, b) => a - b)) {
+      const date = week.clone().day(weekday);
+      if (withinRange(date) && dates.length < limit) {
+        dates.push(date.format('YYYY-MM-DD'));
+      }
+    }
+  }
+  return dates;
+}
+
+export class ReservationSeriesService {
+  /**
+   * Create a series and book every occurrence. Each date goes through the same
+   * checks as a single reservation; dates that cannot be booked are reported
+   * instead of failing the whole series.
+   */
+  async createSeries(
+    seriesData: Omit<ReservationSeries, 'id' | 'created_at' | 'updated_at' | 'status'>
+  ): Promise<ApiResponse<ReservationSeriesResult>> {
+    try {
+      const now = await restaurantTimeService.now(seriesData.restaurant_id);
+      if (moment(seriesData.data_inicio, 'YYYY-MM-DD').isBefore(now, 'day')) {
+        throw createError('Não é possível criar séries começando em datas passadas', 400);
+      }
+
+      // Sem dias informados, a série repete no dia da semana de data_inicio
+      const template = {
+        ...seriesData,
+        dias_semana: seriesData.dias_semana?.length
+          ? seriesData.dias_semana
+          : [moment(seriesData.data_inicio, 'YYYY-MM-DD').day()]
+      };
+
+      const dates = getSeriesDates(template);
+      if (dates.length === 0) {
+        throw createError('The recurrence does not produce any date', 400);
+      }
+
+      const { data: series, error } = await supabase
+        .from('reservation_series')
+        .insert([{ ...template, status: 'active' }])
+        .select()
+        .single();
+
+      if (error) throw createError(error.message, 400);
+
+      const reservations: Reservation[] = [];
+      const failed: ReservationSeriesFailure[] = [];
+
+      for (const date of dates) {
+        try {
+          const result = await reservationService.createReservation(
+            {
+              ...this.templateOf(series),
+              restaurant_id: series.restaurant_id,
+              reservation_date: date,
+              status: series.reservation_status,
+              series_id: series.id
+            },
+            { changedBy: series.created_by }
+          );
+          reservations.push(result.data!);
+        } catch (occurrenceError) {
+          failed.push(this.toFailure(date, occurrenceError));
+        }
+      }
+
+      return {
+        success: true,
+        data: { series, reservations, failed },
+        message: `${reservations.length} of ${dates.length} occurrences booked`
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to create reservation series: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  async getSeriesById(id: string, restaurantId: string): Promise<ApiResponse<ReservationSeries & { reservations: Reservation[] }>> {
+    try {
+      const series = await this.findSeries(id, restaurantId);
+
+      const { data: reservations, error } = await supabase
+        .from('reservations')
+        .select('*')
+        .eq('series_id', id)
+        .order('reservation_date', { ascending: true });
+
+      if (error) throw createError(error.message, 400);
+
+      return {
+        success: true,
+        data: { ...series, reservations: reservations || [] }
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to fetch reservation series: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Edit one occurrence, or this occurrence and every later one. "following"
+   * also updates the series template so the change sticks.
+   */
+  async updateOccurrence(
+    seriesId: string,
+    reservationId: string,
+    restaurantId: string,
+    scope: ReservationSeriesScope,
+    changes: Partial<Reservation>,
+    changedBy?: string
+  ): Promise<ApiResponse<{ reservations: Reservation[]; failed: ReservationSeriesFailure[] }>> {
+    try {
+      const series = await this.findSeries(seriesId, restaurantId);
+      const occurrence = await this.findOccurrence(seriesId, reservationId);
+
+      if (scope === 'this') {
+        const result = await reservationService.updateReservation(reservationId, changes, changedBy);
+        return {
+          success: true,
+          data: { reservations: [result.data!], failed: [] },
+          message: 'Reservation updated successfully'
+        };
+      }
+
+      // Mudança de data não se aplica às demais ocorrências
+      const templateChanges = { ...changes };
+      delete templateChanges.reservation_date;
+      const targets = await this.getUpcomingOccurrences(seriesId, occurrence.reservation_date);
+      const reservations: Reservation[] = [];
+      const failed: ReservationSeriesFailure[] = [];
+
+      for (const target of targets) {
+        try {
+          const result = await reservationService.updateReservation(target.id, templateChanges, changedBy);
+          reservations.push(result.data!);
+        } catch (occurrenceError) {
+          failed.push(this.toFailure(target.reservation_date, occurrenceError));
+        }
+      }
+
+      const template = this.pickTemplateFields(templateChanges);
+      if (Object.keys(template).length > 0) {
+        const { error } = await supabase
+          .from('reservation_series')
+          .update({ ...template, updated_at: new Date().toISOString() })
+          .eq('id', series.id);
+
+        if (error) throw createError(error.message, 400);
+      }
+
+      return {
+        success: true,
+        data: { reservations, failed },
+        message: `${reservations.length} of ${targets.length} occurrences updated`
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to update reservation series: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500,
+        (error as AppError).code
+      );
+    }
+  }
+
+  /**
+   * Cancel one occurrence, or this occurrence and every later one. Cancelling
+   * "following" ends the series the day before; from the first occurrence it
+   * cancels the whole series.
+   */
+  async cancelOccurrence(
+    seriesId: string,
+    reservationId: string,
+    restaurantId: string,
+    scope: ReservationSeriesScope,
+    changedBy?: string
+  ): Promise<ApiResponse<{ reservations: Reservation[]; failed: ReservationSeriesFailure[] }>> {
+    try {
+      const series = await this.findSeries(seriesId, restaurantId);
+      const occurrence = await this.findOccurrence(seriesId, reservationId);
+
+      const targets = scope === 'this'
+        ? [occurrence]
+        : await this.getUpcomingOccurrences(seriesId, occurrence.reservation_date);
+
+      const reservations: Reservation[] = [];
+      const failed: ReservationSeriesFailure[] = [];
+
+      for (const target of targets) {
+        try {
+          const result = await reservationService.updateReservationStatus(target.id, 'canceled', {
+            changedBy,
+            notes: scope === 'this' ? 'Occurrence canceled' : 'Series canceled from this occurrence on'
+          });
+          reservations.push(result.data!);
+        } catch (occurrenceError) {
+          failed.push(this.toFailure(target.reservation_date, occurrenceError));
+        }
+      }
+
+      if (scope === 'following') {
+        const occurrenceDate = moment(occurrence.reservation_date, 'YYYY-MM-DD');
+        const isFirst = !occurrenceDate.isAfter(moment(series.data_inicio, 'YYYY-MM-DD'), 'day');
+        const { error } = await supabase
+          .from('reservation_series')
+          .update({
+            ...(isFirst
+              ? { status: 'canceled' }
+              : { data_fim: occurrenceDate.clone().subtract(1, 'day').format('YYYY-MM-DD') }),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', series.id);
+
+        if (error) throw createError(error.message, 400);
+      }
+
+      return {
+        success: true,
+        data: { reservations, failed },
+        message: `${reservations.length} of ${targets.length} occurrences canceled`
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to cancel reservation series: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500,
+        (error as AppError).code
+      );
+    }
+  }
+
+  private async findSeries(id: string, restaurantId: string): Promise<ReservationSeries> {
+    const { data, error } = await supabase
+      .from('reservation_series')
+      .select('*')
+      .eq('id', id)
+      .eq('restaurant_id', restaurantId)
+      .single();
+
+    if (error || !data) throw createError('Reservation series not found', 404);
+
+    return data;
+  }
+
+  private async findOccurrence(seriesId: string, reservationId: string): Promise<Reservation> {
+    const { data, error } = await supabase
+      .from('reservations')
+      .select('*')
+      .eq('id', reservationId)
+      .eq('series_id', seriesId)
+      .single();
+
+    if (error || !data) throw createError('Reservation is not part of this series', 404);
+
+    return data;
+  }
+
+  /**
+   * Occurrences on or after the given date that are still pending or confirmed
+   */
+  private async getUpcomingOccurrences(seriesId: string, fromDate: string): Promise<Reservation[]> {
+    const { data, error } = await supabase
+      .from('reservations')
+      .select('*')
+      .eq('series_id', seriesId)
+      .gte('reservation_date', fromDate)
+      .in('status', ['pending', 'confirmed'])
+      .order('reservation_date', { ascending: true });
+
+    if (error) throw createError(error.message, 400);
+
+    return data || [];
+  }
+
+  private templateOf(series: ReservationSeries): Partial<Reservation> {
+    return this.pickTemplateFields(series as unknown as Partial<Reservation>);
+  }
+
+  private pickTemplateFields(source: Partial<Reservation>): Partial<Reservation> {
+    const template: Record<string, unknown> = {};
+    for (const field of SERIES_TEMPLATE_FIELDS) {
+      if (source[field] !== undefined && source[field] !== null) {
+        template[field] = source[field];
+      }
+    }
+    return template as Partial<Reservation>;
+  }
+
+  private toFailure(date: string, error: unknown): ReservationSeriesFailure {
+    return {
+      date,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: (error as AppError).code
+    };
+  }
+}
+
+export default new ReservationSeriesService();
@@ -1,9 +1,81 @@
 import { supabase } from '../config/database';
-import { Reservation, ApiResponse, PaginatedResponse } from '../types';
-import { createError } from '../middleware/errorHandler';
+import logger from '../config/logger';
+import {
+  Reservation,
+  ReservationStatus,
+  ReservationChangeAction,
+  ReservationChangeLog,
+  ReservationExperienceInput,
+  ReservationExperienceLink,
+  ApiResponse,
+  PaginatedResponse,
+  AvailabilityQuery,
+  AvailabilitySlot,
+  ReservationOverbookingReport,
+  ReservationSeating,
+  Table
+} from '../types';
+import { createError, AppError } from '../middleware/errorHandler';
+import availabilityService, { ACTIVE_RESERVATION_STATUSES, fitsOverbooking, timeToMinutes } from './availabilityService';
+import { TableCombinationService } from './tableCombinationService';
+import { TableService } from './tableService';
+import depositService from './depositService';
+import restaurantTimeService, { localDate } from './restaurantTimeService';
+import celebrationCategoryService from './celebrationCategoryService';
+import realtimeService from './realtimeService';
+import reservationExperienceService, {
+  RESERVATION_EXPERIENCE_SELECT,
+  hasExperienceLink,
+  sameExperienceLink
+} from './reservationExperienceService';
 import moment from 'moment';
 
+export const RESERVATION_SELECT = `
+  *,
+  table:tables(name, id),
+  area:restaurant_areas(name, id),
+  table_combination:table_combinations(id, name, table_ids, capacity),
+  experiences:reservation_experiences(${RESERVATION_EXPERIENCE_SELECT})
+`;
+
+// Ciclo de vida: pending → confirmed → seated → completed, com canceled e no_show como saídas
+export const RESERVATION_STATUS_TRANSITIONS: Record<ReservationStatus, ReservationStatus[]> = {
+  pending: ['confirmed', 'canceled', 'no_show'],
+  confirmed: ['seated', 'canceled', 'no_show'],
+  seated: ['completed'],
+  completed: [],
+  canceled: [],
+  no_show: []
+};
+
+// Status aceitos na criação (seated cobre clientes que chegam sem reserva prévia)
+const INITIAL_RESERVATION_STATUSES: ReservationStatus[] = ['pending', 'confirmed', 'seated'];
+
+// Campos que mudam onde ou quando a reserva acontece e exigem nova validação
+const SEATING_FIELDS: (keyof Reservation)[] = [
+  'reservation_date',
+  'start_time',
+  'end_time',
+  'table_id',
+  'table_combination_id',
+  'area_id',
+  'number_of_people'
+];
+
+/**
+ * Called after a reservation is canceled through updateReservationStatus, e.g.
+ * by the waitlist to offer the freed slot. Registered by the interested
+ * service so this one does not depend on it.
+ */
+export type ReservationCanceledListener = (reservation: ReservationSeating, changedBy?: string) => Promise<unknown>;
+
 export class ReservationService {
+  private canceledListeners: ReservationCanceledListener[] = [];
+
+  onReservationCanceled(listener: ReservationCanceledListener): void {
+    this.canceledListeners.push(listener);
+  }
+
   async getReservationsByRestaurant(
     restaurantId: string,
     page: number = 1,
@@ -19,11 +91,7 @@ export class ReservationService {
       const offset = (page - 1) * limit;
       let query = supabase
         .from('reservations')
-        .select(`
-          *,
-          table:tables(name, id),
-          area:restaurant_areas(name, id)
-        `, { count: 'exact' })
+        .select(RESERVATION_SELECT, { count: 'exact' })
         .eq('restaurant_id', restaurantId);
 
       // Apply filters
@@ -67,15 +135,11 @@ export class ReservationService {
 
   async getTodayReservations(restaurantId: string): Promise<ApiResponse<Reservation[]>> {
     try {
-      const today = moment().format('YYYY-MM-DD');
+      const today = await restaurantTimeService.today(restaurantId);
 
       const { data, error } = await supabase
         .from('reservations')
-        .select(`
-          *,
-          table:tables(name, id),
-          area:restaurant_areas(name, id)
-        `)
+        .select(RESERVATION_SELECT)
         .eq('restaurant_id', restaurantId)
         .eq('reservation_date', today)
         .order('start_time', { ascending: true });
@@ -93,16 +157,13 @@ export class ReservationService {
 
   async getUpcomingReservations(restaurantId: string, days: number = 7): Promise<ApiResponse<Reservation[]>> {
     try {
-      const today = moment().format('YYYY-MM-DD');
-      const endDate = moment().add(days, 'days').format('YYYY-MM-DD');
+      const timezone = await restaurantTimeService.getTimezone(restaurantId);
+      const today = localDate(timezone);
+      const endDate = localDate(timezone, days);
 
       const { data, error } = await supabase
         .from('reservations')
-        .select(`
-          *,
-          table:tables(name, id),
-          area:restaurant_areas(name, id)
-        `)
+        .select(RESERVATION_SELECT)
         .eq('restaurant_id', restaurantId)
         .gte('reservation_date', today)
         .lte('reservation_date', endDate)
@@ -121,15 +182,29 @@ export class ReservationService {
     }
   }
 
+  async getAvailability(restaurantId: string, query: AvailabilityQuery): Promise<ApiResponse<AvailabilitySlot[]>> {
+    const slots = await availabilityService.searchAvailability(restaurantId, query);
+
+    return {
+      success: true,
+      data: slots
+    };
+  }
+
+  async getOverbookingReport(restaurantId: string, date: string): Promise<ApiResponse<ReservationOverbookingReport>> {
+    const report = await availabilityService.getOverbookingReport(restaurantId, date);
+
+    return {
+      success: true,
+      data: report
+    };
+  }
+
   async getReservationById(id: string): Promise<ApiResponse<Reservation>> {
     try {
       const { data, error } = await supabase
         .from('reservations')
-        .select(`
-          *,
-          table:tables(name, id),
-          area:restaurant_areas(name, id)
-        `)
+        .select(RESERVATION_SELECT)
         .eq('id', id)
         .single();
 
@@ -144,81 +219,286 @@ export class ReservationService {
     }
   }
 
-  async createReservation(reservationData: Partial<Reservation>): Promise<ApiResponse<Reservation>> {
+  async createReservation(
+    input: Partial<Reservation> & ReservationExperienceInput,
+    options: { autoAssign?: boolean; overridePacing?: boolean; changedBy?: string } = {}
+  ): Promise<ApiResponse<Reservation>> {
     try {
-      // Check for conflicts
-      if (reservationData.table_id && reservationData.reservation_date && reservationData.start_time) {
-        const conflict = await this.checkTableConflict(
-          reservationData.table_id,
-          reservationData.reservation_date,
-          reservationData.start_time,
-          reservationData.end_time
-        );
-        
-        if (conflict) {
-          throw createError('Table is already reserved for this time period', 409);
-        }
+      const { autoAssign = true, overridePacing = false, changedBy } = options;
+      const { reservationData: seated, experienceLink } = await this.prepareReservation(input, { autoAssign, overridePacing });
+
+      // Sinal exigido pelas políticas de depósito do restaurante
+      const reservationData = { ...seated, ...(await depositService.getDepositFields(seated)) };
+
+      const data = await this.saveReservation(
+        null,
+        reservationData,
+        hasExperienceLink(experienceLink) ? experienceLink : undefined
+      );
+
+      const changes = this.diffReservation({}, data, Object.keys(reservationData));
+      if (hasExperienceLink(experienceLink)) {
+        changes.experiences = { before: null, after: experienceLink };
       }
 
-      // Remove end_time from data since it doesn't exist in the table
-      const { end_time, ...dataToInsert } = reservationData as any;
+      await this.recordStatusChange(data.id, null, data.status, changedBy);
+      await this.recordChangeLog(data.id, 'created', changes, changedBy);
+      await this.syncTableStatus(data, null, data.status, changedBy);
 
-      const { data, error } = await supabase
+      realtimeService.publish(data.restaurant_id, 'reservation.created', data);
+
+      return {
+        success: true,
+        data,
+        message: 'Reservation created successfully'
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to create reservation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500,
+        (error as AppError).code
+      );
+    }
+  }
+
+  /**
+   * Run every check of createReservation without saving anything. Returns the
+   * reservation as it would be created, with table, area and end time filled in.
+   */
+  async validateReservation(
+    input: Partial<Reservation> & ReservationExperienceInput,
+    options: { autoAssign?: boolean; overridePacing?: boolean } = {}
+  ): Promise<ApiResponse<Partial<Reservation>>> {
+    try {
+      const { reservationData } = await this.prepareReservation(input, options);
+      return {
+        success: true,
+        data: reservationData
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to validate reservation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500,
+        (error as AppError).code
+      );
+    }
+  }
+
+  async updateReservation(
+    id: string,
+    input: Partial<Reservation> & ReservationExperienceInput,
+    changedBy?: string,
+    options: { autoAssign?: boolean; overridePacing?: boolean; reassignTable?: boolean } = {}
+  ): Promise<ApiResponse<Reservation>> {
+    try {
+      const { autoAssign = true, overridePacing = false, reassignTable = false } = options;
+      const { reservation_experience_id, reservation_experience_data, ...fields } = input;
+      let reservationData: Partial<Reservation> = fields;
+
+      const { data: current, error: currentError } = await supabase
         .from('reservations')
-        .insert([dataToInsert])
-        .select(`
-          *,
-          table:tables(name, id),
-          area:restaurant_areas(name, id)
-        `)
+        .select(RESERVATION_SELECT)
+        .eq('id', id)
         .single();
 
-      if (error) throw createError(error.message, 400);
+      if (currentError || !current) throw createError('Reservation not found', 404);
+
+      const statusChanged = !!reservationData.status && reservationData.status !== current.status;
+      if (statusChanged) {
+        this.assertStatusTransition(current.status, reservationData.status!);
+      }
+
+      const changed = (field: keyof Reservation) =>
+        reservationData[field] !== undefined && !this.sameValue(field, reservationData[field], current[field]);
+      const scheduleChanged = changed('reservation_date') || changed('start_time');
+      const seatingChanged = reassignTable || SEATING_FIELDS.some(changed);
+      const nextStatus = reservationData.status || current.status;
+
+      // Comemoração escolhida precisa valer para a nova data e o novo número de pessoas
+      if (
+        ACTIVE_RESERVATION_STATUSES.includes(nextStatus) &&
+        (changed('categoria_comemoracao_id') || changed('reservation_date') || changed('number_of_people'))
+      ) {
+        await this.assertCelebrationCategory({ ...current, ...reservationData });
+      }
+
+      // Experiências novas, ou as atuais quando a reserva muda de data ou horário, são validadas de novo
+      const requestedLink = await reservationExperienceService.resolveLink(current.restaurant_id, {
+        reservation_experience_id,
+        reservation_experience_data
+      });
+      const currentLink = requestedLink !== undefined || scheduleChanged
+        ? await reservationExperienceService.getLink(id)
+        : null;
+      const linkChanged = requestedLink !== undefined && !sameExperienceLink(requestedLink, currentLink);
+      const nextLink = requestedLink !== undefined ? requestedLink : currentLink;
+      if (
+        hasExperienceLink(nextLink) &&
+        (linkChanged || scheduleChanged) &&
+        ACTIVE_RESERVATION_STATUSES.includes(nextStatus)
+      ) {
+        await reservationExperienceService.assertLinkApplies(
+          current.restaurant_id,
+          nextLink,
+          reservationData.reservation_date || current.reservation_date,
+          reservationData.start_time || current.start_time
+        );
+      }
+
+      // Mudanças de data, horário, mesa ou pessoas passam pelas mesmas validações da criação
+      if (seatingChanged && ACTIVE_RESERVATION_STATUSES.includes(nextStatus)) {
+        const merged: Partial<Reservation> = { ...current, ...reservationData };
+
+        if (scheduleChanged) {
+          const startsAt = moment(`${merged.reservation_date} ${merged.start_time}`, 'YYYY-MM-DD HH:mm');
+          if (startsAt.isBefore(await restaurantTimeService.now(current.restaurant_id))) {
+            throw createError('Não é possível mover reservas para datas ou horários passados', 400);
+          }
+        }
+
+        // Trocar de mesa ou de área sem informar a combinação desfaz a combinação anterior
+        if (reservationData.table_combination_id === undefined && (changed('table_id') || changed('area_id'))) {
+          merged.table_combination_id = null;
+        }
+        // Trocar de área sem informar a mesa pede uma nova mesa nessa área
+        if (reservationData.table_id === undefined && changed('area_id')) {
+          delete merged.table_id;
+        }
+        // Nova mesa pedida: a atual é descartada e a escolha automática prefere a mesma área
+        if (reassignTable) {
+          merged.table_id = null;
+          merged.table_combination_id = null;
+        }
+        // O término é recalculado, a não ser que um novo término tenha sido informado
+        if (!changed('end_time')) {
+          delete merged.end_time;
+        }
+
+        const seating = await this.prepareSeating(merged, {
+          autoAssign,
+          overridePacing,
+          excludeReservationId: id,
+          checkOpeningHours: scheduleChanged
+        });
+
+        reservationData = {
+          ...reservationData,
+          table_id: seating.table_id,
+          area_id: seating.area_id,
+          table_combination_id: seating.table_combination_id || null,
+          end_time: seating.end_time,
+          ...(seating.is_overbooked !== undefined && { is_overbooked: seating.is_overbooked }),
+          ...(seating.assignment_reason !== current.assignment_reason && { assignment_reason: seating.assignment_reason })
+        };
+
+        // Sinal ainda não pago acompanha a nova data e o novo número de pessoas
+        if (!current.deposit_status || current.deposit_status === 'required') {
+          reservationData = {
+            ...reservationData,
+            ...(await depositService.getDepositFields({ ...merged, ...reservationData }))
+          };
+        }
+      }
+
+      // Links do cliente emitidos para o horário antigo deixam de valer
+      if (scheduleChanged) {
+        reservationData = { ...reservationData, guest_link_version: (current.guest_link_version || 1) + 1 };
+      }
+
+      const data = await this.saveReservation(
+        id,
+        { ...reservationData, updated_at: new Date().toISOString() },
+        linkChanged ? requestedLink : undefined
+      );
+
+      const changes = this.diffReservation(current, data, Object.keys(reservationData));
+      if (linkChanged) {
+        changes.experiences = { before: currentLink, after: requestedLink };
+      }
+
+      await this.recordChangeLog(id, 'updated', changes, changedBy);
+
+      if (statusChanged) {
+        await this.recordStatusChange(id, current.status, data.status, changedBy);
+        Object.assign(data, await depositService.settleDeposit(data, data.status, changedBy));
+      }
+
+      if (this.tablesMoved(current, data)) {
+        await this.moveTables(current, data, changedBy);
+      } else if (statusChanged) {
+        await this.syncTableStatus(data, current.status, data.status, changedBy);
+      }
+
+      // Cancelar pela edição geral também libera o horário para a lista de espera
+      if (statusChanged && data.status === 'canceled') {
+        await this.notifyCanceled(data, changedBy);
+      }
+
+      realtimeService.publish(
+        data.restaurant_id,
+        statusChanged ? 'reservation.status_changed' : 'reservation.updated',
+        statusChanged ? { ...data, previous_status: current.status } : data
+      );
 
       return {
         success: true,
         data,
-        message: 'Reservation created successfully'
+        message: 'Reservation updated successfully'
       };
     } catch (error) {
-      throw createError(`Failed to create reservation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw createError(
+        `Failed to update reservation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500,
+        (error as AppError).code
+      );
     }
   }
 
-  async updateReservation(id: string, reservationData: Partial<Reservation>): Promise<ApiResponse<Reservation>> {
+  async getReservationHistory(id: string, restaurantId: string): Promise<ApiResponse<ReservationChangeLog[]>> {
     try {
-      const { data, error } = await supabase
+      const { data: reservation, error: reservationError } = await supabase
         .from('reservations')
-        .update({ ...reservationData, updated_at: new Date().toISOString() })
+        .select('id')
         .eq('id', id)
-        .select(`
-          *,
-          table:tables(name, id),
-          area:restaurant_areas(name, id)
-        `)
+        .eq('restaurant_id', restaurantId)
         .single();
 
+      if (reservationError || !reservation) throw createError('Reservation not found', 404);
+
+      const { data, error } = await supabase
+        .from('reservation_change_log')
+        .select('*')
+        .eq('reservation_id', id)
+        .order('changed_at', { ascending: true });
+
       if (error) throw createError(error.message, 400);
 
       return {
         success: true,
-        data,
-        message: 'Reservation updated successfully'
+        data: data || []
       };
     } catch (error) {
-      throw createError(`Failed to update reservation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw createError(
+        `Failed to fetch reservation history: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
     }
   }
 
   async deleteReservation(id: string): Promise<ApiResponse<void>> {
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('reservations')
         .delete()
-        .eq('id', id);
+        .eq('id', id)
+        .select('id, restaurant_id');
 
       if (error) throw createError(error.message, 400);
 
+      for (const reservation of data || []) {
+        realtimeService.publish(reservation.restaurant_id, 'reservation.deleted', { id: reservation.id });
+      }
+
       return {
         success: true,
         message: 'Reservation deleted successfully'
@@ -228,8 +508,30 @@ export class ReservationService {
     }
   }
 
-  async updateReservationStatus(id: string, status: string): Promise<ApiResponse<Reservation>> {
+  async updateReservationStatus(
+    id: string,
+    status: ReservationStatus,
+    options: { changedBy?: string; notes?: string } = {}
+  ): Promise<ApiResponse<Reservation>> {
     try {
+      const { data: current, error: currentError } = await supabase
+        .from('reservations')
+        .select(RESERVATION_SELECT)
+        .eq('id', id)
+        .single();
+
+      if (currentError || !current) throw createError('Reservation not found', 404);
+
+      if (current.status === status) {
+        return {
+          success: true,
+          data: current,
+          message: 'Reservation status unchanged'
+        };
+      }
+
+      this.assertStatusTransition(current.status, status);
+
       const { data, error } = await supabase
         .from('reservations')
         .update({ 
@@ -237,136 +539,493 @@ export class ReservationService {
           updated_at: new Date().toISOString()
         })
         .eq('id', id)
-        .select(`
-          *,
-          table:tables(name, id),
-          area:restaurant_areas(name, id)
-        `)
+        .select(RESERVATION_SELECT)
         .single();
 
       if (error) throw createError(error.message, 400);
 
+      await this.recordStatusChange(id, current.status, status, options.changedBy, options.notes);
+      Object.assign(data, await depositService.settleDeposit(data, status, options.changedBy));
+      await this.recordChangeLog(
+        id,
+        'status_changed',
+        this.diffReservation(current, data, ['status', 'deposit_status']),
+        options.changedBy
+      );
+      await this.syncTableStatus(data, current.status, status, options.changedBy);
+
+      if (status === 'canceled') {
+        await this.notifyCanceled(data, options.changedBy);
+      }
+
+      realtimeService.publish(data.restaurant_id, 'reservation.status_changed', {
+        ...data,
+        previous_status: current.status
+      });
+
       return {
         success: true,
         data,
         message: 'Reservation status updated successfully'
       };
     } catch (error) {
-      throw createError(`Failed to update reservation status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw createError(
+        `Failed to update reservation status: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500,
+        (error as AppError).code
+      );
     }
   }
 
-  private async checkTableConflict(
-    tableId: string,
-    date: string,
-    startTime: string,
-    endTime?: string
-  ): Promise<boolean> {
-    try {
-      // 1. Verificar conflitos com outras reservas na mesma mesa e data
-      const { data: existingReservations, error: reservationError } = await supabase
-        .from('reservations')
-        .select('id, start_time, end_time')
-        .eq('table_id', tableId)
-        .eq('reservation_date', date)
-        .in('status', ['pending', 'confirmed']);
+  private async notifyCanceled(reservation: ReservationSeating, changedBy?: string): Promise<void> {
+    for (const listener of this.canceledListeners) {
+      await listener(reservation, changedBy);
+    }
+  }
+
+  /**
+   * Insert (id null) or update the reservation through save_reservation, which
+   * also replaces its experiences in the same transaction when a link is given
+   * (null clears them), and read it back with its relations.
+   */
+  private async saveReservation(
+    id: string | null,
+    fields: Partial<Reservation>,
+    experienceLink?: ReservationExperienceLink | null
+  ) {
+    const { data: savedId, error: saveError } = await supabase.rpc('save_reservation', {
+      p_reservation: fields,
+      p_reservation_id: id,
+      p_replace_experiences: experienceLink !== undefined,
+      p_bonification_id: experienceLink?.bonification_id || null,
+      p_event_id: experienceLink?.event_id || null,
+      p_event_exclusive_id: experienceLink?.event_exclusive_id || null
+    });
+
+    if (saveError) throw createError(saveError.message, 400);
+
+    const { data, error } = await supabase
+      .from('reservations')
+      .select(RESERVATION_SELECT)
+      .eq('id', savedId)
+      .single();
+
+    if (error) throw createError(error.message, 400);
+
+    return data;
+  }
+
+  private assertStatusTransition(from: ReservationStatus, to: ReservationStatus): void {
+    const allowed = RESERVATION_STATUS_TRANSITIONS[from];
+    if (!allowed) {
+      throw createError(`Unknown reservation status: ${from}`, 400, 'INVALID_STATUS');
+    }
+    if (!allowed.includes(to)) {
+      throw createError(
+        `Cannot change reservation status from ${from} to ${to}`,
+        409,
+        'INVALID_STATUS_TRANSITION'
+      );
+    }
+  }
+
+  /**
+   * Checks shared by creating and validating a reservation: initial status,
+   * celebration category, experiences valid for the date and time, and seating
+   */
+  private async prepareReservation(
+    input: Partial<Reservation> & ReservationExperienceInput,
+    options: { autoAssign?: boolean; overridePacing?: boolean }
+  ): Promise<{ reservationData: Partial<Reservation>; experienceLink: ReservationExperienceLink | null | undefined }> {
+    const { reservation_experience_id, reservation_experience_data, ...fields } = input;
+    let reservationData: Partial<Reservation> = fields;
+
+    if (reservationData.status && !INITIAL_RESERVATION_STATUSES.includes(reservationData.status)) {
+      throw createError(
+        `A reservation cannot be created as ${reservationData.status}`,
+        400,
+        'INVALID_STATUS_TRANSITION'
+      );
+    }
+
+    await this.assertCelebrationCategory(reservationData);
+
+    // Experiências (bonificação, evento, evento exclusivo) precisam valer para a data e o horário
+    const experienceLink = reservationData.restaurant_id
+      ? await reservationExperienceService.resolveLink(reservationData.restaurant_id, {
+        reservation_experience_id,
+        reservation_experience_data
+      })
+      : undefined;
+    if (hasExperienceLink(experienceLink)) {
+      await reservationExperienceService.assertLinkApplies(
+        reservationData.restaurant_id!,
+        experienceLink,
+        reservationData.reservation_date!,
+        reservationData.start_time!
+      );
+    }
 
-      if (reservationError) {
-        throw reservationError;
+    reservationData = await this.prepareSeating(reservationData, options);
+
+    return { reservationData, experienceLink };
+  }
+
+  private async assertCelebrationCategory(reservationData: Partial<Reservation>): Promise<void> {
+    if (!reservationData.categoria_comemoracao_id || !reservationData.restaurant_id || !reservationData.reservation_date) {
+      return;
+    }
+
+    await celebrationCategoryService.assertCategoryApplies(
+      reservationData.restaurant_id,
+      reservationData.categoria_comemoracao_id,
+      reservationData.reservation_date,
+      reservationData.number_of_people || 1
+    );
+  }
+
+  /**
+   * Validate where and when a reservation sits and fill in table, area and end
+   * time: opening hours, the chosen combination or table (capacity and
+   * conflicts, turnover buffers included), automatic assignment when no table
+   * is given, falling back to the weekday's overbooking allowance, the default
+   * end time from the duration rules and the pacing limits of the slot
+   * interval. excludeReservationId keeps a reservation being edited from
+   * conflicting with itself.
+   */
+  private async prepareSeating(
+    reservationData: Partial<Reservation>,
+    options: {
+      autoAssign?: boolean;
+      overridePacing?: boolean;
+      excludeReservationId?: string;
+      checkOpeningHours?: boolean;
+    } = {}
+  ): Promise<Partial<Reservation>> {
+    const { autoAssign = true, overridePacing = false, excludeReservationId, checkOpeningHours = true } = options;
+
+    // Horário de funcionamento: dias fechados, turnos e feriados
+    if (checkOpeningHours && reservationData.restaurant_id && reservationData.reservation_date && reservationData.start_time) {
+      await availabilityService.assertWithinOpeningHours(
+        reservationData.restaurant_id,
+        reservationData.reservation_date,
+        reservationData.start_time
+      );
+    }
+
+    // Combinação de mesas: validar capacidade e conflitos em todas as mesas do grupo
+    if (reservationData.table_combination_id && reservationData.reservation_date && reservationData.start_time) {
+      const combination = await TableCombinationService.getCombinationById(
+        reservationData.table_combination_id,
+        reservationData.restaurant_id!
+      );
+      if (!combination || !combination.is_active) {
+        throw createError('Table combination not found', 404);
+      }
+      if (reservationData.number_of_people && reservationData.number_of_people > combination.capacity) {
+        throw createError('Party size exceeds the table combination capacity', 400);
       }
 
-      // Verificar sobreposição de horários
-      if (existingReservations && existingReservations.length > 0) {
-        for (const reservation of existingReservations) {
-          const existingStart = reservation.start_time;
-          const existingEnd = reservation.end_time || this.addHours(reservation.start_time, 2);
-          
-          const newStart = startTime;
-          const newEnd = endTime || this.addHours(startTime, 2);
-          
-          // Verificar se há sobreposição de horários
-          if (this.hasTimeOverlap(existingStart, existingEnd, newStart, newEnd)) {
-            return true; // Conflito encontrado
-          }
-        }
+      const conflict = await availabilityService.checkCombinationConflict(combination.id, {
+        date: reservationData.reservation_date,
+        start_time: reservationData.start_time,
+        end_time: reservationData.end_time,
+        number_of_people: reservationData.number_of_people || 1
+      }, excludeReservationId);
+
+      if (conflict) {
+        throw createError('One or more tables in the combination are already reserved for this time period', 409);
       }
 
-      // 2. Verificar se a data/horário está bloqueada para a área da mesa
-      const { data: tableData, error: tableError } = await supabase
-        .from('tables')
-        .select('area_id')
-        .eq('id', tableId)
-        .single();
+      reservationData = {
+        ...reservationData,
+        table_id: combination.table_ids[0],
+        area_id: combination.area_id,
+        is_overbooked: false
+      };
+    } else if (reservationData.table_id && reservationData.reservation_date && reservationData.start_time) {
+      // A área da mesa define a regra de duração aplicada
+      const table = await TableService.getTableById(reservationData.table_id);
+      if (!table) {
+        throw createError('Table not found', 404);
+      }
+
+      // Check for conflicts
+      const conflict = await availabilityService.checkTableConflict(table.id, {
+        date: reservationData.reservation_date,
+        start_time: reservationData.start_time,
+        end_time: reservationData.end_time,
+        number_of_people: reservationData.number_of_people || 1
+      }, excludeReservationId);
 
-      if (tableError) {
-        throw tableError;
+      if (conflict) {
+        throw createError('Table is already reserved for this time period', 409);
       }
 
-      if (tableData?.area_id) {
-        const { data: blockedDates, error: blockedError } = await supabase
-          .from('bloqued_dates')
-          .select('*')
-          .eq('area_id', tableData.area_id)
-          .lte('init_date', date)
-          .gte('end_date', date);
+      reservationData = { ...reservationData, area_id: table.area_id, is_overbooked: false };
+    }
+
+    // Sem mesa informada: escolher automaticamente a melhor mesa livre
+    if (
+      !reservationData.table_id &&
+      autoAssign &&
+      reservationData.restaurant_id &&
+      reservationData.reservation_date &&
+      reservationData.start_time &&
+      reservationData.number_of_people
+    ) {
+      const request = {
+        date: reservationData.reservation_date,
+        start_time: reservationData.start_time,
+        end_time: reservationData.end_time,
+        number_of_people: reservationData.number_of_people,
+        area_id: reservationData.area_id
+      };
+      const assignment = await availabilityService.findBestTable(
+        reservationData.restaurant_id,
+        request,
+        excludeReservationId,
+        overridePacing
+      );
 
-        if (blockedError) {
-          throw blockedError;
+      if (assignment) {
+        reservationData = {
+          ...reservationData,
+          table_id: assignment.table_id,
+          area_id: assignment.area_id,
+          table_combination_id: assignment.table_combination_id,
+          end_time: reservationData.end_time || assignment.end_time,
+          assignment_reason: assignment.reason,
+          is_overbooked: false
+        };
+      } else {
+        // Sem mesa livre: o overbooking do dia da semana aceita a reserva sem mesa, até o limite de pessoas
+        const overbooking = await availabilityService.getOverbookingUsage(
+          reservationData.restaurant_id,
+          request,
+          excludeReservationId
+        );
+        if (!fitsOverbooking(overbooking, reservationData.number_of_people)) {
+          throw createError('No table available for this party size and time', 409);
         }
 
-        if (blockedDates && blockedDates.length > 0) {
-          for (const blockedDate of blockedDates) {
-            // Se é bloqueio de dia inteiro, bloquear
-            if (blockedDate.is_full_day) {
-              return true;
-            }
-
-            // Se é bloqueio de horário específico, verificar sobreposição
-            if (blockedDate.init_time && blockedDate.end_time) {
-              const newStart = startTime;
-              const newEnd = endTime || this.addHours(startTime, 2);
-              
-              if (this.hasTimeOverlap(blockedDate.init_time, blockedDate.end_time, newStart, newEnd)) {
-                return true; // Conflito encontrado
-              }
-            }
-          }
+        reservationData = {
+          ...reservationData,
+          table_id: null,
+          table_combination_id: null,
+          assignment_reason:
+            `Overbooked: no free table, ${overbooking.overbooked_covers + reservationData.number_of_people} of ` +
+            `${overbooking.allowed_covers} overbooking covers in use (${overbooking.percentage}% of ${overbooking.seating_capacity} seats)`,
+          is_overbooked: true
+        };
+      }
+    }
+
+    // Sem horário de término: gravar o término previsto pelas regras de duração
+    if (
+      !reservationData.end_time &&
+      reservationData.restaurant_id &&
+      reservationData.reservation_date &&
+      reservationData.start_time
+    ) {
+      reservationData = {
+        ...reservationData,
+        end_time: await availabilityService.resolveEndTime(reservationData.restaurant_id, {
+          date: reservationData.reservation_date,
+          start_time: reservationData.start_time,
+          number_of_people: reservationData.number_of_people || 1,
+          area_id: reservationData.area_id
+        })
+      };
+    }
+
+    // Pacing: limite de reservas e de pessoas por intervalo, salvo liberação do gerente
+    if (
+      !overridePacing &&
+      reservationData.restaurant_id &&
+      reservationData.reservation_date &&
+      reservationData.start_time &&
+      reservationData.number_of_people
+    ) {
+      await availabilityService.assertWithinPacing(reservationData.restaurant_id, {
+        date: reservationData.reservation_date,
+        start_time: reservationData.start_time,
+        number_of_people: reservationData.number_of_people,
+        area_id: reservationData.area_id
+      }, excludeReservationId);
+    }
+
+    return reservationData;
+  }
+
+  private async recordStatusChange(
+    reservationId: string,
+    previousStatus: ReservationStatus | null,
+    newStatus: ReservationStatus,
+    changedBy?: string,
+    notes?: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('reservation_status_history')
+      .insert({
+        reservation_id: reservationId,
+        previous_status: previousStatus,
+        new_status: newStatus,
+        changed_by: changedBy,
+        notes,
+        changed_at: new Date().toISOString()
+      });
+
+    if (error) {
+      logger.error({ action: 'reservation.statusHistory', reservation_id: reservationId, error: error.message }, 'Error recording reservation status change');
+    }
+  }
+
+  private async recordChangeLog(
+    reservationId: string,
+    action: ReservationChangeAction,
+    changes: ReservationChangeLog['changes'],
+    changedBy?: string
+  ): Promise<void> {
+    if (action === 'updated' && Object.keys(changes).length === 0) return;
+
+    const { error } = await supabase
+      .from('reservation_change_log')
+      .insert({
+        reservation_id: reservationId,
+        action,
+        changes,
+        changed_by: changedBy,
+        changed_at: new Date().toISOString()
+      });
+
+    if (error) {
+      logger.error({ action: 'reservation.changeLog', reservation_id: reservationId, error: error.message }, 'Error recording reservation change log');
+    }
+  }
+
+  /**
+   * Before/after values of the given fields that actually changed
+   */
+  private diffReservation(before: Record<string, any>, after: Record<string, any>, fields: string[]): ReservationChangeLog['changes'] {
+    const changes: ReservationChangeLog['changes'] = {};
+    for (const field of fields) {
+      if (field === 'updated_at' || !(field in after)) continue;
+      if (!this.sameValue(field, before[field], after[field])) {
+        changes[field] = { before: before[field] ?? null, after: after[field] ?? null };
+      }
+    }
+    return changes;
+  }
+
+  private sameValue(field: string, a: unknown, b: unknown): boolean {
+    if ((a === null || a === undefined) && (b === null || b === undefined)) return true;
+    if (field.endsWith('_time') && typeof a === 'string' && typeof b === 'string') {
+      return timeToMinutes(a) === timeToMinutes(b);
+    }
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  /**
+   * Mantém o status da(s) mesa(s) da reserva em sincronia com o ciclo de vida:
+   * seated ocupa, confirmed do dia reserva, e os status finais liberam a mesa
+   */
+  private async syncTableStatus(
+    reservation: ReservationSeating,
+    previousStatus: ReservationStatus | null,
+    newStatus: ReservationStatus,
+    changedBy?: string
+  ): Promise<void> {
+    const notes = `Reservation ${reservation.customer_name} (${reservation.id}): ${previousStatus || 'new'} → ${newStatus}`;
+
+    try {
+      if (RESERVATION_STATUS_TRANSITIONS[newStatus].length === 0) {
+        if (previousStatus) {
+          await this.releaseTables(reservation, previousStatus, notes, changedBy);
         }
+        return;
       }
 
-      return false; // Nenhum conflito encontrado
+      await this.holdTables(reservation, newStatus, notes, changedBy);
+    } catch (error) {
+      logger.error(
+        { action: 'reservation.syncTables', reservation_id: reservation.id, error: error instanceof Error ? error.message : String(error) },
+        'Error syncing table status for reservation'
+      );
+    }
+  }
+
+  /**
+   * Reserva movida para outra mesa ou outro dia: libera as mesas antigas e
+   * segura as novas conforme o status atual
+   */
+  private async moveTables(previous: ReservationSeating, reservation: ReservationSeating, changedBy?: string): Promise<void> {
+    const notes = `Reservation ${reservation.customer_name} (${reservation.id}) moved`;
+
+    try {
+      await this.releaseTables(previous, previous.status, notes, changedBy);
+      if (RESERVATION_STATUS_TRANSITIONS[reservation.status].length > 0) {
+        await this.holdTables(reservation, reservation.status, notes, changedBy);
+      }
     } catch (error) {
-      console.error('Error checking table conflict:', error);
-      return false;
+      logger.error(
+        { action: 'reservation.moveTables', reservation_id: reservation.id, error: error instanceof Error ? error.message : String(error) },
+        'Error moving tables for reservation'
+      );
+    }
+  }
+
+  private async holdTables(reservation: ReservationSeating, status: ReservationStatus, notes: string, changedBy?: string): Promise<void> {
+    const tableIds = this.getReservationTableIds(reservation);
+    if (tableIds.length === 0) return;
+
+    if (status === 'seated') {
+      await TableService.changeTablesStatus(tableIds, 'occupied', notes, changedBy);
+      return;
     }
+
+    if (status === 'confirmed' && await this.isToday(reservation)) {
+      const available = await this.getTablesInStatus(tableIds, 'available');
+      await TableService.changeTablesStatus(available, 'reserved', notes, changedBy);
+    }
+  }
+
+  /**
+   * Só libera mesas que a reserva estava segurando enquanto tinha o status informado
+   */
+  private async releaseTables(reservation: ReservationSeating, heldStatus: ReservationStatus, notes: string, changedBy?: string): Promise<void> {
+    const tableIds = this.getReservationTableIds(reservation);
+    if (tableIds.length === 0) return;
+
+    const held = heldStatus === 'seated'
+      ? tableIds
+      : heldStatus === 'confirmed' && await this.isToday(reservation) ? await this.getTablesInStatus(tableIds, 'reserved') : [];
+    await TableService.changeTablesStatus(held, 'available', notes, changedBy);
+  }
+
+  private tablesMoved(previous: ReservationSeating, reservation: ReservationSeating): boolean {
+    const before = this.getReservationTableIds(previous).sort().join(',');
+    const after = this.getReservationTableIds(reservation).sort().join(',');
+    return before !== after || previous.reservation_date !== reservation.reservation_date;
   }
 
-  // Função auxiliar para adicionar horas a um horário
-  private addHours(time: string, hours: number): string {
-    const [hour, minute] = time.split(':').map(Number);
-    const newHour = (hour + hours) % 24;
-    return `${newHour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+  private getReservationTableIds(reservation: ReservationSeating): string[] {
+    return reservation.table_combination?.table_ids || (reservation.table_id ? [reservation.table_id] : []);
   }
 
-  // Função auxiliar para verificar sobreposição de horários
-  private hasTimeOverlap(start1: string, end1: string, start2: string, end2: string): boolean {
-    const s1 = this.timeToMinutes(start1);
-    const e1 = this.timeToMinutes(end1);
-    const s2 = this.timeToMinutes(start2);
-    const e2 = this.timeToMinutes(end2);
-    
-    // Verificar se há sobreposição
-    // Uma reserva se sobrepõe se:
-    // - O início da nova reserva está dentro da reserva existente, OU
-    // - O fim da nova reserva está dentro da reserva existente, OU
-    // - A nova reserva engloba completamente a reserva existente
-    return (s2 < e1 && e2 > s1);
+  private async isToday(reservation: Pick<Reservation, 'restaurant_id' | 'reservation_date'>): Promise<boolean> {
+    return reservation.reservation_date === await restaurantTimeService.today(reservation.restaurant_id);
   }
 
-  // Função auxiliar para converter horário para minutos
-  private timeToMinutes(time: string): number {
-    const [hour, minute] = time.split(':').map(Number);
-    return hour * 60 + minute;
+  private async getTablesInStatus(tableIds: string[], status: Table['status']): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('tables')
+      .select('id, status')
+      .in('id', tableIds);
+
+    if (error) throw createError(error.message, 400);
+
+    return (data || []).filter(table => table.status === status).map(table => table.id);
   }
 }
 
@@ -0,0 +1,48 @@
+import { supabase } from '../config/database';
+import { ReservationSettings, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+/**
+ * Apply a settings patch on top of the stored document. Each group (duration
+ * rules, pacing, deposits, overbooking, no-shows...) is replaced only when the
+ * patch sends it, so saving one group keeps the others.
+ */
+export function mergeSettings(
+  current: ReservationSettings['settings'],
+  patch: Partial<ReservationSettings['settings']>
+): ReservationSettings['settings'] {
+  const sent = Object.entries(patch).filter(([, value]) => value !== undefined);
+  return { ...current, ...Object.fromEntries(sent) };
+}
+
+export class ReservationSettingsService {
+  async getReservationSettings(restaurantId: string): Promise<ApiResponse<ReservationSettings | null>> {
+    try {
+      const { data, error } = await supabase
+        .from('reservation_settings')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .maybeSingle();
+
+      if (error) throw createError(error.message, 400);
+
+      return {
+        success: true,
+        data: data || null
+      };
+    } catch (error) {
+      throw createError(`Failed to fetch reservation settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Settings used by the booking rules; an empty object when the restaurant
+   * has not configured anything yet
+   */
+  async getSettings(restaurantId: string): Promise<ReservationSettings['settings']> {
+    const result = await this.getReservationSettings(restaurantId);
+    return result.data?.settings || {};
+  }
+}
+
+export default new ReservationSettingsService();
@@ -0,0 +1,545 @@
+import crypto from 'crypto';
+import { supabase } from '../config/database';
+import { signLinkToken, verifyLinkToken } from '../config/linkSigning';
+import {
+  ApiResponse,
+  Reservation,
+  ReservationImportReport,
+  ReservationImportRowResult,
+  Table
+} from '../types';
+import { createError, AppError } from '../middleware/errorHandler';
+import { reservationSchema } from '../middleware/validation';
+import reservationService from './reservationService';
+import availabilityService, {
+  ACTIVE_RESERVATION_STATUSES,
+  DEFAULT_RESERVATION_DURATION_MINUTES,
+  rangesConflict,
+  resolveTurnoverBuffer,
+  toTimeRange
+} from './availabilityService';
+import reservationSettingsService from './reservationSettingsService';
+import { fetchAllRows } from './occupancyService';
+import restaurantTimeService, { localDate } from './restaurantTimeService';
+import { TableService } from './tableService';
+import { AreaService } from './areaService';
+import moment from 'moment';
+
+export const MAX_IMPORT_ROWS = 1000;
+const CALENDAR_FEED_DAYS = 60;
+
+// Campos de reserva que podem vir de uma coluna do CSV
+export const IMPORT_FIELDS = [
+  'customer_name',
+  'phone',
+  'number_of_people',
+  'reservation_date',
+  'start_time',
+  'end_time',
+  'table_id',
+  'table_name',
+  'area_id',
+  'area_name',
+  'status',
+  'notes'
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+
+const EXPORT_COLUMNS = [
+  'id',
+  'reservation_date',
+  'start_time',
+  'end_time',
+  'customer_name',
+  'phone',
+  'number_of_people',
+  'status',
+  'area',
+  'table',
+  'notes',
+  'deposit_status',
+  'deposit_amount',
+  'created_at'
+];
+
+type ExportReservationRow = Reservation & {
+  table: Pick<Table, 'name' | 'number'> | null;
+  area: { name: string } | null;
+};
+
+type CalendarReservationRow = Pick<
+  Reservation,
+  'id' | 'reservation_date' | 'start_time' | 'end_time' | 'customer_name' | 'number_of_people' | 'status' | 'notes' | 'updated_at'
+> & { table: Pick<Table, 'name' | 'number'> | null };
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells with embedded
+ * delimiters, quotes and line breaks; a quote inside an unquoted cell is kept
+ * as text. The delimiter is detected from the header line, so exports from
+ * spreadsheets using ";" work as well. A quote never closed is rejected
+ * instead of swallowing the rest of the file.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let quoteRow = 0;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+      quoteRow = rows.length + 1;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw createError(`Malformed CSV: the quote opened in row ${quoteRow} is never closed`, 400);
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+/**
+ * Serialize rows as CSV. Cells that a spreadsheet would run as a formula are
+ * prefixed with a quote so exported guest data cannot inject formulas.
+ */
+export function toCsv(rows: unknown[][]): string {
+  return rows
+    .map(cells => cells.map(value => {
+      let text = value === null || value === undefined ? '' : String(value);
+      if (/^[=+\-@]/.test(text)) text = `'${text}`;
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * Accepts YYYY-MM-DD as well as the DD/MM/YYYY format used by most Brazilian tools
+ */
+export function normalizeImportDate(value: string): string {
+  const date = moment(value.trim(), ['YYYY-MM-DD', 'DD/MM/YYYY', 'D/M/YYYY'], true);
+  return date.isValid() ? date.format('YYYY-MM-DD') : value.trim();
+}
+
+export function normalizeImportTime(value: string): string {
+  const match = value.trim().match(/^(\d{1,2})[:h](\d{2})(?::\d{2})?$/);
+  return match ? `${match[1].padStart(2, '0')}:${match[2]}` : value.trim();
+}
+
+function escapeIcsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Linhas do iCalendar têm no máximo 75 octetos; continuações começam com espaço
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export interface CalendarEvent {
+  uid: string;
+  start: moment.Moment;
+  end: moment.Moment;
+  summary: string;
+  description?: string;
+  status: 'CONFIRMED' | 'TENTATIVE';
+  updated?: string;
+}
+
+/**
+ * Build an iCalendar document. Times are written as floating local times,
+ * i.e. in the restaurant's own clock, which X-WR-TIMEZONE names for the
+ * calendar apps that read it.
+ */
+export function buildCalendar(name: string, events: CalendarEvent[], timezone?: string): string {
+  const stamp = moment.utc().format('YYYYMMDD[T]HHmmss[Z]');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Angu//Reservations//PT',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    ...(timezone ? [`X-WR-TIMEZONE:${timezone}`] : [])
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${event.updated ? moment.utc(event.updated).format('YYYYMMDD[T]HHmmss[Z]') : stamp}`,
+      `DTSTART:${event.start.format('YYYYMMDD[T]HHmmss')}`,
+      `DTEND:${event.end.format('YYYYMMDD[T]HHmmss')}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+      `STATUS:${event.status}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+interface CalendarFeedPayload {
+  restaurant_id: string;
+  area_id: string;
+  key: string;
+}
+
+export class ReservationTransferService {
+  /**
+   * Import reservations from CSV. Each row is mapped through the column
+   * mapping (a field without a mapping is read from the column of the same
+   * name), validated like a manual booking and checked for table conflicts,
+   * including conflicts with earlier rows of the same file. With dryRun
+   * nothing is saved: each row still goes through every check of
+   * createReservation (status, opening hours, seating, pacing) and the report
+   * tells which rows would be imported. Earlier rows of a dry run only count
+   * towards table conflicts, not towards pacing limits.
+   */
+  async importReservations(
+    restaurantId: string,
+    csv: string,
+    options: { mapping?: ImportColumnMapping; dryRun?: boolean; autoAssign?: boolean; changedBy?: string } = {}
+  ): Promise<ApiResponse<ReservationImportReport>> {
+    try {
+      const { mapping = {}, dryRun = false, autoAssign = false, changedBy } = options;
+
+      const [header, ...rows] = parseCsv(csv);
+      if (!header) {
+        throw createError('The CSV file is empty', 400);
+      }
+      if (rows.length > MAX_IMPORT_ROWS) {
+        throw createError(`A single import accepts at most ${MAX_IMPORT_ROWS} rows`, 400);
+      }
+
+      const columns = header.map(name => name.trim().toLowerCase());
+      const columnIndex = new Map<ImportField, number>();
+      for (const field of IMPORT_FIELDS) {
+        const index = columns.indexOf((mapping[field] || field).trim().toLowerCase());
+        if (index >= 0) columnIndex.set(field, index);
+      }
+
+      const missing = ['customer_name', 'number_of_people', 'reservation_date', 'start_time']
+        .filter(field => !columnIndex.has(field as ImportField));
+      if (missing.length > 0) {
+        throw createError(`Missing columns for: ${missing.join(', ')}`, 400);
+      }
+
+      const [tables, areas, settings] = await Promise.all([
+        TableService.getTablesByRestaurant(restaurantId),
+        AreaService.getAreasByRestaurant(restaurantId),
+        reservationSettingsService.getSettings(restaurantId)
+      ]);
+
+      const accepted: { table_id: string; date: string; start_time: string; end_time: string }[] = [];
+      const results: ReservationImportRowResult[] = [];
+
+      for (let i = 0; i < rows.length; i++) {
+        // Linha 1 é o cabeçalho
+        const rowNumber = i + 2;
+        const cells = rows[i];
+        const value = (field: ImportField) => {
+          const index = columnIndex.get(field);
+          return index === undefined ? '' : (cells[index] || '').trim();
+        };
+
+        const errors: string[] = [];
+        const candidate: Record<string, any> = {};
+        for (const field of ['customer_name', 'phone', 'status', 'notes', 'table_id', 'area_id'] as ImportField[]) {
+          if (value(field)) candidate[field] = value(field);
+        }
+        if (value('number_of_people')) candidate.number_of_people = Number(value('number_of_people'));
+        if (value('reservation_date')) candidate.reservation_date = normalizeImportDate(value('reservation_date'));
+        if (value('start_time')) candidate.start_time = normalizeImportTime(value('start_time'));
+        if (value('end_time')) candidate.end_time = normalizeImportTime(value('end_time'));
+
+        if (value('area_name') && !candidate.area_id) {
+          const area = areas.find(item => item.name.toLowerCase() === value('area_name').toLowerCase());
+          if (area) candidate.area_id = area.id;
+          else errors.push(`Unknown area "${value('area_name')}"`);
+        }
+        if (value('table_name') && !candidate.table_id) {
+          const name = value('table_name').toLowerCase();
+          const table = tables.find(item =>
+            (item.name || '').toLowerCase() === name || String(item.number) === name
+          );
+          if (table) candidate.table_id = table.id;
+          else errors.push(`Unknown table "${value('table_name')}"`);
+        }
+
+        const { error: validationError } = reservationSchema.validate(candidate, { abortEarly: false });
+        if (validationError) {
+          errors.push(...validationError.details.map(detail => detail.message));
+        }
+        if (candidate.reservation_date && !moment(candidate.reservation_date, 'YYYY-MM-DD', true).isValid()) {
+          errors.push(`Invalid date "${value('reservation_date')}"`);
+        }
+
+        if (errors.length === 0 && candidate.table_id) {
+          const table = tables.find(item => item.id === candidate.table_id);
+          if (!table) {
+            errors.push('Table not found');
+          } else {
+            const endTime = candidate.end_time || await availabilityService.resolveEndTime(restaurantId, {
+              date: candidate.reservation_date,
+              start_time: candidate.start_time,
+              number_of_people: candidate.number_of_people,
+              area_id: table.area_id
+            });
+            const request = {
+              date: candidate.reservation_date,
+              start_time: candidate.start_time,
+              end_time: endTime,
+              number_of_people: candidate.number_of_people
+            };
+            const range = toTimeRange(candidate.start_time, endTime);
+
+            if (await availabilityService.checkTableConflict(table.id, request)) {
+              errors.push('Table is already reserved for this time period');
+            } else if (accepted.some(row =>
+              row.table_id === table.id &&
+              row.date === candidate.reservation_date &&
+              rangesConflict(toTimeRange(row.start_time, row.end_time), range, resolveTurnoverBuffer(settings, table.area_id))
+            )) {
+              errors.push('Table is already taken by an earlier row of this file');
+            } else {
+              accepted.push({ table_id: table.id, date: candidate.reservation_date, start_time: candidate.start_time, end_time: endTime });
+            }
+          }
+        }
+
+        if (errors.length > 0) {
+          results.push({ row: rowNumber, status: 'invalid', errors });
+          continue;
+        }
+
+        try {
+          const reservation = { ...candidate, restaurant_id: restaurantId } as Partial<Reservation>;
+          if (dryRun) {
+            await reservationService.validateReservation(reservation, { autoAssign });
+            results.push({ row: rowNumber, status: 'valid' });
+          } else {
+            const result = await reservationService.createReservation(reservation, { autoAssign, changedBy });
+            results.push({ row: rowNumber, status: 'created', reservation_id: result.data!.id });
+          }
+        } catch (rowError) {
+          results.push({
+            row: rowNumber,
+            status: 'invalid',
+            errors: [rowError instanceof Error ? rowError.message : 'Unknown error'],
+            code: (rowError as AppError).code
+          });
+        }
+      }
+
+      const succeeded = results.filter(result => result.status !== 'invalid').length;
+      return {
+        success: true,
+        data: {
+          dry_run: dryRun,
+          total: results.length,
+          succeeded,
+          failed: results.length - succeeded,
+          rows: results
+        },
+        message: dryRun
+          ? `${succeeded} of ${results.length} rows can be imported`
+          : `${succeeded} of ${results.length} rows imported`
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to import reservations: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  async exportReservationsCsv(
+    restaurantId: string,
+    filters: { from?: string; to?: string; status?: string; area_id?: string } = {}
+  ): Promise<string> {
+    try {
+      const reservations = await fetchAllRows((start, end) => {
+        let query = supabase
+          .from('reservations')
+          .select('*, table:tables(name, number), area:restaurant_areas(name)')
+          .eq('restaurant_id', restaurantId);
+
+        if (filters.from) query = query.gte('reservation_date', filters.from);
+        if (filters.to) query = query.lte('reservation_date', filters.to);
+        if (filters.status) query = query.eq('status', filters.status);
+        if (filters.area_id) query = query.eq('area_id', filters.area_id);
+
+        return query
+          .order('reservation_date', { ascending: true })
+          .order('start_time', { ascending: true })
+          .order('id', { ascending: true })
+          .range(start, end)
+          .returns<ExportReservationRow[]>();
+      });
+
+      return toCsv([
+        EXPORT_COLUMNS,
+        ...reservations.map(reservation => [
+          reservation.id,
+          reservation.reservation_date,
+          reservation.start_time?.slice(0, 5),
+          reservation.end_time?.slice(0, 5),
+          reservation.customer_name,
+          reservation.phone,
+          reservation.number_of_people,
+          reservation.status,
+          reservation.area?.name,
+          reservation.table?.name || reservation.table?.number,
+          reservation.notes,
+          reservation.deposit_status,
+          reservation.deposit_amount,
+          reservation.created_at
+        ])
+      ]);
+    } catch (error) {
+      throw createError(
+        `Failed to export reservations: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Signed token for the calendar feed of one area. It carries no expiry so
+   * calendar subscriptions keep working; it holds the area's feed key instead,
+   * so rotating the key revokes every URL handed out before.
+   */
+  async getCalendarFeedToken(restaurantId: string, areaId: string): Promise<string> {
+    const area = await AreaService.getAreaById(areaId);
+    if (!area || area.restaurant_id !== restaurantId) {
+      throw createError('Area not found', 404);
+    }
+    return signLinkToken('calendar', { restaurant_id: restaurantId, area_id: areaId, key: area.calendar_feed_key });
+  }
+
+  /**
+   * Replaces the area's feed key and returns the new feed token
+   */
+  async rotateCalendarFeedToken(restaurantId: string, areaId: string): Promise<string> {
+    const { data, error } = await supabase
+      .from('restaurant_areas')
+      .update({ calendar_feed_key: crypto.randomUUID() })
+      .eq('id', areaId)
+      .eq('restaurant_id', restaurantId)
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw createError(error.message, 400);
+    if (!data) throw createError('Area not found', 404);
+
+    return this.getCalendarFeedToken(restaurantId, areaId);
+  }
+
+  /**
+   * Upcoming active reservations of the area in the feed token, as iCalendar
+   */
+  async getCalendarFeed(token: string): Promise<string> {
+    const payload = verifyLinkToken<CalendarFeedPayload>('calendar', token);
+    if (!payload?.restaurant_id || !payload.area_id) {
+      throw createError('Invalid calendar feed token', 401);
+    }
+
+    const area = await AreaService.getAreaById(payload.area_id);
+    if (!area || area.restaurant_id !== payload.restaurant_id) {
+      throw createError('Area not found', 404);
+    }
+    // Chave trocada: a URL foi revogada
+    if (payload.key !== area.calendar_feed_key) {
+      throw createError('Invalid calendar feed token', 401);
+    }
+
+    const timezone = await restaurantTimeService.getTimezone(payload.restaurant_id);
+    const { data, error } = await supabase
+      .from('reservations')
+      .select('id, reservation_date, start_time, end_time, customer_name, number_of_people, status, notes, updated_at, table:tables(name, number)')
+      .eq('restaurant_id', payload.restaurant_id)
+      .eq('area_id', payload.area_id)
+      .gte('reservation_date', localDate(timezone))
+      .lte('reservation_date', localDate(timezone, CALENDAR_FEED_DAYS))
+      .in('status', ACTIVE_RESERVATION_STATUSES)
+      .order('reservation_date', { ascending: true })
+      .order('start_time', { ascending: true })
+      .returns<CalendarReservationRow[]>();
+
+    if (error) throw createError(error.message, 400);
+
+    const events = (data || []).map((reservation): CalendarEvent => {
+      const start = moment(`${reservation.reservation_date} ${reservation.start_time}`, 'YYYY-MM-DD HH:mm');
+      const end = reservation.end_time
+        ? moment(`${reservation.reservation_date} ${reservation.end_time}`, 'YYYY-MM-DD HH:mm')
+        : start.clone().add(DEFAULT_RESERVATION_DURATION_MINUTES, 'minutes');
+      // Término antes do início: reserva que passa da meia-noite
+      if (!end.isAfter(start)) end.add(1, 'day');
+
+      const table = reservation.table?.name || reservation.table?.number;
+      return {
+        uid: `${reservation.id}@reservations.angu`,
+        start,
+        end,
+        summary: `${reservation.customer_name} (${reservation.number_of_people} pessoas)`,
+        description: [
+          table ? `Mesa: ${table}` : null,
+          `Status: ${reservation.status}`,
+          reservation.notes ? `Observações: ${reservation.notes}` : null
+        ].filter(Boolean).join('\n'),
+        status: reservation.status === 'pending' ? 'TENTATIVE' : 'CONFIRMED',
+        updated: reservation.updated_at
+      };
+    });
+
+    return buildCalendar(`Reservas - ${area.name}`, events, timezone);
+  }
+}
+
+export default new ReservationTransferService();
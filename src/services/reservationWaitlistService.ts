@@ -0,0 +1,428 @@
+import { supabase } from '../config/database';
+import {
+  ApiResponse,
+  Reservation,
+  ReservationSeating,
+  ReservationWaitlistEntry,
+  ReservationWaitlistStatus
+} from '../types';
+import { createError, AppError } from '../middleware/errorHandler';
+import reservationService from './reservationService';
+import reservationSettingsService from './reservationSettingsService';
+import { timeToMinutes } from './availabilityService';
+import { TableService } from './tableService';
+import restaurantTimeService from './restaurantTimeService';
+import logger from '../config/logger';
+import moment from 'moment';
+
+export const DEFAULT_WAITLIST_HOLD_MINUTES = 15;
+const DEFAULT_WAITLIST_JOB_INTERVAL_MS = 60 * 1000;
+
+// Entradas que ainda podem ser canceladas pelo restaurante
+const OPEN_WAITLIST_STATUSES: ReservationWaitlistStatus[] = ['waiting', 'offered'];
+
+/**
+ * Whether a waiting entry can take a slot freed by a canceled reservation:
+ * same date, start within the guest's flexibility, same area when the guest
+ * asked for one, and a party that fits the freed table(s)
+ */
+export function isWaitlistEntryEligible(
+  entry: Pick<ReservationWaitlistEntry, 'reservation_date' | 'start_time' | 'flexibility_minutes' | 'area_id' | 'number_of_people'>,
+  slot: { reservation_date: string; start_time: string; area_id?: string | null; capacity: number }
+): boolean {
+  if (entry.reservation_date !== slot.reservation_date) return false;
+  if (Math.abs(timeToMinutes(entry.start_time) - timeToMinutes(slot.start_time)) > entry.flexibility_minutes) return false;
+  if (entry.area_id && entry.area_id !== slot.area_id) return false;
+  return entry.number_of_people <= slot.capacity;
+}
+
+export class ReservationWaitlistService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Expire unanswered offers periodically in the background
+   */
+  start(intervalMs: number = Number(process.env.WAITLIST_HOLD_JOB_INTERVAL_MS) || DEFAULT_WAITLIST_JOB_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.run();
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async addEntry(
+    entryData: Omit<ReservationWaitlistEntry, 'id' | 'created_at' | 'updated_at' | 'status'>
+  ): Promise<ApiResponse<ReservationWaitlistEntry>> {
+    try {
+      const startsAt = moment(`${entryData.reservation_date} ${entryData.start_time}`, 'YYYY-MM-DD HH:mm');
+      if (startsAt.isBefore(await restaurantTimeService.now(entryData.restaurant_id))) {
+        throw createError('Não é possível entrar na lista de espera para datas ou horários passados', 400);
+      }
+
+      const { data, error } = await supabase
+        .from('reservation_waitlist')
+        .insert([{ ...entryData, status: 'waiting' }])
+        .select()
+        .single();
+
+      if (error) throw createError(error.message, 400);
+
+      return {
+        success: true,
+        data,
+        message: 'Added to the reservation waitlist'
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to add waitlist entry: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  async getEntries(
+    restaurantId: string,
+    filters: { date?: string; status?: ReservationWaitlistStatus } = {}
+  ): Promise<ApiResponse<ReservationWaitlistEntry[]>> {
+    try {
+      let query = supabase
+        .from('reservation_waitlist')
+        .select('*')
+        .eq('restaurant_id', restaurantId);
+
+      if (filters.date) {
+        query = query.eq('reservation_date', filters.date);
+      }
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+
+      const { data, error } = await query
+        .order('reservation_date', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw createError(error.message, 400);
+
+      return {
+        success: true,
+        data: data || []
+      };
+    } catch (error) {
+      throw createError(`Failed to fetch waitlist entries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getEntryById(id: string, restaurantId: string): Promise<ApiResponse<ReservationWaitlistEntry>> {
+    try {
+      const entry = await this.findEntry(id, restaurantId);
+      return {
+        success: true,
+        data: entry
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to fetch waitlist entry: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Confirm the held reservation of an offered entry
+   */
+  async acceptOffer(id: string, restaurantId: string, changedBy?: string): Promise<ApiResponse<ReservationWaitlistEntry>> {
+    try {
+      const entry = await this.findEntry(id, restaurantId);
+      if (entry.status !== 'offered' || !entry.reservation_id) {
+        throw createError('This waitlist entry has no open offer', 409, 'WAITLIST_OFFER_UNAVAILABLE');
+      }
+      if (entry.hold_expires_at && moment(entry.hold_expires_at).isBefore(moment())) {
+        throw createError('The offer for this waitlist entry has expired', 409, 'WAITLIST_OFFER_EXPIRED');
+      }
+
+      await reservationService.updateReservationStatus(entry.reservation_id, 'confirmed', {
+        changedBy,
+        notes: 'Waitlist offer accepted'
+      });
+      const data = await this.setStatus(entry.id, 'accepted');
+
+      return {
+        success: true,
+        data,
+        message: 'Waitlist offer accepted'
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to accept waitlist offer: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500,
+        (error as AppError).code
+      );
+    }
+  }
+
+  /**
+   * Release the held table of an offered entry; the slot goes to the next guest
+   */
+  async declineOffer(id: string, restaurantId: string, changedBy?: string): Promise<ApiResponse<ReservationWaitlistEntry>> {
+    try {
+      const entry = await this.findEntry(id, restaurantId);
+      if (entry.status !== 'offered' || !entry.reservation_id) {
+        throw createError('This waitlist entry has no open offer', 409, 'WAITLIST_OFFER_UNAVAILABLE');
+      }
+
+      const data = await this.setStatus(entry.id, 'declined');
+      await reservationService.updateReservationStatus(entry.reservation_id, 'canceled', {
+        changedBy,
+        notes: 'Waitlist offer declined'
+      });
+
+      return {
+        success: true,
+        data,
+        message: 'Waitlist offer declined'
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to decline waitlist offer: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500,
+        (error as AppError).code
+      );
+    }
+  }
+
+  async cancelEntry(id: string, restaurantId: string, changedBy?: string): Promise<ApiResponse<ReservationWaitlistEntry>> {
+    try {
+      const entry = await this.findEntry(id, restaurantId);
+      if (!OPEN_WAITLIST_STATUSES.includes(entry.status)) {
+        throw createError(`A ${entry.status} waitlist entry cannot be canceled`, 409);
+      }
+
+      const data = await this.setStatus(entry.id, 'canceled');
+      if (entry.status === 'offered' && entry.reservation_id) {
+        await reservationService.updateReservationStatus(entry.reservation_id, 'canceled', {
+          changedBy,
+          notes: 'Waitlist entry canceled'
+        });
+      }
+
+      return {
+        success: true,
+        data,
+        message: 'Waitlist entry canceled'
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to cancel waitlist entry: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Offer the slot of a canceled reservation to the first eligible waiting
+   * guest. The offer is a pending reservation on the freed table that is
+   * canceled again when the hold expires. Errors are logged so they never
+   * block the cancellation itself.
+   */
+  async offerFreedSlot(reservation: ReservationSeating, changedBy?: string): Promise<ReservationWaitlistEntry | null> {
+    try {
+      // Uma oferta cancelada diretamente na reserva deixa de valer
+      await this.closeOfferFor(reservation.id);
+
+      const startsAt = moment(`${reservation.reservation_date} ${reservation.start_time}`, 'YYYY-MM-DD HH:mm');
+      if (!reservation.table_id || startsAt.isBefore(await restaurantTimeService.now(reservation.restaurant_id))) return null;
+
+      const { data: entries, error } = await supabase
+        .from('reservation_waitlist')
+        .select('*')
+        .eq('restaurant_id', reservation.restaurant_id)
+        .eq('reservation_date', reservation.reservation_date)
+        .eq('status', 'waiting')
+        .order('created_at', { ascending: true });
+
+      if (error) throw createError(error.message, 400);
+      if (!entries || entries.length === 0) return null;
+
+      const slot = {
+        reservation_date: reservation.reservation_date,
+        start_time: reservation.start_time,
+        area_id: reservation.area_id,
+        capacity: await this.getFreedCapacity(reservation)
+      };
+      const settings = await reservationSettingsService.getSettings(reservation.restaurant_id);
+      const holdMinutes = settings.waitlist_hold_minutes ?? DEFAULT_WAITLIST_HOLD_MINUTES;
+
+      for (const entry of entries as ReservationWaitlistEntry[]) {
+        if (!isWaitlistEntryEligible(entry, slot)) continue;
+
+        let hold: Reservation;
+        try {
+          const result = await reservationService.createReservation(
+            {
+              restaurant_id: entry.restaurant_id,
+              customer_name: entry.customer_name,
+              phone: entry.phone,
+              number_of_people: entry.number_of_people,
+              reservation_date: reservation.reservation_date,
+              start_time: reservation.start_time,
+              ...(reservation.table_combination_id
+                ? { table_combination_id: reservation.table_combination_id }
+                : { table_id: reservation.table_id }),
+              status: 'pending',
+              notes: entry.notes
+            },
+            { autoAssign: false, changedBy }
+          );
+          hold = result.data!;
+        } catch (holdError) {
+          // Pacing, horário ou outra regra impediu esta entrada; tentar a próxima
+          logger.warn(
+            { action: 'waitlist.offer', entry_id: entry.id, error: holdError instanceof Error ? holdError.message : String(holdError) },
+            'Waitlist entry could not take the freed slot'
+          );
+          continue;
+        }
+
+        const { data, error: offerError } = await supabase
+          .from('reservation_waitlist')
+          .update({
+            status: 'offered',
+            reservation_id: hold.id,
+            offered_at: new Date().toISOString(),
+            hold_expires_at: moment().add(holdMinutes, 'minutes').toISOString(),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', entry.id)
+          .select()
+          .single();
+
+        if (offerError) throw createError(offerError.message, 400);
+
+        return data;
+      }
+
+      return null;
+    } catch (error) {
+      logger.error(
+        { action: 'waitlist.offer', reservation_id: reservation.id, error: error instanceof Error ? error.message : String(error) },
+        'Error offering freed slot to the waitlist'
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Expire offers whose hold ran out and release their tables, which offers
+   * the slot to the next guest in line. Returns how many offers expired.
+   */
+  async expireHolds(now: moment.Moment = moment()): Promise<number> {
+    const { data: entries, error } = await supabase
+      .from('reservation_waitlist')
+      .select('*')
+      .eq('status', 'offered')
+      .lte('hold_expires_at', now.toISOString());
+
+    if (error) throw createError(error.message, 400);
+
+    let expired = 0;
+    for (const entry of (entries || []) as ReservationWaitlistEntry[]) {
+      try {
+        await this.setStatus(entry.id, 'expired');
+        expired++;
+
+        if (entry.reservation_id) {
+          await reservationService.updateReservationStatus(entry.reservation_id, 'canceled', {
+            notes: 'Waitlist hold expired'
+          });
+        }
+      } catch (error) {
+        logger.error(
+          { action: 'waitlist.expire', entry_id: entry.id, error: error instanceof Error ? error.message : String(error) },
+          'Error expiring waitlist entry'
+        );
+      }
+    }
+
+    return expired;
+  }
+
+  private async run(): Promise<void> {
+    // Evita execuções sobrepostas quando uma varredura demora mais que o intervalo
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const expired = await this.expireHolds();
+      if (expired > 0) {
+        logger.info({ action: 'waitlist.run', expired }, 'Waitlist offers expired');
+      }
+    } catch (error) {
+      logger.error({ action: 'waitlist.run', error: error instanceof Error ? error.message : String(error) }, 'Waitlist job failed');
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async getFreedCapacity(reservation: ReservationSeating): Promise<number> {
+    if (reservation.table_combination?.capacity) {
+      return reservation.table_combination.capacity;
+    }
+    if (!reservation.table_id) return 0;
+    const table = await TableService.getTableById(reservation.table_id);
+    return table?.capacity || 0;
+  }
+
+  private async closeOfferFor(reservationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('reservation_waitlist')
+      .update({ status: 'declined', updated_at: new Date().toISOString() })
+      .eq('reservation_id', reservationId)
+      .eq('status', 'offered');
+
+    if (error) throw createError(error.message, 400);
+  }
+
+  private async findEntry(id: string, restaurantId: string): Promise<ReservationWaitlistEntry> {
+    const { data, error } = await supabase
+      .from('reservation_waitlist')
+      .select('*')
+      .eq('id', id)
+      .eq('restaurant_id', restaurantId)
+      .single();
+
+    if (error || !data) throw createError('Waitlist entry not found', 404);
+
+    return data;
+  }
+
+  private async setStatus(id: string, status: ReservationWaitlistStatus): Promise<ReservationWaitlistEntry> {
+    const { data, error } = await supabase
+      .from('reservation_waitlist')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw createError(error.message, 400);
+
+    return data;
+  }
+}
+
+const reservationWaitlistService = new ReservationWaitlistService();
+
+// Reserva cancelada libera o horário para a lista de espera de reservas
+reservationService.onReservationCanceled((reservation, changedBy) =>
+  reservationWaitlistService.offerFreedSlot(reservation, changedBy)
+);
+
+export default reservationWaitlistService;
@@ -1,6 +1,7 @@
 import { supabase } from '../config/database';
-import { Restaurant, ApiResponse, PaginatedResponse, RestaurantSettingsResponse, AISettings, NotificationSettings } from '../types';
+import { Restaurant, ApiResponse, PaginatedResponse, RestaurantSettingsResponse, AISettings, NotificationSettings, ReservationSettings } from '../types';
 import { createError } from '../middleware/errorHandler';
+import reservationSettingsService, { mergeSettings } from './reservationSettingsService';
 
 class RestaurantService {
   async createRestaurant(restaurantData: Partial<Restaurant>): Promise<Restaurant> {
@@ -205,6 +206,19 @@ class RestaurantService {
         // Ignorar erro, tabela pode não existir
       }
 
+      // Buscar configurações de reservas (opcional)
+      let reservationSettings = null;
+      try {
+        const { data: reservationData } = await supabase
+          .from('reservation_settings')
+          .select('*')
+          .eq('restaurant_id', restaurantId)
+          .maybeSingle();
+        reservationSettings = reservationData;
+      } catch (reservationError) {
+        // Ignorar erro, tabela pode não existir
+      }
+
       // Buscar usuários (opcional)
       let users = [];
       try {
@@ -223,6 +237,7 @@ class RestaurantService {
           restaurant,
           ai_settings: aiSettings,
           notification_settings: notificationSettings,
+          reservation_settings: reservationSettings,
           users
         }
       };
@@ -237,6 +252,7 @@ class RestaurantService {
       restaurant?: Partial<Restaurant>;
       ai_settings?: Partial<AISettings>;
       notification_settings?: Partial<NotificationSettings>;
+      reservation_settings?: Partial<ReservationSettings>;
     }
   ): Promise<ApiResponse<RestaurantSettingsResponse>> {
     try {
@@ -276,6 +292,27 @@ class RestaurantService {
         );
       }
 
+      // Atualizar configurações de reservas: só os grupos enviados substituem os salvos
+      if (updates.reservation_settings) {
+        const { settings, ...reservationSettings } = updates.reservation_settings;
+        const current = settings ? await reservationSettingsService.getSettings(restaurantId) : undefined;
+        updatesPromises.push(
+          supabase
+            .from('reservation_settings')
+            .upsert(
+              {
+                ...reservationSettings,
+                ...(settings && { settings: mergeSettings(current || {}, settings) }),
+                restaurant_id: restaurantId,
+                updated_at: new Date().toISOString()
+              },
+              { onConflict: 'restaurant_id' }
+            )
+            .select()
+            .single()
+        );
+      }
+
       // Executar todas as atualizações
       const results = await Promise.all(updatesPromises);
       
@@ -0,0 +1,124 @@
+import { supabase } from '../config/database';
+import { createError } from '../middleware/errorHandler';
+import moment from 'moment';
+
+/**
+ * Dates and times in the restaurant's own timezone. Reservation dates and
+ * start times are wall-clock values of the restaurant, so "today", "now" and
+ * "upcoming" must be computed in that timezone rather than in the server's
+ * (UTC in production), which flips the day at 9 p.m. in Brazil.
+ */
+
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'America/Sao_Paulo';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The restaurant's timezone, or the default one when it is missing or unknown
+ */
+export function resolveTimezone(timezone?: string | null): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Wall-clock date and time of the timezone at the given instant. The moment
+ * carries no zone, so it compares directly with moments built from a
+ * reservation's date and start time.
+ */
+export function localNow(timezone: string = DEFAULT_TIMEZONE, instant: Date = new Date()): moment.Moment {
+  const parts = Object.fromEntries(
+    getFormatter(resolveTimezone(timezone)).formatToParts(instant).map(part => [part.type, part.value])
+  );
+  return moment(
+    `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}:${parts.second}`,
+    'YYYY-MM-DD HH:mm:ss'
+  );
+}
+
+/**
+ * Local date (YYYY-MM-DD) in the timezone, offsetDays away from today
+ */
+export function localDate(timezone: string = DEFAULT_TIMEZONE, offsetDays: number = 0, instant: Date = new Date()): string {
+  return localNow(timezone, instant).add(offsetDays, 'days').format('YYYY-MM-DD');
+}
+
+/**
+ * Local date of a stored timestamp (created_at, changed_at...)
+ */
+export function toLocalDate(timestamp: string | Date, timezone: string = DEFAULT_TIMEZONE): string {
+  return localNow(timezone, new Date(timestamp)).format('YYYY-MM-DD');
+}
+
+/**
+ * Instant at which a wall-clock date and time happen in the timezone
+ */
+export function toInstant(date: string, time: string, timezone: string = DEFAULT_TIMEZONE): Date {
+  const wallClock = moment.utc(`${date} ${time}`, 'YYYY-MM-DD HH:mm');
+  const offsetMinutes = moment.utc(localNow(timezone, wallClock.toDate()).format('YYYY-MM-DD HH:mm:ss'))
+    .diff(wallClock, 'minutes');
+  return wallClock.subtract(offsetMinutes, 'minutes').toDate();
+}
+
+/**
+ * ISO timestamp of local midnight, for filtering timestamp columns by local day
+ */
+export function startOfLocalDay(date: string, timezone: string = DEFAULT_TIMEZONE): string {
+  return toInstant(date, '00:00', timezone).toISOString();
+}
+
+export class RestaurantTimeService {
+  async getTimezone(restaurantId: string): Promise<string> {
+    const { data, error } = await supabase
+      .from('restaurants')
+      .select('timezone')
+      .eq('id', restaurantId)
+      .maybeSingle();
+
+    if (error) throw createError(error.message, 400);
+
+    return resolveTimezone(data?.timezone);
+  }
+
+  /**
+   * Current wall-clock date and time at the restaurant
+   */
+  async now(restaurantId: string): Promise<moment.Moment> {
+    return localNow(await this.getTimezone(restaurantId));
+  }
+
+  /**
+   * Today's date at the restaurant, or offsetDays away from it
+   */
+  async today(restaurantId: string, offsetDays: number = 0): Promise<string> {
+    return localDate(await this.getTimezone(restaurantId), offsetDays);
+  }
+}
+
+export default new RestaurantTimeService();
@@ -0,0 +1,214 @@
+import { supabase } from '../config/database';
+import { Table, TableCombination, TableWithArea } from '../types';
+import { TableService } from './tableService';
+import { ACTIVE_RESERVATION_STATUSES } from './availabilityService';
+
+export class TableCombinationService {
+  /**
+   * Get all combinations for a restaurant, optionally filtered by area
+   */
+  static async getCombinations(restaurantId: string, areaId?: string): Promise<TableCombination[]> {
+    let query = supabase
+      .from('table_combinations')
+      .select('*')
+      .eq('restaurant_id', restaurantId);
+
+    if (areaId) {
+      query = query.eq('area_id', areaId);
+    }
+
+    const { data, error } = await query.order('capacity', { ascending: true });
+
+    if (error) {
+      throw new Error(`Error fetching table combinations: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get a single combination of the restaurant by ID
+   */
+  static async getCombinationById(id: string, restaurantId: string): Promise<TableCombination | null> {
+    const { data, error } = await supabase
+      .from('table_combinations')
+      .select('*')
+      .eq('id', id)
+      .eq('restaurant_id', restaurantId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return null;
+      }
+      throw new Error(`Error fetching table combination: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Create a new combination. Capacity defaults to the sum of the member tables.
+   */
+  static async createCombination(
+    combinationData: Omit<TableCombination, 'id' | 'created_at' | 'updated_at' | 'capacity'> & { capacity?: number }
+  ): Promise<TableCombination> {
+    const members = await this.validateMembers(
+      combinationData.restaurant_id,
+      combinationData.table_ids,
+      combinationData.area_id
+    );
+
+    const { data, error } = await supabase
+      .from('table_combinations')
+      .insert({
+        ...combinationData,
+        capacity: combinationData.capacity ?? members.reduce((sum, t) => sum + t.capacity, 0)
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error creating table combination: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Update a combination
+   */
+  static async updateCombination(
+    id: string,
+    restaurantId: string,
+    combinationData: Partial<TableCombination>
+  ): Promise<TableCombination> {
+    const current = await this.getCombinationById(id, restaurantId);
+    if (!current) {
+      throw new Error('Table combination not found');
+    }
+
+    if (combinationData.table_ids || combinationData.area_id) {
+      await this.validateMembers(
+        restaurantId,
+        combinationData.table_ids || current.table_ids,
+        combinationData.area_id || current.area_id
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('table_combinations')
+      .update({
+        ...combinationData,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('restaurant_id', restaurantId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error updating table combination: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a combination
+   */
+  static async deleteCombination(id: string, restaurantId: string): Promise<void> {
+    const combination = await this.getCombinationById(id, restaurantId);
+    if (!combination) {
+      throw new Error('Table combination not found');
+    }
+
+    const { data: reservations, error: reservationsError } = await supabase
+      .from('reservations')
+      .select('id')
+      .eq('table_combination_id', id)
+      .in('status', ACTIVE_RESERVATION_STATUSES);
+
+    if (reservationsError) {
+      throw new Error(`Error checking reservations: ${reservationsError.message}`);
+    }
+
+    if (reservations && reservations.length > 0) {
+      throw new Error('Cannot delete table combination with active reservations');
+    }
+
+    const { error } = await supabase
+      .from('table_combinations')
+      .delete()
+      .eq('id', id)
+      .eq('restaurant_id', restaurantId);
+
+    if (error) {
+      throw new Error(`Error deleting table combination: ${error.message}`);
+    }
+  }
+
+  /**
+   * Change the status of every table in the combination
+   */
+  static async changeCombinationStatus(
+    id: string,
+    restaurantId: string,
+    newStatus: Table['status'],
+    notes?: string,
+    changedBy?: string
+  ): Promise<TableWithArea[]> {
+    const combination = await this.getCombinationById(id, restaurantId);
+    if (!combination) {
+      throw new Error('Table combination not found');
+    }
+
+    return TableService.changeTablesStatus(combination.table_ids, newStatus, notes, changedBy);
+  }
+
+  /**
+   * Member tables must exist, be distinct and all belong to the combination's
+   * area, itself one of the restaurant's areas
+   */
+  private static async validateMembers(restaurantId: string, tableIds: string[], areaId: string): Promise<Table[]> {
+    const uniqueIds = Array.from(new Set(tableIds));
+    if (uniqueIds.length < 2) {
+      throw new Error('A table combination needs at least two distinct tables');
+    }
+
+    const { data: area, error: areaError } = await supabase
+      .from('restaurant_areas')
+      .select('id')
+      .eq('id', areaId)
+      .eq('restaurant_id', restaurantId)
+      .maybeSingle();
+
+    if (areaError) {
+      throw new Error(`Error fetching area: ${areaError.message}`);
+    }
+
+    if (!area) {
+      throw new Error('Invalid combination: area not found');
+    }
+
+    const { data: tables, error } = await supabase
+      .from('tables')
+      .select('*')
+      .eq('restaurant_id', restaurantId)
+      .in('id', uniqueIds);
+
+    if (error) {
+      throw new Error(`Error fetching tables: ${error.message}`);
+    }
+
+    if (!tables || tables.length !== uniqueIds.length) {
+      throw new Error('Invalid combination: some tables were not found');
+    }
+
+    if (tables.some(table => table.area_id !== areaId)) {
+      throw new Error('Invalid combination: all tables must belong to the same area');
+    }
+
+    return tables;
+  }
+}
@@ -1,5 +1,10 @@
 import { supabase } from '../config/database';
-import { Table, TableWithArea, TableStatusHistory } from '../types';
+import { Table, TableWithArea, TableStatusHistory, OccupancyReport, TurnAnalytics } from '../types';
+import restaurantTimeService, { localDate } from './restaurantTimeService';
+import realtimeService from './realtimeService';
+import occupancyService from './occupancyService';
+import turnAnalyticsService from './turnAnalyticsService';
+import moment from 'moment';
 
 export class TableService {
   /**
@@ -96,6 +101,8 @@ export class TableService {
       throw new Error(`Error creating table: ${error.message}`);
     }
 
+    realtimeService.publish(data.restaurant_id, 'table.created', data);
+
     return data;
   }
 
@@ -120,6 +127,8 @@ export class TableService {
       throw new Error(`Error updating table: ${error.message}`);
     }
 
+    realtimeService.publish(data.restaurant_id, 'table.updated', data);
+
     return data;
   }
 
@@ -142,14 +151,19 @@ export class TableService {
       throw new Error('Cannot delete table with active reservations');
     }
 
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('tables')
       .delete()
-      .eq('id', id);
+      .eq('id', id)
+      .select('id, restaurant_id');
 
     if (error) {
       throw new Error(`Error deleting table: ${error.message}`);
     }
+
+    for (const table of data || []) {
+      realtimeService.publish(table.restaurant_id, 'table.deleted', { id: table.id });
+    }
   }
 
   /**
@@ -191,9 +205,27 @@ export class TableService {
     // Record status change in history
     await this.recordStatusChange(id, previousStatus, newStatus, notes, changedBy);
 
+    realtimeService.publish(data.restaurant_id, 'table.status_changed', { ...data, previous_status: previousStatus });
+
     return data;
   }
 
+  /**
+   * Change the status of several tables at once (e.g. every member of a combination)
+   */
+  static async changeTablesStatus(
+    ids: string[],
+    newStatus: Table['status'],
+    notes?: string,
+    changedBy?: string
+  ): Promise<TableWithArea[]> {
+    const tables: TableWithArea[] = [];
+    for (const id of ids) {
+      tables.push(await this.changeTableStatus(id, newStatus, notes, changedBy));
+    }
+    return tables;
+  }
+
   /**
    * Update table position
    */
@@ -216,6 +248,8 @@ export class TableService {
       throw new Error(`Error updating table position: ${error.message}`);
     }
 
+    realtimeService.publish(data.restaurant_id, 'table.moved', data);
+
     return data;
   }
 
@@ -317,35 +351,32 @@ export class TableService {
   }
 
   /**
-   * Get weekly occupancy data for a restaurant
+   * Occupancy of the restaurant between two dates, by default the last 7 days
+   * up to today at the restaurant
    */
-  static async getWeeklyOccupancy(restaurantId: string): Promise<any[]> {
-    const today = new Date();
-    const startDate = new Date(today);
-    startDate.setDate(today.getDate() - 6);
-
-    const todayFormatted = today.toISOString().split('T')[0];
-    const startDateFormatted = startDate.toISOString().split('T')[0];
-
-    const { count, error } = await supabase
-      .from('reservations')
-      .select('id', { count: 'exact', head: true })
-      .eq('restaurant_id', restaurantId)
-      .gte('reservation_date', startDateFormatted)
-      .lte('reservation_date', todayFormatted)
-      .eq('status', 'confirmed');
-
-    if (error) {
-      throw new Error(`Error fetching weekly occupancy: ${error.message}`);
-    }
+  static async getWeeklyOccupancy(
+    restaurantId: string,
+    options: { from?: string; to?: string; areaId?: string } = {}
+  ): Promise<OccupancyReport> {
+    const timezone = await restaurantTimeService.getTimezone(restaurantId);
+    const to = options.to || localDate(timezone);
+    const from = options.from || moment(to, 'YYYY-MM-DD').subtract(6, 'days').format('YYYY-MM-DD');
+
+    return occupancyService.getOccupancy(restaurantId, from, to, options.areaId);
+  }
 
-    return [
-      {
-        date: todayFormatted,
-        percentage: (count || 0) / 7,
-        total_tables: 7,
-        occupied_tables: count || 0,
-      },
-    ];
+  /**
+   * Turn times, turns per service and idle time between two dates, by default
+   * the last 4 weeks up to today at the restaurant
+   */
+  static async getTurnAnalytics(
+    restaurantId: string,
+    options: { from?: string; to?: string; areaId?: string } = {}
+  ): Promise<TurnAnalytics> {
+    const timezone = await restaurantTimeService.getTimezone(restaurantId);
+    const to = options.to || localDate(timezone);
+    const from = options.from || moment(to, 'YYYY-MM-DD').subtract(27, 'days').format('YYYY-MM-DD');
+
+    return turnAnalyticsService.getTurnAnalytics(restaurantId, from, to, options.areaId);
   }
 } 
\ No newline at end of file
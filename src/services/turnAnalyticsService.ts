@@ -0,0 +1,374 @@
+import { supabase } from '../config/database';
+import {
+  Reservation,
+  TurnAnalytics,
+  TurnAreaStats,
+  TurnPartySizeStats,
+  TurnServiceStats,
+  TurnStats,
+  TurnTableStats,
+  TurnWeekdayStats,
+  WaitingList
+} from '../types';
+import { createError, AppError } from '../middleware/errorHandler';
+import { TimeRange, getServicePeriodName, getServiceWindows, timeToMinutes } from './availabilityService';
+import occupancyService, { MAX_OCCUPANCY_RANGE_DAYS, fetchAllRows, instantToWallMinutes, wallMinutes } from './occupancyService';
+import { resolveTimezone, startOfLocalDay } from './restaurantTimeService';
+import moment from 'moment';
+
+// Mesas esquecidas como ocupadas distorcem as médias
+export const MAX_TURN_MINUTES = 8 * 60;
+
+// Distância máxima entre o início da ocupação e a reserva ou a entrada da lista de espera
+const RESERVATION_MATCH_MINUTES = 90;
+const WALK_IN_MATCH_MINUTES = 15;
+
+const OUTSIDE_SERVICE = 'Fora do horário';
+
+interface Turn {
+  table_id: string;
+  area_id: string | null;
+  start: number;
+  end: number;
+  weekday: number;
+  // Data e índice do turno de serviço; null fora do horário
+  service: string | null;
+  period: string;
+  party_size: number | null;
+}
+
+interface Arrival {
+  at: number;
+  party_size: number;
+}
+
+type ArrivalReservationRow = Pick<Reservation, 'id' | 'reservation_date' | 'start_time' | 'number_of_people' | 'table_id'> & {
+  table_combination: { table_ids: string[] } | null;
+};
+
+type SeatedWalkInRow = Pick<WaitingList, 'id' | 'party_size'> & { table_id: string; updated_at: string };
+
+function round(value: number, digits: number = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return round(sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+export function summarizeTurns(dwells: number[]): TurnStats {
+  return {
+    turns: dwells.length,
+    average_dwell_minutes: average(dwells),
+    median_dwell_minutes: median(dwells)
+  };
+}
+
+/**
+ * Arrival closest to the start of a turn, at most maxDistance minutes away.
+ * On a tie the arrival listed first wins.
+ */
+export function closestArrival(arrivals: Arrival[] | undefined, at: number, maxDistance: number): Arrival | null {
+  let best: Arrival | null = null;
+  for (const arrival of arrivals || []) {
+    const distance = Math.abs(arrival.at - at);
+    if (distance <= maxDistance && (!best || distance < Math.abs(best.at - at))) best = arrival;
+  }
+  return best;
+}
+
+function groupBy<K>(turns: Turn[], key: (turn: Turn) => K): Map<K, Turn[]> {
+  const groups = new Map<K, Turn[]>();
+  for (const turn of turns) {
+    const list = groups.get(key(turn)) || [];
+    list.push(turn);
+    groups.set(key(turn), list);
+  }
+  return groups;
+}
+
+/**
+ * Turn-time analytics from table_status_history: how long parties stay
+ * between being seated and the table being freed, how many turns a table
+ * makes per service and how long it sits idle between them. Turns are
+ * matched to the reservation or waiting list entry seated at that moment to
+ * get the party size.
+ */
+export class TurnAnalyticsService {
+  async getTurnAnalytics(restaurantId: string, from: string, to: string, areaId?: string): Promise<TurnAnalytics> {
+    try {
+      const days = moment(to, 'YYYY-MM-DD').diff(moment(from, 'YYYY-MM-DD'), 'days') + 1;
+      if (days < 1) throw createError('The start date must not be after the end date', 400);
+      if (days > MAX_OCCUPANCY_RANGE_DAYS) {
+        throw createError(`The date range cannot exceed ${MAX_OCCUPANCY_RANGE_DAYS} days`, 400);
+      }
+
+      const { data: restaurant, error: restaurantError } = await supabase
+        .from('restaurants')
+        .select('id, opening_hours, opening_hours_overrides, timezone')
+        .eq('id', restaurantId)
+        .single();
+
+      if (restaurantError || !restaurant) throw createError('Restaurant not found', 404);
+
+      const timezone = resolveTimezone(restaurant.timezone);
+      const nextDate = moment(to, 'YYYY-MM-DD').add(1, 'day').format('YYYY-MM-DD');
+
+      let tablesQuery = supabase
+        .from('tables')
+        .select('id, number, name, capacity, area_id')
+        .eq('restaurant_id', restaurantId)
+        .eq('is_active', true)
+        .order('number', { ascending: true });
+      if (areaId) tablesQuery = tablesQuery.eq('area_id', areaId);
+
+      const [tablesResult, areasResult] = await Promise.all([
+        tablesQuery,
+        supabase
+          .from('restaurant_areas')
+          .select('id, name, order')
+          .eq('restaurant_id', restaurantId)
+          .order('order', { ascending: true })
+      ]);
+
+      if (tablesResult.error) throw createError(tablesResult.error.message, 400);
+      if (areasResult.error) throw createError(areasResult.error.message, 400);
+
+      const areaOrder = (areasResult.data || []).map(area => area.id);
+      const areaNames = new Map<string, string>((areasResult.data || []).map(area => [area.id, area.name]));
+      const tables = (tablesResult.data || []).sort((a, b) => {
+        const position = (id: string | null) => {
+          const index = id ? areaOrder.indexOf(id) : -1;
+          return index === -1 ? areaOrder.length : index;
+        };
+        return position(a.area_id) - position(b.area_id) || a.number - b.number;
+      });
+      const tableIds = tables.map(table => table.id);
+      const areaByTable = new Map<string, string | null>(tables.map(table => [table.id, table.area_id || null]));
+
+      const [intervals, arrivals] = await Promise.all([
+        // Um dia a mais para os turnos da última noite que terminam depois da meia-noite
+        occupancyService.getOccupiedIntervals(
+          tableIds,
+          from,
+          moment(nextDate, 'YYYY-MM-DD').add(1, 'day').format('YYYY-MM-DD'),
+          timezone
+        ),
+        this.getArrivals(restaurantId, tableIds, from, to, nextDate, timezone)
+      ]);
+
+      // Turnos de serviço de cada dia, pelo horário de funcionamento
+      const windowsByDate = new Map<string, TimeRange[] | undefined>();
+      const servicesByPeriod = new Map<string, number>();
+      for (let offset = 0; offset < days; offset++) {
+        const date = moment(from, 'YYYY-MM-DD').add(offset, 'days').format('YYYY-MM-DD');
+        const windows = getServiceWindows(restaurant.opening_hours, restaurant.opening_hours_overrides, date);
+        windowsByDate.set(date, windows);
+        for (const window of windows || [{ start: 0, end: 24 * 60 }]) {
+          const name = windows === undefined ? 'Dia inteiro' : getServicePeriodName(window.start);
+          servicesByPeriod.set(name, (servicesByPeriod.get(name) || 0) + 1);
+        }
+      }
+      const services = [...servicesByPeriod.values()].reduce((sum, count) => sum + count, 0);
+
+      const rangeStart = wallMinutes(from);
+      const rangeEnd = wallMinutes(nextDate);
+      const turns: Turn[] = [];
+      let discarded = 0;
+
+      for (const [tableId, tableIntervals] of intervals) {
+        for (const interval of tableIntervals) {
+          if (interval.start < rangeStart || interval.start >= rangeEnd) continue;
+          if (!interval.complete || interval.end - interval.start > MAX_TURN_MINUTES) {
+            discarded++;
+            continue;
+          }
+
+          const startsAt = moment.utc(interval.start * 60000);
+          const date = startsAt.format('YYYY-MM-DD');
+          const minute = interval.start - wallMinutes(date);
+          const windows = windowsByDate.get(date);
+          const index = windows === undefined ? 0 : windows.findIndex(window => minute >= window.start && minute < window.end);
+          const party = closestArrival(arrivals.reservations.get(tableId), interval.start, RESERVATION_MATCH_MINUTES)
+            || closestArrival(arrivals.walkIns.get(tableId), interval.start, WALK_IN_MATCH_MINUTES);
+
+          turns.push({
+            table_id: tableId,
+            area_id: areaByTable.get(tableId) || null,
+            start: interval.start,
+            end: interval.end,
+            weekday: startsAt.day(),
+            service: index === -1 ? null : `${date}#${index}`,
+            period: windows === undefined
+              ? 'Dia inteiro'
+              : index === -1 ? OUTSIDE_SERVICE : getServicePeriodName(windows[index].start),
+            party_size: party ? party.party_size : null
+          });
+        }
+      }
+
+      // Ociosidade: tempo livre entre dois turnos seguidos da mesma mesa no mesmo serviço
+      const idleByTurn = new Map<Turn, number>();
+      for (const tableTurns of groupBy(turns, turn => turn.table_id).values()) {
+        tableTurns.sort((a, b) => a.start - b.start);
+        for (let i = 1; i < tableTurns.length; i++) {
+          const previous = tableTurns[i - 1];
+          const current = tableTurns[i];
+          if (current.service && current.service === previous.service && current.start >= previous.end) {
+            idleByTurn.set(current, current.start - previous.end);
+          }
+        }
+      }
+
+      const dwells = (list: Turn[]) => list.map(turn => turn.end - turn.start);
+      const idle = (list: Turn[]) => average(list.flatMap(turn => (idleByTurn.has(turn) ? [idleByTurn.get(turn)!] : [])));
+      const perService = (count: number, serviceCount: number) => (serviceCount > 0 ? round(count / serviceCount, 2) : 0);
+
+      const byTable = groupBy(turns, turn => turn.table_id);
+      const tableStats: TurnTableStats[] = tables.map(table => {
+        const list = byTable.get(table.id) || [];
+        return {
+          table_id: table.id,
+          table_name: table.name || `Mesa ${table.number}`,
+          area_id: table.area_id || null,
+          capacity: table.capacity,
+          ...summarizeTurns(dwells(list)),
+          turns_per_service: perService(list.length, services),
+          average_idle_minutes: idle(list)
+        };
+      });
+
+      const tablesPerArea = new Map<string | null, number>();
+      for (const table of tables) {
+        tablesPerArea.set(table.area_id || null, (tablesPerArea.get(table.area_id || null) || 0) + 1);
+      }
+      const byArea = groupBy(turns, turn => turn.area_id);
+      const areaStats: TurnAreaStats[] = [...tablesPerArea.entries()].map(([area, tableCount]) => {
+        const list = byArea.get(area) || [];
+        return {
+          area_id: area,
+          area_name: (area && areaNames.get(area)) || 'Sem área',
+          ...summarizeTurns(dwells(list)),
+          turns_per_service: perService(list.length, services * tableCount),
+          average_idle_minutes: idle(list)
+        };
+      });
+
+      const partySizes: TurnPartySizeStats[] = [...groupBy(turns, turn => turn.party_size).entries()]
+        .sort(([a], [b]) => (a === null ? 1 : b === null ? -1 : a - b))
+        .map(([partySize, list]) => ({ party_size: partySize, ...summarizeTurns(dwells(list)) }));
+
+      const weekdays: TurnWeekdayStats[] = [...groupBy(turns, turn => turn.weekday).entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([weekday, list]) => ({ weekday, ...summarizeTurns(dwells(list)) }));
+
+      const byPeriod = groupBy(turns, turn => turn.period);
+      const periodNames = [...servicesByPeriod.keys(), ...(byPeriod.has(OUTSIDE_SERVICE) ? [OUTSIDE_SERVICE] : [])];
+      const servicePeriods: TurnServiceStats[] = periodNames.map(name => {
+        const list = byPeriod.get(name) || [];
+        const count = servicesByPeriod.get(name) || 0;
+        return {
+          name,
+          services: count,
+          ...summarizeTurns(dwells(list)),
+          turns_per_service: perService(list.length, count * tables.length),
+          average_idle_minutes: idle(list)
+        };
+      });
+
+      return {
+        from,
+        to,
+        area_id: areaId || null,
+        services,
+        ...summarizeTurns(dwells(turns)),
+        average_idle_minutes: idle(turns),
+        discarded_turns: discarded,
+        tables: tableStats,
+        areas: areaStats,
+        party_sizes: partySizes,
+        weekdays,
+        service_periods: servicePeriods
+      };
+    } catch (error) {
+      throw createError(
+        `Failed to compute turn analytics: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        (error as AppError).statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * When and how many guests were seated at each table: reservations seated
+   * or completed in the range, and walk-ins seated from the waiting list
+   */
+  private async getArrivals(
+    restaurantId: string,
+    tableIds: string[],
+    from: string,
+    to: string,
+    nextDate: string,
+    timezone: string
+  ): Promise<{ reservations: Map<string, Arrival[]>; walkIns: Map<string, Arrival[]> }> {
+    const reservations = new Map<string, Arrival[]>();
+    const walkIns = new Map<string, Arrival[]>();
+    if (tableIds.length === 0) return { reservations, walkIns };
+
+    const wanted = new Set(tableIds);
+    const add = (map: Map<string, Arrival[]>, tableId: string, arrival: Arrival) => {
+      if (!wanted.has(tableId)) return;
+      const list = map.get(tableId) || [];
+      list.push(arrival);
+      map.set(tableId, list);
+    };
+
+    const [reservationRows, walkInRows] = await Promise.all([
+      fetchAllRows((start, end) => supabase
+        .from('reservations')
+        .select('id, reservation_date, start_time, number_of_people, table_id, table_combination:table_combinations(table_ids)')
+        .eq('restaurant_id', restaurantId)
+        .gte('reservation_date', from)
+        .lte('reservation_date', to)
+        .in('status', ['seated', 'completed'])
+        .order('id', { ascending: true })
+        .range(start, end)
+        .returns<ArrivalReservationRow[]>()),
+      fetchAllRows((start, end) => supabase
+        .from('waiting_list')
+        .select('id, table_id, party_size, updated_at')
+        .eq('restaurant_id', restaurantId)
+        .eq('status', 'seated')
+        .in('table_id', tableIds)
+        .gte('updated_at', startOfLocalDay(from, timezone))
+        .lt('updated_at', startOfLocalDay(nextDate, timezone))
+        .order('id', { ascending: true })
+        .range(start, end)
+        .returns<SeatedWalkInRow[]>())
+    ]);
+
+    for (const reservation of reservationRows) {
+      const arrival = {
+        at: wallMinutes(reservation.reservation_date, timeToMinutes(reservation.start_time)),
+        party_size: reservation.number_of_people
+      };
+      const occupied = reservation.table_combination?.table_ids || (reservation.table_id ? [reservation.table_id] : []);
+      for (const tableId of occupied) add(reservations, tableId, arrival);
+    }
+
+    for (const walkIn of walkInRows) {
+      add(walkIns, walkIn.table_id, { at: instantToWallMinutes(walkIn.updated_at, timezone), party_size: walkIn.party_size });
+    }
+
+    return { reservations, walkIns };
+  }
+}
+
+export default new TurnAnalyticsService();
@@ -17,13 +17,39 @@ export interface Restaurant extends BaseEntity {
   phone?: string;
   email?: string;
   website?: string;
-  opening_hours?: Record<string, { open: string; close: string }>;
+  opening_hours?: OpeningHours;
+  opening_hours_overrides?: OpeningHoursOverride[];
+  timezone?: string;
   max_capacity?: number;
   onboarding_completed: boolean;
   onboarding_step: number;
   user_id: string;
 }
 
+// Opening hours types
+export interface OpeningShift {
+  open: string;
+  close: string;
+}
+
+// Keyed by weekday. A day either lists its shifts or uses the legacy single open/close pair
+export interface OpeningHoursDay {
+  open?: string;
+  close?: string;
+  shifts?: OpeningShift[];
+  closed?: boolean;
+}
+
+export type OpeningHours = Record<string, OpeningHoursDay>;
+
+// Replaces the weekly hours on a specific date (holidays, special events)
+export interface OpeningHoursOverride {
+  date: string;
+  closed?: boolean;
+  shifts?: OpeningShift[];
+  reason?: string;
+}
+
 // Area types
 export interface RestaurantArea extends BaseEntity {
   restaurant_id: string;
@@ -33,6 +59,8 @@ export interface RestaurantArea extends BaseEntity {
   is_active: boolean;
   order?: number;
   max_tables: number;
+  // Chave que assina o feed de calendário da área
+  calendar_feed_key: string;
 }
 
 // Table types
@@ -55,6 +83,15 @@ export interface TableWithArea extends Table {
   area: RestaurantArea;
 }
 
+export interface TableCombination extends BaseEntity {
+  restaurant_id: string;
+  area_id: string;
+  name: string;
+  table_ids: string[];
+  capacity: number;
+  is_active: boolean;
+}
+
 export interface TableStatusHistory extends BaseEntity {
   table_id: string;
   previous_status: string;
@@ -63,6 +100,46 @@ export interface TableStatusHistory extends BaseEntity {
   notes?: string;
 }
 
+// Floor plan versions (saved layouts of an area)
+export type FloorPlanTableLayout = Pick<Table, 'position_x' | 'position_y' | 'width' | 'height' | 'is_active'>;
+
+export interface FloorPlanTable extends FloorPlanTableLayout {
+  table_id: string;
+}
+
+export interface FloorPlanSchedule {
+  starts_on?: string | null;
+  ends_on?: string | null;
+  // 0 = Sunday
+  weekdays?: number[] | null;
+}
+
+export interface FloorPlan extends BaseEntity, FloorPlanSchedule {
+  restaurant_id: string;
+  area_id: string;
+  name: string;
+  description?: string | null;
+  // Last time the version was copied onto the tables
+  applied_at?: string | null;
+}
+
+export interface FloorPlanWithTables extends FloorPlan {
+  tables: FloorPlanTable[];
+}
+
+export interface FloorPlanInput extends FloorPlanSchedule {
+  name: string;
+  description?: string | null;
+  tables?: FloorPlanTable[];
+}
+
+export interface FloorPlanLayout {
+  date: string;
+  area_id: string;
+  floor_plan: Pick<FloorPlan, 'id' | 'name' | 'starts_on' | 'ends_on' | 'weekdays'> | null;
+  tables: (Pick<Table, 'id' | 'number' | 'name' | 'capacity' | 'shape'> & FloorPlanTableLayout)[];
+}
+
 // Menu types
 export interface MenuCategory extends BaseEntity {
   restaurant_id: string;
@@ -87,6 +164,8 @@ export interface MenuItemWithCategory extends MenuItem {
 }
 
 // Reservation types
+export type ReservationStatus = 'pending' | 'confirmed' | 'seated' | 'completed' | 'canceled' | 'no_show';
+
 export interface Reservation extends BaseEntity {
   restaurant_id: string;
   customer_name: string;
@@ -95,14 +174,58 @@ export interface Reservation extends BaseEntity {
   reservation_date: string;
   start_time: string;
   end_time?: string;
-  table_id: string;
+  table_id: string | null;
+  table_combination_id?: string | null;
   area_id: string;
-  status: 'pending' | 'confirmed' | 'canceled' | 'completed';
+  status: ReservationStatus;
   notes?: string;
-  categoria_comemoracao_id?: string;
+  categoria_comemoracao_id?: string | null;
   people_list?: string[];
+  assignment_reason?: string;
+  is_overbooked?: boolean;
+  series_id?: string;
+  deposit_status?: ReservationDepositStatus | null;
+  deposit_amount?: number | null;
+  deposit_terms?: ReservationDepositTerms | null;
+  // Sobe quando a reserva muda de data ou horário, invalidando os links do cliente já enviados
+  guest_link_version?: number;
+}
+
+// Deposit lifecycle: required until paid; on cancellation it is refunded or forfeited,
+// or refund_failed when the refund could not be made
+export type ReservationDepositStatus = 'required' | 'processing' | 'paid' | 'refunded' | 'forfeited' | 'refund_failed' | 'waived';
+
+// Cancellation terms copied to the reservation when the deposit is required
+export interface ReservationDepositTerms {
+  policy_name?: string;
+  currency: string;
+  refund_window_hours: number;
+  cancellation_fee_percentage: number;
+}
+
+export interface ReservationPayment {
+  id: string;
+  reservation_id: string;
+  restaurant_id: string;
+  provider: string;
+  provider_charge_id: string;
+  kind: 'charge' | 'refund';
+  amount: number;
+  currency: string;
+  status: 'paid' | 'failed' | 'refunded';
+  failure_reason?: string;
+  created_by?: string;
+  created_at: string;
 }
 
+// Reservation with the table(s) it holds, as read with the reservation select
+export type ReservationSeating = Pick<
+  Reservation,
+  'id' | 'restaurant_id' | 'customer_name' | 'reservation_date' | 'start_time' | 'status' | 'area_id' | 'table_id' | 'table_combination_id'
+> & {
+  table_combination?: Pick<TableCombination, 'table_ids' | 'capacity'> | null;
+};
+
 export interface ReservationWithDetails extends Reservation {
   table: Table;
   area: RestaurantArea;
@@ -111,6 +234,451 @@ export interface ReservationWithDetails extends Reservation {
     nome: string;
     cor?: string;
   };
+  experiences?: ReservationExperience[];
+}
+
+// Experiences linked to a reservation (one row of reservation_experiences)
+export interface ReservationExperienceLink {
+  bonification_id?: string | null;
+  event_id?: string | null;
+  event_exclusive_id?: string | null;
+}
+
+export interface ReservationExperience extends ReservationExperienceLink {
+  id: string;
+  reservation_id: string;
+  restaurant_id: string;
+  created_at: string;
+  bonification?: Pick<ExperienceBonification, 'id' | 'name'> | null;
+  event?: Pick<ExperienceEvent, 'id' | 'name' | 'init_time' | 'end_time'> | null;
+  event_exclusive?: Pick<ExperienceEventExclusive, 'id' | 'name'> | null;
+}
+
+// Campos de experiência aceitos na criação e edição de reservas
+export interface ReservationExperienceInput {
+  reservation_experience_id?: string;
+  reservation_experience_data?: ReservationExperienceLink | null;
+}
+
+export interface ReservationStatusHistory extends BaseEntity {
+  reservation_id: string;
+  previous_status: ReservationStatus | null;
+  new_status: ReservationStatus;
+  changed_by?: string;
+  notes?: string;
+  changed_at: string;
+}
+
+export type ReservationChangeAction = 'created' | 'updated' | 'status_changed';
+
+export interface ReservationChangeLog {
+  id: string;
+  reservation_id: string;
+  action: ReservationChangeAction;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  changed_by?: string;
+  changed_at: string;
+}
+
+// Reservation waitlist (online, for fully booked slots; not the walk-in waiting_list)
+export type ReservationWaitlistStatus = 'waiting' | 'offered' | 'accepted' | 'declined' | 'expired' | 'canceled';
+
+export interface ReservationWaitlistEntry extends BaseEntity {
+  restaurant_id: string;
+  customer_name: string;
+  phone?: string;
+  number_of_people: number;
+  reservation_date: string;
+  start_time: string;
+  flexibility_minutes: number;
+  area_id?: string | null;
+  notes?: string;
+  status: ReservationWaitlistStatus;
+  reservation_id?: string | null;
+  offered_at?: string | null;
+  hold_expires_at?: string | null;
+  created_by?: string;
+}
+
+export interface ReservationImportRowResult {
+  row: number;
+  status: 'valid' | 'created' | 'invalid';
+  reservation_id?: string;
+  errors?: string[];
+  code?: string;
+}
+
+export interface ReservationImportReport {
+  dry_run: boolean;
+  total: number;
+  succeeded: number;
+  failed: number;
+  rows: ReservationImportRowResult[];
+}
+
+// Reservation search types
+export type ReservationSearchSort = 'date' | 'created_at' | 'customer_name' | 'number_of_people';
+
+export interface ReservationSearchQuery {
+  from?: string;
+  to?: string;
+  status?: ReservationStatus[];
+  area_id?: string;
+  table_id?: string;
+  min_people?: number;
+  max_people?: number;
+  phone?: string;
+  name?: string;
+  categoria_comemoracao_id?: string;
+  experience_id?: string;
+  sort?: ReservationSearchSort;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+// Run sheet types (day sheet printed for each service)
+export interface GuestHistory {
+  visits: number;
+  no_shows: number;
+  last_visit: string | null;
+  customer_type: ChatContact['customer_type'] | null;
+  is_vip: boolean;
+}
+
+export interface RunSheetEntry {
+  id: string;
+  start_time: string;
+  end_time?: string;
+  customer_name: string;
+  phone?: string;
+  number_of_people: number;
+  status: ReservationStatus;
+  tables: string[];
+  celebration: { id: string; nome: string; cor?: string } | null;
+  experiences: string[];
+  notes?: string;
+  deposit_status?: ReservationDepositStatus | null;
+  guest: GuestHistory;
+}
+
+export interface RunSheetArea {
+  area_id: string | null;
+  area_name: string;
+  reservations_count: number;
+  covers: number;
+  reservations: RunSheetEntry[];
+}
+
+export interface RunSheetPeriod {
+  name: string;
+  start_time: string | null;
+  end_time: string | null;
+  reservations_count: number;
+  covers: number;
+  areas: RunSheetArea[];
+}
+
+export interface RunSheet {
+  date: string;
+  restaurant: Pick<Restaurant, 'id' | 'name'>;
+  generated_at: string;
+  reservations_count: number;
+  covers: number;
+  periods: RunSheetPeriod[];
+}
+
+// Occupancy analytics types (seat-hours used vs. available in service hours)
+export interface OccupancyFigures {
+  seat_hours_available: number;
+  seat_hours_used: number;
+  percentage: number;
+}
+
+export interface OccupancyAreaFigures extends OccupancyFigures {
+  area_id: string | null;
+  area_name: string;
+}
+
+export interface OccupancyPeriod extends OccupancyFigures {
+  name: string;
+  start_time: string;
+  end_time: string;
+  areas: OccupancyAreaFigures[];
+}
+
+export interface OccupancyDay extends OccupancyFigures {
+  date: string;
+  periods: OccupancyPeriod[];
+  areas: OccupancyAreaFigures[];
+}
+
+export interface OccupancyReport extends OccupancyFigures {
+  from: string;
+  to: string;
+  area_id: string | null;
+  days: OccupancyDay[];
+  areas: OccupancyAreaFigures[];
+}
+
+// Turn analytics types (seat-to-free time from table_status_history)
+export interface TurnStats {
+  turns: number;
+  average_dwell_minutes: number | null;
+  median_dwell_minutes: number | null;
+}
+
+export interface TurnTableStats extends TurnStats {
+  table_id: string;
+  table_name: string;
+  area_id: string | null;
+  capacity: number;
+  turns_per_service: number;
+  average_idle_minutes: number | null;
+}
+
+export interface TurnAreaStats extends TurnStats {
+  area_id: string | null;
+  area_name: string;
+  turns_per_service: number;
+  average_idle_minutes: number | null;
+}
+
+export interface TurnPartySizeStats extends TurnStats {
+  // null groups turns matched to no reservation or waiting list entry
+  party_size: number | null;
+}
+
+export interface TurnWeekdayStats extends TurnStats {
+  // 0 = Sunday
+  weekday: number;
+}
+
+export interface TurnServiceStats extends TurnStats {
+  name: string;
+  services: number;
+  turns_per_service: number;
+  average_idle_minutes: number | null;
+}
+
+export interface TurnAnalytics extends TurnStats {
+  from: string;
+  to: string;
+  area_id: string | null;
+  services: number;
+  average_idle_minutes: number | null;
+  // Turns left out: still occupied, cut by the date range or longer than the limit
+  discarded_turns: number;
+  tables: TurnTableStats[];
+  areas: TurnAreaStats[];
+  party_sizes: TurnPartySizeStats[];
+  weekdays: TurnWeekdayStats[];
+  service_periods: TurnServiceStats[];
+}
+
+// Real-time floor events, streamed per restaurant
+export type RealtimeEventType =
+  | 'table.created'
+  | 'table.updated'
+  | 'table.deleted'
+  | 'table.status_changed'
+  | 'table.moved'
+  | 'reservation.created'
+  | 'reservation.updated'
+  | 'reservation.status_changed'
+  | 'reservation.deleted'
+  | 'waiting_list.created'
+  | 'waiting_list.updated'
+  | 'waiting_list.deleted';
+
+export interface RealtimeEvent<T = unknown> {
+  id: string;
+  type: RealtimeEventType;
+  restaurant_id: string;
+  data: T;
+  occurred_at: string;
+}
+
+// Area timeline types (per-table bookings across the day)
+export interface TimelineEntry {
+  type: 'reservation' | 'walk_in';
+  id: string;
+  customer_name: string;
+  number_of_people: number;
+  start_time: string;
+  end_time: string;
+  status: string;
+  table_combination?: { id: string; name: string } | null;
+  is_overbooked?: boolean;
+  // Walk-ins have no end time; theirs comes from the duration rules
+  estimated_end?: boolean;
+}
+
+export interface TimelineBlock {
+  id: string;
+  reason?: string;
+  is_full_day: boolean;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+export interface TimelineGap {
+  start_time: string;
+  end_time: string;
+  minutes: number;
+}
+
+export interface TableTimeline {
+  table: Pick<Table, 'id' | 'number' | 'name' | 'capacity' | 'status'>;
+  entries: TimelineEntry[];
+  blocked: TimelineBlock[];
+  free_gaps: TimelineGap[];
+}
+
+export interface AreaTimeline {
+  date: string;
+  area: Pick<RestaurantArea, 'id' | 'name'>;
+  service_windows: { start_time: string; end_time: string }[] | null;
+  turnover_buffer_minutes: number;
+  tables: TableTimeline[];
+  // Reservations of the area still without a table (overbooking)
+  unassigned: TimelineEntry[];
+}
+
+export interface TimelineMove {
+  reservation_id: string;
+  table_id: string;
+  start_time?: string;
+  end_time?: string;
+  dry_run?: boolean;
+}
+
+export interface TimelineConflict {
+  type: 'reservation' | 'walk_in' | 'blocked' | 'capacity' | 'closed';
+  id?: string;
+  message: string;
+  start_time?: string | null;
+  end_time?: string | null;
+}
+
+export interface TimelineMoveCheck {
+  valid: boolean;
+  reservation_id: string;
+  table_id: string;
+  start_time: string;
+  end_time: string;
+  conflicts: TimelineConflict[];
+  // The reservation after the move, when it was applied
+  reservation?: Reservation;
+}
+
+// Guest self-service types
+export type GuestReservationAction = 'confirm' | 'reschedule' | 'cancel';
+
+export interface GuestReservationLink {
+  token: string;
+  url: string;
+  expires_at: string;
+}
+
+export interface GuestReservationView {
+  id: string;
+  customer_name: string;
+  number_of_people: number;
+  reservation_date: string;
+  start_time: string;
+  end_time?: string;
+  status: ReservationStatus;
+  area_name?: string;
+  deposit_status?: ReservationDepositStatus | null;
+  deposit_amount?: number | null;
+  restaurant: Pick<Restaurant, 'id' | 'name' | 'address' | 'phone' | 'logo_url'>;
+  allowed_actions: GuestReservationAction[];
+}
+
+// Recurring reservation types (same vocabulary as CategoriaComemoracao)
+export type ReservationSeriesRecurrence = 'semanal' | 'quinzenal' | 'mensal';
+
+export interface ReservationSeries extends BaseEntity {
+  restaurant_id: string;
+  customer_name: string;
+  phone?: string;
+  number_of_people: number;
+  start_time: string;
+  end_time?: string;
+  table_id?: string;
+  table_combination_id?: string;
+  area_id?: string;
+  notes?: string;
+  reservation_status: 'pending' | 'confirmed';
+  tipo_recorrencia: ReservationSeriesRecurrence;
+  dias_semana: number[];
+  data_inicio: string;
+  data_fim?: string;
+  qtd_ocorrencias?: number;
+  status: 'active' | 'canceled';
+  created_by?: string;
+}
+
+export interface ReservationSeriesFailure {
+  date: string;
+  error: string;
+  code?: string;
+}
+
+export interface ReservationSeriesResult {
+  series: ReservationSeries;
+  reservations: Reservation[];
+  failed: ReservationSeriesFailure[];
+}
+
+export type ReservationSeriesScope = 'this' | 'following';
+
+// Blocked date types
+export interface BlockedDate extends BaseEntity {
+  restaurant_id?: string;
+  area_id?: string | null;
+  reason?: string;
+  init_date: string;
+  end_date: string;
+  init_time?: string | null;
+  end_time?: string | null;
+  is_full_day: boolean;
+}
+
+// Availability types
+export interface AvailabilityQuery {
+  date: string;
+  start_time?: string;
+  end_time?: string;
+  number_of_people: number;
+  area_id?: string;
+  interval?: number;
+}
+
+export interface AvailableTable {
+  id: string;
+  number: number;
+  name?: string;
+  capacity: number;
+  area_id: string;
+}
+
+export interface AvailableCombination {
+  id: string;
+  name: string;
+  capacity: number;
+  area_id: string;
+  table_ids: string[];
+}
+
+export interface AvailabilitySlot {
+  start_time: string;
+  end_time: string;
+  tables: AvailableTable[];
+  combinations: AvailableCombination[];
+  pacing?: ReservationPacingUsage[];
+  overbooking?: ReservationOverbookingUsage;
 }
 
 // Celebration types
@@ -157,6 +725,8 @@ export interface ChatContact extends BaseEntity {
   notes?: string;
   thread_id?: string;
   ai_enable: boolean;
+  no_show_count?: number;
+  last_no_show_at?: string | null;
 }
 
 export interface CustomerFilters {
@@ -240,6 +810,7 @@ export interface ExperienceEvent extends BaseEntity {
   init_time?: string;
   end_time?: string;
   percentage_discount?: string;
+  status?: boolean;
 }
 
 export interface ExperienceEventExclusive extends BaseEntity {
@@ -277,6 +848,14 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   };
 }
 
+export interface CursorPaginatedResponse<T> extends ApiResponse<T[]> {
+  pagination: {
+    limit: number;
+    next_cursor: string | null;
+    has_more: boolean;
+  };
+}
+
 // AI Settings types
 export interface AISettings extends BaseEntity {
   restaurant_id: string;
@@ -311,6 +890,91 @@ export interface NotificationSettings extends BaseEntity {
   };
 }
 
+// Reservation Settings types
+export interface ReservationDurationRule {
+  name?: string;
+  duration_minutes: number;
+  min_party_size?: number;
+  max_party_size?: number;
+  weekdays?: number[];
+  area_id?: string;
+  start_time?: string;
+  end_time?: string;
+}
+
+// Limits on how many reservations and covers may start within each slot interval
+export interface ReservationPacingRule {
+  name?: string;
+  area_id?: string;
+  interval_minutes: number;
+  max_reservations?: number;
+  max_covers?: number;
+}
+
+export interface ReservationPacingUsage {
+  area_id?: string;
+  interval_minutes: number;
+  slot_start: string;
+  reservations: number;
+  covers: number;
+  max_reservations?: number;
+  max_covers?: number;
+}
+
+// Minutes a table stays blocked after a reservation ends so it can be cleaned and reset
+export interface ReservationTurnoverBuffer {
+  area_id?: string;
+  minutes: number;
+}
+
+// Extra covers accepted beyond the seating capacity on the listed weekdays
+export interface ReservationOverbookingRule {
+  name?: string;
+  weekdays: number[];
+  percentage: number;
+}
+
+export interface ReservationOverbookingUsage {
+  percentage: number;
+  seating_capacity: number;
+  allowed_covers: number;
+  overbooked_covers: number;
+}
+
+export interface ReservationOverbookingReport extends ReservationOverbookingUsage {
+  date: string;
+  peak_overbooked_covers: number;
+  reservations: Pick<Reservation, 'id' | 'customer_name' | 'number_of_people' | 'start_time' | 'end_time' | 'status'>[];
+}
+
+// Deposit required from reservations matching every condition set on the policy
+export interface ReservationDepositPolicy {
+  name?: string;
+  min_party_size?: number;
+  date_from?: string;
+  date_to?: string;
+  event_id?: string;
+  amount_per_person?: number;
+  fixed_amount?: number;
+  refund_window_hours: number;
+  cancellation_fee_percentage?: number;
+}
+
+export interface ReservationSettings extends BaseEntity {
+  restaurant_id: string;
+  settings: {
+    default_duration_minutes?: number;
+    duration_rules?: ReservationDurationRule[];
+    pacing_rules?: ReservationPacingRule[];
+    turnover_buffers?: ReservationTurnoverBuffer[];
+    overbooking_rules?: ReservationOverbookingRule[];
+    deposit_policies?: ReservationDepositPolicy[];
+    deposit_currency?: string;
+    no_show_grace_minutes?: number;
+    waitlist_hold_minutes?: number;
+  };
+}
+
 // User Profile extended types
 export interface UserProfileExtended extends UserProfile {
   email?: string;
@@ -326,5 +990,6 @@ export interface RestaurantSettingsResponse {
   restaurant: Restaurant;
   ai_settings: AISettings | null;
   notification_settings: NotificationSettings | null;
+  reservation_settings: ReservationSettings | null;
   users: UserProfileExtended[];
 } 
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- Records why a table was picked when a reservation is auto-assigned
+ALTER TABLE public.reservations
+  ADD COLUMN IF NOT EXISTS assignment_reason text;
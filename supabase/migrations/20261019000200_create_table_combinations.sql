@@ -0,0 +1,23 @@
+-- Joinable table groups per area, used to seat parties larger than any single table
+CREATE TABLE IF NOT EXISTS public.table_combinations (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL,
+  area_id uuid NOT NULL,
+  name text NOT NULL,
+  table_ids uuid[] NOT NULL,
+  capacity integer NOT NULL,
+  is_active boolean DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT table_combinations_pkey PRIMARY KEY (id),
+  CONSTRAINT table_combinations_restaurant_id_fkey FOREIGN KEY (restaurant_id) REFERENCES public.restaurants(id),
+  CONSTRAINT table_combinations_area_id_fkey FOREIGN KEY (area_id) REFERENCES public.restaurant_areas(id),
+  CONSTRAINT table_combinations_min_tables CHECK (array_length(table_ids, 1) >= 2)
+);
+
+CREATE INDEX IF NOT EXISTS table_combinations_area_id_idx ON public.table_combinations (area_id);
+
+-- A reservation on a combination keeps table_id pointing at the first member table
+ALTER TABLE public.reservations
+  ADD COLUMN IF NOT EXISTS table_combination_id uuid,
+  ADD CONSTRAINT reservations_table_combination_id_fkey FOREIGN KEY (table_combination_id) REFERENCES public.table_combinations(id);
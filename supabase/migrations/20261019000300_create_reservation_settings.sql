@@ -0,0 +1,10 @@
+-- Per-restaurant reservation settings (duration rules and other booking policies)
+CREATE TABLE IF NOT EXISTS public.reservation_settings (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  restaurant_id uuid UNIQUE,
+  settings jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT reservation_settings_pkey PRIMARY KEY (id),
+  CONSTRAINT reservation_settings_restaurant_id_fkey FOREIGN KEY (restaurant_id) REFERENCES public.restaurants(id)
+);
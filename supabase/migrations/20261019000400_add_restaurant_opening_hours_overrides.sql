@@ -0,0 +1,3 @@
+-- Holiday and special-date overrides for the weekly opening hours
+ALTER TABLE public.restaurants
+  ADD COLUMN IF NOT EXISTS opening_hours_overrides jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,19 @@
+-- Allow the no_show status
+ALTER TABLE public.reservations DROP CONSTRAINT IF EXISTS reservations_status_check;
+ALTER TABLE public.reservations
+  ADD CONSTRAINT reservations_status_check CHECK (status = ANY (ARRAY['pending'::text, 'confirmed'::text, 'seated'::text, 'completed'::text, 'canceled'::text, 'no_show'::text]));
+
+-- One row per reservation status transition (previous_status is null for the initial status)
+CREATE TABLE IF NOT EXISTS public.reservation_status_history (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  reservation_id uuid NOT NULL,
+  previous_status text,
+  new_status text NOT NULL,
+  changed_at timestamp with time zone DEFAULT now(),
+  changed_by uuid,
+  notes text,
+  CONSTRAINT reservation_status_history_pkey PRIMARY KEY (id),
+  CONSTRAINT reservation_status_history_reservation_id_fkey FOREIGN KEY (reservation_id) REFERENCES public.reservations(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS reservation_status_history_reservation_id_idx ON public.reservation_status_history (reservation_id);
@@ -0,0 +1,23 @@
+-- No-show tracking on customers, used to decide who must leave a deposit
+ALTER TABLE public.chat_contacts
+  ADD COLUMN IF NOT EXISTS no_show_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_no_show_at timestamp with time zone;
+
+-- Atomically bump the counter of the contact whose phone matches (digits only)
+CREATE OR REPLACE FUNCTION increment_contact_no_show(p_restaurant_id UUID, p_phone TEXT)
+RETURNS SETOF public.chat_contacts
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.chat_contacts
+  SET
+    no_show_count = no_show_count + 1,
+    last_no_show_at = now(),
+    updated_at = now()
+  WHERE
+    restaurant_id = p_restaurant_id
+    AND regexp_replace(phone_number, '\D', '', 'g') = regexp_replace(p_phone, '\D', '', 'g')
+  RETURNING *;
+END;
+$$;
@@ -0,0 +1,36 @@
+-- Standing bookings: a template that materializes one reservation per occurrence
+CREATE TABLE IF NOT EXISTS public.reservation_series (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL,
+  customer_name text NOT NULL,
+  phone text,
+  number_of_people integer NOT NULL DEFAULT 1,
+  start_time time without time zone NOT NULL,
+  end_time time without time zone,
+  table_id uuid,
+  table_combination_id uuid,
+  area_id uuid,
+  notes text,
+  reservation_status text NOT NULL DEFAULT 'confirmed'::text CHECK (reservation_status = ANY (ARRAY['pending'::text, 'confirmed'::text])),
+  tipo_recorrencia text NOT NULL CHECK (tipo_recorrencia = ANY (ARRAY['semanal'::text, 'quinzenal'::text, 'mensal'::text])),
+  dias_semana integer[] NOT NULL,
+  data_inicio date NOT NULL,
+  data_fim date,
+  qtd_ocorrencias integer,
+  status text NOT NULL DEFAULT 'active'::text CHECK (status = ANY (ARRAY['active'::text, 'canceled'::text])),
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT reservation_series_pkey PRIMARY KEY (id),
+  CONSTRAINT reservation_series_restaurant_id_fkey FOREIGN KEY (restaurant_id) REFERENCES public.restaurants(id),
+  CONSTRAINT reservation_series_table_id_fkey FOREIGN KEY (table_id) REFERENCES public.tables(id),
+  CONSTRAINT reservation_series_table_combination_id_fkey FOREIGN KEY (table_combination_id) REFERENCES public.table_combinations(id),
+  CONSTRAINT reservation_series_area_id_fkey FOREIGN KEY (area_id) REFERENCES public.restaurant_areas(id),
+  CONSTRAINT reservation_series_end_check CHECK (data_fim IS NOT NULL OR qtd_ocorrencias IS NOT NULL)
+);
+
+ALTER TABLE public.reservations
+  ADD COLUMN IF NOT EXISTS series_id uuid,
+  ADD CONSTRAINT reservations_series_id_fkey FOREIGN KEY (series_id) REFERENCES public.reservation_series(id);
+
+CREATE INDEX IF NOT EXISTS reservations_series_id_idx ON public.reservations (series_id);
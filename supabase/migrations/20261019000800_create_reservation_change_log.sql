@@ -0,0 +1,13 @@
+-- One row per change made to a reservation, with before/after values per field
+CREATE TABLE IF NOT EXISTS public.reservation_change_log (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  reservation_id uuid NOT NULL,
+  action text NOT NULL CHECK (action = ANY (ARRAY['created'::text, 'updated'::text, 'status_changed'::text])),
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  changed_by uuid,
+  changed_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT reservation_change_log_pkey PRIMARY KEY (id),
+  CONSTRAINT reservation_change_log_reservation_id_fkey FOREIGN KEY (reservation_id) REFERENCES public.reservations(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS reservation_change_log_reservation_id_idx ON public.reservation_change_log (reservation_id, changed_at);
@@ -0,0 +1,26 @@
+-- Deposit state on reservations (null when no deposit policy applies)
+ALTER TABLE public.reservations
+  ADD COLUMN IF NOT EXISTS deposit_status text CHECK (deposit_status = ANY (ARRAY['required'::text, 'paid'::text, 'refunded'::text, 'forfeited'::text])),
+  ADD COLUMN IF NOT EXISTS deposit_amount numeric(10,2),
+  ADD COLUMN IF NOT EXISTS deposit_terms jsonb;
+
+-- Charges and refunds made through the payment provider
+CREATE TABLE IF NOT EXISTS public.reservation_payments (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  reservation_id uuid NOT NULL,
+  restaurant_id uuid NOT NULL,
+  provider text NOT NULL,
+  provider_charge_id text NOT NULL,
+  kind text NOT NULL CHECK (kind = ANY (ARRAY['charge'::text, 'refund'::text])),
+  amount numeric(10,2) NOT NULL,
+  currency text NOT NULL DEFAULT 'BRL',
+  status text NOT NULL CHECK (status = ANY (ARRAY['paid'::text, 'failed'::text, 'refunded'::text])),
+  failure_reason text,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT reservation_payments_pkey PRIMARY KEY (id),
+  CONSTRAINT reservation_payments_reservation_id_fkey FOREIGN KEY (reservation_id) REFERENCES public.reservations(id) ON DELETE CASCADE,
+  CONSTRAINT reservation_payments_restaurant_id_fkey FOREIGN KEY (restaurant_id) REFERENCES public.restaurants(id)
+);
+
+CREATE INDEX IF NOT EXISTS reservation_payments_reservation_id_idx ON public.reservation_payments (reservation_id);
@@ -0,0 +1,28 @@
+-- Guests waiting for a fully booked slot. When a matching reservation is canceled the
+-- entry gets a pending reservation on the freed table (reservation_id) until hold_expires_at.
+CREATE TABLE IF NOT EXISTS public.reservation_waitlist (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL,
+  customer_name text NOT NULL,
+  phone text,
+  number_of_people integer NOT NULL,
+  reservation_date date NOT NULL,
+  start_time time without time zone NOT NULL,
+  flexibility_minutes integer NOT NULL DEFAULT 30,
+  area_id uuid,
+  notes text,
+  status text NOT NULL DEFAULT 'waiting' CHECK (status = ANY (ARRAY['waiting'::text, 'offered'::text, 'accepted'::text, 'declined'::text, 'expired'::text, 'canceled'::text])),
+  reservation_id uuid,
+  offered_at timestamp with time zone,
+  hold_expires_at timestamp with time zone,
+  created_by uuid,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT reservation_waitlist_pkey PRIMARY KEY (id),
+  CONSTRAINT reservation_waitlist_restaurant_id_fkey FOREIGN KEY (restaurant_id) REFERENCES public.restaurants(id),
+  CONSTRAINT reservation_waitlist_area_id_fkey FOREIGN KEY (area_id) REFERENCES public.restaurant_areas(id),
+  CONSTRAINT reservation_waitlist_reservation_id_fkey FOREIGN KEY (reservation_id) REFERENCES public.reservations(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS reservation_waitlist_restaurant_date_idx ON public.reservation_waitlist (restaurant_id, reservation_date, status);
+CREATE INDEX IF NOT EXISTS reservation_waitlist_hold_idx ON public.reservation_waitlist (hold_expires_at) WHERE status = 'offered';
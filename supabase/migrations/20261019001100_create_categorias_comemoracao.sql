@@ -0,0 +1,24 @@
+-- Celebration categories offered for reservations (birthday, anniversary, ...)
+CREATE TABLE IF NOT EXISTS public.categorias_comemoracao (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL,
+  nome text NOT NULL,
+  tipo_recorrencia text NOT NULL CHECK (tipo_recorrencia = ANY (ARRAY['unica'::text, 'dias_semana'::text, 'periodo'::text])),
+  dias_semana integer[],
+  data_inicio date NOT NULL,
+  data_fim date NOT NULL,
+  descricao text,
+  qtd_min integer NOT NULL DEFAULT 1,
+  cor text,
+  status boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT categorias_comemoracao_pkey PRIMARY KEY (id),
+  CONSTRAINT categorias_comemoracao_restaurant_id_fkey FOREIGN KEY (restaurant_id) REFERENCES public.restaurants(id)
+);
+
+CREATE INDEX IF NOT EXISTS categorias_comemoracao_restaurant_idx ON public.categorias_comemoracao (restaurant_id, status);
+
+ALTER TABLE public.reservations
+  ADD COLUMN IF NOT EXISTS categoria_comemoracao_id uuid,
+  ADD CONSTRAINT reservations_categoria_comemoracao_id_fkey FOREIGN KEY (categoria_comemoracao_id) REFERENCES public.categorias_comemoracao(id);
@@ -0,0 +1,28 @@
+-- Experiences follow the reservation when it is deleted
+ALTER TABLE public.reservation_experiences
+  DROP CONSTRAINT IF EXISTS reservation_experiences_reservation_id_fkey,
+  ADD CONSTRAINT reservation_experiences_reservation_id_fkey FOREIGN KEY (reservation_id) REFERENCES public.reservations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS reservation_experiences_reservation_id_idx ON public.reservation_experiences (reservation_id);
+
+-- Replace the experiences linked to a reservation in a single transaction
+CREATE OR REPLACE FUNCTION replace_reservation_experiences(
+  p_reservation_id UUID,
+  p_restaurant_id UUID,
+  p_bonification_id UUID DEFAULT NULL,
+  p_event_id UUID DEFAULT NULL,
+  p_event_exclusive_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM public.reservation_experiences
+  WHERE reservation_id = p_reservation_id;
+
+  IF p_bonification_id IS NOT NULL OR p_event_id IS NOT NULL OR p_event_exclusive_id IS NOT NULL THEN
+    INSERT INTO public.reservation_experiences (reservation_id, restaurant_id, bonification_id, event_id, event_exclusive_id)
+    VALUES (p_reservation_id, p_restaurant_id, p_bonification_id, p_event_id, p_event_exclusive_id);
+  END IF;
+END;
+$$;
@@ -0,0 +1,14 @@
+-- Keyset pagination of the reservation search: one index per sort option, with id as tie-breaker
+CREATE INDEX IF NOT EXISTS reservations_search_date_idx ON public.reservations (restaurant_id, reservation_date, start_time, id);
+CREATE INDEX IF NOT EXISTS reservations_search_created_idx ON public.reservations (restaurant_id, created_at, id);
+CREATE INDEX IF NOT EXISTS reservations_search_name_idx ON public.reservations (restaurant_id, customer_name, id);
+CREATE INDEX IF NOT EXISTS reservations_search_people_idx ON public.reservations (restaurant_id, number_of_people, id);
+
+-- Substring search on name and phone
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE INDEX IF NOT EXISTS reservations_customer_name_trgm_idx ON public.reservations USING gin (customer_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS reservations_phone_trgm_idx ON public.reservations USING gin (phone gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS reservation_experiences_event_id_idx ON public.reservation_experiences (event_id);
+CREATE INDEX IF NOT EXISTS reservation_experiences_bonification_id_idx ON public.reservation_experiences (bonification_id);
+CREATE INDEX IF NOT EXISTS reservation_experiences_event_exclusive_id_idx ON public.reservation_experiences (event_exclusive_id);
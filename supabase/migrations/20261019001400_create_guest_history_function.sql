@@ -0,0 +1,48 @@
+-- Guests are matched by the digits of their phone number
+CREATE INDEX IF NOT EXISTS reservations_phone_digits_idx
+  ON public.reservations (restaurant_id, (regexp_replace(phone, '\D', '', 'g')));
+
+-- Visits, no-shows and customer type of each phone before a date (run sheet)
+CREATE OR REPLACE FUNCTION get_guest_history(p_restaurant_id UUID, p_phones TEXT[], p_before DATE)
+RETURNS TABLE (
+  phone_digits TEXT,
+  visits INTEGER,
+  no_shows INTEGER,
+  last_visit DATE,
+  customer_type TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH guests AS (
+    SELECT DISTINCT regexp_replace(p, '\D', '', 'g') AS digits
+    FROM unnest(p_phones) AS p
+  ),
+  history AS (
+    SELECT
+      regexp_replace(r.phone, '\D', '', 'g') AS digits,
+      count(*) FILTER (WHERE r.status IN ('seated', 'completed'))::integer AS visits,
+      count(*) FILTER (WHERE r.status = 'no_show')::integer AS no_shows,
+      max(r.reservation_date) FILTER (WHERE r.status IN ('seated', 'completed')) AS last_visit
+    FROM public.reservations r
+    WHERE r.restaurant_id = p_restaurant_id
+      AND r.reservation_date < p_before
+      AND regexp_replace(r.phone, '\D', '', 'g') IN (SELECT digits FROM guests)
+    GROUP BY 1
+  )
+  SELECT
+    g.digits,
+    coalesce(h.visits, 0),
+    coalesce(h.no_shows, 0),
+    h.last_visit,
+    (
+      SELECT c.customer_type
+      FROM public.chat_contacts c
+      WHERE c.restaurant_id = p_restaurant_id
+        AND regexp_replace(c.phone_number, '\D', '', 'g') = g.digits
+      LIMIT 1
+    )
+  FROM guests g
+  LEFT JOIN history h ON h.digits = g.digits
+  WHERE g.digits <> '';
+$$;
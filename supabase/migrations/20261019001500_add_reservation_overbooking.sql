@@ -0,0 +1,8 @@
+-- Reservations accepted beyond the seating capacity by the weekday's overbooking rule.
+-- They are saved without a table until one is assigned.
+ALTER TABLE public.reservations
+  ADD COLUMN IF NOT EXISTS is_overbooked boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS reservations_overbooked_idx
+  ON public.reservations (restaurant_id, reservation_date)
+  WHERE is_overbooked;
@@ -0,0 +1,3 @@
+-- Timezone in which the restaurant's dates and reservation times are read
+ALTER TABLE public.restaurants
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'America/Sao_Paulo';
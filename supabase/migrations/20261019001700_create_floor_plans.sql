@@ -0,0 +1,41 @@
+-- Named layout versions of an area. The tables hold the layout in use; a version is
+-- copied onto them when activated, or takes over on the dates of its schedule
+-- (a date range, weekdays, or both) for availability and the timeline.
+CREATE TABLE IF NOT EXISTS public.floor_plans (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL,
+  area_id uuid NOT NULL,
+  name text NOT NULL,
+  description text,
+  starts_on date,
+  ends_on date,
+  weekdays smallint[],
+  applied_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT floor_plans_pkey PRIMARY KEY (id),
+  CONSTRAINT floor_plans_restaurant_id_fkey FOREIGN KEY (restaurant_id) REFERENCES public.restaurants(id),
+  CONSTRAINT floor_plans_area_id_fkey FOREIGN KEY (area_id) REFERENCES public.restaurant_areas(id) ON DELETE CASCADE,
+  CONSTRAINT floor_plans_area_name_key UNIQUE (area_id, name),
+  CONSTRAINT floor_plans_date_range CHECK (starts_on IS NULL OR ends_on IS NULL OR starts_on <= ends_on),
+  CONSTRAINT floor_plans_weekdays CHECK (weekdays IS NULL OR weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[])
+);
+
+CREATE INDEX IF NOT EXISTS floor_plans_restaurant_id_idx ON public.floor_plans (restaurant_id);
+
+-- Geometry and active flag of each table in a version; tables missing from a
+-- version keep their own
+CREATE TABLE IF NOT EXISTS public.floor_plan_tables (
+  floor_plan_id uuid NOT NULL,
+  table_id uuid NOT NULL,
+  position_x numeric NOT NULL DEFAULT 0,
+  position_y numeric NOT NULL DEFAULT 0,
+  width numeric NOT NULL DEFAULT 100,
+  height numeric NOT NULL DEFAULT 100,
+  is_active boolean NOT NULL DEFAULT true,
+  CONSTRAINT floor_plan_tables_pkey PRIMARY KEY (floor_plan_id, table_id),
+  CONSTRAINT floor_plan_tables_floor_plan_id_fkey FOREIGN KEY (floor_plan_id) REFERENCES public.floor_plans(id) ON DELETE CASCADE,
+  CONSTRAINT floor_plan_tables_table_id_fkey FOREIGN KEY (table_id) REFERENCES public.tables(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS floor_plan_tables_table_id_idx ON public.floor_plan_tables (table_id);
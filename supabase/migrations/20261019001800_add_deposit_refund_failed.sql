@@ -0,0 +1,7 @@
+-- Deposits whose refund could not be made on cancellation stay visible as refund_failed
+ALTER TABLE public.reservations
+  DROP CONSTRAINT IF EXISTS reservations_deposit_status_check;
+
+ALTER TABLE public.reservations
+  ADD CONSTRAINT reservations_deposit_status_check
+  CHECK (deposit_status = ANY (ARRAY['required'::text, 'paid'::text, 'refunded'::text, 'forfeited'::text, 'refund_failed'::text]));
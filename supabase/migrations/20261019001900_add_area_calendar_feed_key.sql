@@ -0,0 +1,3 @@
+-- Chave do feed de calendário da área; trocá-la invalida as URLs já compartilhadas
+ALTER TABLE public.restaurant_areas
+  ADD COLUMN IF NOT EXISTS calendar_feed_key uuid NOT NULL DEFAULT gen_random_uuid();
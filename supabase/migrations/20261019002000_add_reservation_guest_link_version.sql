@@ -0,0 +1,3 @@
+-- Versão dos links do cliente; sobe quando a reserva muda de data ou horário
+ALTER TABLE public.reservations
+  ADD COLUMN IF NOT EXISTS guest_link_version integer NOT NULL DEFAULT 1;
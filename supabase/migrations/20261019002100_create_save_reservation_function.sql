@@ -0,0 +1,43 @@
+-- Insert (p_reservation_id NULL) or update a reservation and, when asked, replace
+-- its experiences in the same transaction. Only the columns present in
+-- p_reservation are written, so the others keep their defaults or current values.
+CREATE OR REPLACE FUNCTION save_reservation(
+  p_reservation JSONB,
+  p_reservation_id UUID DEFAULT NULL,
+  p_replace_experiences BOOLEAN DEFAULT FALSE,
+  p_bonification_id UUID DEFAULT NULL,
+  p_event_id UUID DEFAULT NULL,
+  p_event_exclusive_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_columns TEXT;
+  v_id UUID := p_reservation_id;
+  v_restaurant_id UUID;
+BEGIN
+  SELECT string_agg(quote_ident(key), ', ')
+  INTO v_columns
+  FROM jsonb_object_keys(p_reservation) AS key;
+
+  IF v_id IS NULL THEN
+    EXECUTE format(
+      'INSERT INTO public.reservations (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::public.reservations, $1) RETURNING id',
+      v_columns
+    ) INTO v_id USING p_reservation;
+  ELSIF v_columns IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE public.reservations SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::public.reservations, $1)) WHERE id = $2',
+      v_columns
+    ) USING p_reservation, v_id;
+  END IF;
+
+  IF p_replace_experiences THEN
+    SELECT restaurant_id INTO v_restaurant_id FROM public.reservations WHERE id = v_id;
+    PERFORM replace_reservation_experiences(v_id, v_restaurant_id, p_bonification_id, p_event_id, p_event_exclusive_id);
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
@@ -0,0 +1,74 @@
+-- Create (p_plan_id NULL) or update a floor plan version and, when p_tables is
+-- given, replace its tables in the same transaction. Only the plan columns
+-- present in p_plan are written.
+CREATE OR REPLACE FUNCTION save_floor_plan(
+  p_plan JSONB,
+  p_plan_id UUID DEFAULT NULL,
+  p_tables JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_columns TEXT;
+  v_id UUID := p_plan_id;
+BEGIN
+  SELECT string_agg(quote_ident(key), ', ')
+  INTO v_columns
+  FROM jsonb_object_keys(p_plan) AS key;
+
+  IF v_id IS NULL THEN
+    EXECUTE format(
+      'INSERT INTO public.floor_plans (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::public.floor_plans, $1) RETURNING id',
+      v_columns
+    ) INTO v_id USING p_plan;
+  ELSIF v_columns IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE public.floor_plans SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::public.floor_plans, $1)) WHERE id = $2',
+      v_columns
+    ) USING p_plan, v_id;
+  END IF;
+
+  IF p_tables IS NOT NULL THEN
+    DELETE FROM public.floor_plan_tables
+    WHERE floor_plan_id = v_id;
+
+    INSERT INTO public.floor_plan_tables (floor_plan_id, table_id, position_x, position_y, width, height, is_active)
+    SELECT
+      v_id,
+      t.table_id,
+      coalesce(t.position_x, 0),
+      coalesce(t.position_y, 0),
+      coalesce(t.width, 100),
+      coalesce(t.height, 100),
+      coalesce(t.is_active, true)
+    FROM jsonb_populate_recordset(NULL::public.floor_plan_tables, p_tables) AS t;
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Copy a version's layout onto the tables and mark it applied, all or nothing
+CREATE OR REPLACE FUNCTION apply_floor_plan(p_plan_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.tables AS t
+  SET
+    position_x = l.position_x,
+    position_y = l.position_y,
+    width = l.width,
+    height = l.height,
+    is_active = l.is_active,
+    updated_at = now()
+  FROM public.floor_plan_tables AS l
+  WHERE l.floor_plan_id = p_plan_id
+    AND t.id = l.table_id;
+
+  UPDATE public.floor_plans
+  SET applied_at = now(), updated_at = now()
+  WHERE id = p_plan_id;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- processing: a charge is in flight, so a second payment attempt cannot start
+-- waived: the reservation was canceled or missed before the deposit was paid
+ALTER TABLE public.reservations
+  DROP CONSTRAINT IF EXISTS reservations_deposit_status_check;
+
+ALTER TABLE public.reservations
+  ADD CONSTRAINT reservations_deposit_status_check
+  CHECK (deposit_status = ANY (ARRAY['required'::text, 'processing'::text, 'paid'::text, 'refunded'::text, 'forfeited'::text, 'refund_failed'::text, 'waived'::text]));